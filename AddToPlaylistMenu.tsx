@@ -0,0 +1,66 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Playlist } from '../types';
+import { PlaylistAddIcon, PlusIcon } from './Icons';
+
+interface AddToPlaylistMenuProps {
+  playlists: Playlist[];
+  onAdd: (playlistId: string) => void;
+  onCreate: (name: string) => void;
+  label: string;
+}
+
+const AddToPlaylistMenu: React.FC<AddToPlaylistMenuProps> = ({ playlists, onAdd, onCreate, label }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleCreate = () => {
+    const name = prompt("New playlist name");
+    if (name?.trim()) onCreate(name.trim());
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative" onClick={e => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-1 text-gray-400 hover:text-white rounded-full"
+        aria-label={label}
+        title={label}
+      >
+        <PlaylistAddIcon className="w-5 h-5" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-48 bg-gray-800 border border-gray-700 rounded-md shadow-xl z-20 py-1 text-left">
+          {playlists.map(playlist => (
+            <button
+              key={playlist.id}
+              onClick={() => { onAdd(playlist.id); setIsOpen(false); }}
+              className="w-full px-3 py-2 text-sm text-gray-300 hover:bg-purple-600/40 hover:text-white truncate text-left"
+            >
+              {playlist.name}
+            </button>
+          ))}
+          <button
+            onClick={handleCreate}
+            className="w-full px-3 py-2 text-sm text-gray-300 hover:bg-purple-600/40 hover:text-white flex items-center gap-2 border-t border-gray-700"
+          >
+            <PlusIcon className="w-4 h-4" />
+            New playlist
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddToPlaylistMenu;
@@ -1,34 +1,60 @@
 
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Song } from './types';
-import { RepeatMode } from './types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Song, SongStats, SmartPlaylistRules } from './types';
+import { RepeatMode, ShuffleMode } from './types';
 import Player from './components/Player';
 import SongList from './components/SongList';
 import ConfirmationModal from './components/ConfirmationModal';
+import SmartPlaylistEditor from './components/SmartPlaylistEditor';
+import HistoryView from './components/HistoryView';
+import StatsView from './components/StatsView';
 import MiniPlayer from './components/MiniPlayer';
+import PlaylistSidebar from './components/PlaylistSidebar';
+import PlaylistView from './components/PlaylistView';
+import LibraryBrowser from './components/LibraryBrowser';
 import { FolderOpenIcon, MusicNoteIcon, RefreshIcon, SpinnerIcon } from './components/Icons';
-import { getDirectoryHandle, setDirectoryHandle } from './db';
+import { getDirectoryHandle, setDirectoryHandle, getCatalogTracks, saveCatalog, clearCatalog, CatalogTrack } from './db';
+import { getFilesRecursively, getCatalogEntries, scanTracks, isTrackUpToDate, createCoverArtResolver, diffLibrary, getTrackKey, getSongId, getContentHashFromId, LibraryFileEntry, ScanProgress } from './library';
+import { LOCAL_STORAGE_KEY, MAX_HISTORY_LENGTH, HistoryEntry, SavedPlaybackState, serializePlaybackState, restorePlaybackState } from './playbackState';
+import { usePlaylists, PlaylistFileStore } from './usePlaylists';
+import { usePlayHistory } from './usePlayHistory';
+import { useLoudnessAnalysis } from './useLoudnessAnalysis';
+import { useWaveform } from './useWaveform';
+import { getAlbumAdjustments, getReplayGain, getSongAlbumId } from './replayGain';
+import { readPlaylistFiles, writePlaylistFile, createPlaylistFile, deletePlaylistFile } from './playlistFiles';
+import { shuffleQueue } from './shuffle';
+import { BrowseView } from './browse';
+import { AudioEngine, createAudioEngine } from './audioEngine';
+import { AudioSettings, loadAudioSettings, saveAudioSettings } from './audioSettings';
+import { RateScope, loadPlaybackRates, savePlaybackRates, getRememberedRate, rememberRate } from './playbackRates';
+import { createSearchIndex, searchSongs } from './search';
+import { evaluateSmartPlaylist, isSmartPlaylist } from './smartPlaylists';
 
-declare var jsmediatags: any;
-const LOCAL_STORAGE_KEY = 'musicPlayerState';
 const UI_STATE_KEY = 'musicPlayerUIState';
 
-// A recursive function to get all files from a directory handle
-async function getFilesRecursively(directoryHandle: FileSystemDirectoryHandle, currentPath: string[] = []): Promise<{file: File, path: string[]}[]> {
-    const files: {file: File, path: string[]}[] = [];
-    for await (const entry of directoryHandle.values()) {
-        if (entry.kind === 'file') {
-            const file = await entry.getFile();
-            if (file.type.startsWith('audio/')) {
-                files.push({ file, path: [...currentPath, entry.name] });
-            }
-        } else if (entry.kind === 'directory') {
-            files.push(...await getFilesRecursively(entry, [...currentPath, entry.name]));
-        }
-    }
-    return files;
-}
+const createSong = ({ file, path }: LibraryFileEntry, track: CatalogTrack, coverArt: string | undefined): Song => ({
+    id: getSongId(track.contentHash, path),
+    name: track.name,
+    artist: track.artist,
+    album: track.album,
+    albumArtist: track.albumArtist,
+    composer: track.composer,
+    genre: track.genre,
+    year: track.year,
+    trackNumber: track.trackNumber,
+    discNumber: track.discNumber,
+    rating: track.rating,
+    duration: track.duration,
+    gapless: track.gapless,
+    replayGain: track.replayGain,
+    loudness: track.loudness,
+    chapters: track.chapters,
+    addedAt: track.addedAt,
+    url: URL.createObjectURL(file),
+    coverArt,
+    path
+});
 
 interface NowPlayingSidebarProps {
   currentSong: Song | null;
@@ -77,22 +103,64 @@ const App: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [repeatMode, setRepeatMode] = useState<RepeatMode>(RepeatMode.NONE);
   const [isShuffled, setIsShuffled] = useState(false);
+  const [shuffleMode, setShuffleMode] = useState<ShuffleMode>(ShuffleMode.TRACKS);
   const [playQueue, setPlayQueue] = useState<number[]>([]);
   const [originalQueue, setOriginalQueue] = useState<number[]>([]);
+  // Songs queued with "Play next" or "Add to queue". They play before the queue continues
+  // after currentSongIndex, which stays where it was while a queued song plays.
+  const [upNext, setUpNext] = useState<string[]>([]);
+  const [queuedSongId, setQueuedSongId] = useState<string | null>(null);
+  // Songs that actually played, most recent last
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [directoryHandle, setHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [permissionStatus, setPermissionStatus] = useState<PermissionState | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [initialTime, setInitialTime] = useState(0);
   const [searchTerm, setSearchTerm] = useState('');
   const [permissionDenied, setPermissionDenied] = useState(false);
+  // Used for songs without a speed of their own or of their folder
   const [playbackRate, setPlaybackRate] = useState(1);
+  const [playbackRates, setPlaybackRates] = useState(loadPlaybackRates);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
   const [songToDelete, setSongToDelete] = useState<number | null>(null);
+  const [playlistToDelete, setPlaylistToDelete] = useState<string | null>(null);
+  const [isSmartPlaylistEditorOpen, setIsSmartPlaylistEditorOpen] = useState(false);
+  // The smart playlist whose rules are being edited, null when creating one
+  const [smartPlaylistToEdit, setSmartPlaylistToEdit] = useState<string | null>(null);
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
+  const [activePlaylistId, setActivePlaylistId] = useState<string | null>(null);
+  // Name of the album, artist, folder etc. that is playing as the queue, if one is
+  const [queueName, setQueueName] = useState<string | null>(null);
+  const [browseView, setBrowseView] = useState<BrowseView>('songs');
   const [isPlayerExpanded, setIsPlayerExpanded] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [isRescanning, setIsRescanning] = useState(false);
+  const [rescanSummary, setRescanSummary] = useState<string | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+
+  // Playlist files are written with paths relative to themselves, so they need the songs as they are now
+  const playlistFileStore: PlaylistFileStore | undefined = directoryHandle ? {
+      write: playlist => writePlaylistFile(directoryHandle, playlist, new Map(songs.map(song => [song.id, song]))),
+      create: (playlist, format) => createPlaylistFile(directoryHandle, playlist, format, new Map(songs.map(song => [song.id, song]))),
+      remove: playlist => deletePlaylistFile(directoryHandle, playlist),
+  } : undefined;
+  const { playlists: storedPlaylists, setFilePlaylists, renamePlaylistSongs, createPlaylist, createSmartPlaylist, renamePlaylist, updatePlaylistRules, deletePlaylist, exportPlaylist, addToPlaylist, removeFromPlaylist, movePlaylistItem } = usePlaylists(playlistFileStore, (oldId, newId) => {
+      setSelectedPlaylistId(id => (id === oldId ? newId : id));
+      setActivePlaylistId(id => (id === oldId ? newId : id));
+  });
 
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const audioRef = useRef<AudioEngine | null>(null);
+  if (!audioRef.current) audioRef.current = createAudioEngine();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const objectUrlsRef = useRef<Set<string>>(new Set());
+  const scanAbortRef = useRef<AbortController | null>(null);
+  const rescanAbortRef = useRef<AbortController | null>(null);
+  // The latest rescan, for loading the library to start one once the cached songs are shown
+  const rescanLibraryRef = useRef<(handle: FileSystemDirectoryHandle) => Promise<void>>(async () => {});
+  // Mirrors the latest library state so a long-running rescan patches what is current when it finishes
+  const libraryStateRef = useRef({ songs, playQueue, originalQueue, currentSongIndex, activePlaylistId, queueName, queuedSongId });
+  libraryStateRef.current = { songs, playQueue, originalQueue, currentSongIndex, activePlaylistId, queueName, queuedSongId };
   
   // On mount, check for a saved directory handle and restore UI state
   useEffect(() => {
@@ -127,6 +195,9 @@ const App: React.FC = () => {
         if (typeof savedUIState.searchTerm === 'string') {
           setSearchTerm(savedUIState.searchTerm);
         }
+        if (typeof savedUIState.browseView === 'string') {
+          setBrowseView(savedUIState.browseView);
+        }
       }
     } catch (e) {
       console.error("Failed to load UI state from localStorage:", e);
@@ -134,117 +205,136 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const getSongMetadata = (file: File): Promise<Partial<Song>> => {
-    return new Promise((resolve) => {
-        new jsmediatags.Reader(file)
-            .setTagsToRead(["title", "artist", "album", "picture"])
-            .read({
-                onSuccess: (tagObject: any) => {
-                    const { tags } = tagObject;
-                    const metadata: Partial<Song> = {
-                        name: tags.title || file.name.replace(/\.[^/.]+$/, ""),
-                        artist: tags.artist || 'Unknown Artist',
-                        album: tags.album || 'Unknown Album',
-                    };
-
-                    if (tags.picture) {
-                        const { data, format } = tags.picture;
-                        const blob = new Blob(data, { type: format });
-                        metadata.coverArt = URL.createObjectURL(blob);
-                    }
-                    resolve(metadata);
-                },
-                onError: () => {
-                    resolve({
-                        name: file.name.replace(/\.[^/.]+$/, ""),
-                        artist: 'Unknown Artist',
-                        album: 'Unknown Album',
-                    });
-                }
-            });
-    });
-  };
+  // Shows `newSongs` as the library and restores the saved playback state for them, or starts afresh
+  const showLibrary = useCallback((newSongs: Song[]) => {
+      setSongs(newSongs);
 
-  const getAudioDuration = (url: string): Promise<number> => {
-    return new Promise((resolve) => {
-        const audio = new Audio(url);
-        audio.onloadedmetadata = () => {
-            resolve(audio.duration);
-        };
-        audio.onerror = () => {
-            resolve(0); // Resolve with 0 if there's an error
-        };
-    });
-  };
+      // Try to load saved state from localStorage
+      const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
+      if (savedStateJSON) {
+          try {
+              const restored = restorePlaybackState(newSongs, JSON.parse(savedStateJSON));
+              if (restored) {
+                  setPlayQueue(restored.playQueue);
+                  setOriginalQueue(restored.originalQueue);
+                  setActivePlaylistId(restored.activePlaylistId);
+                  setQueueName(restored.queueName);
+                  setCurrentSongIndex(restored.currentSongIndex);
+                  setUpNext(restored.upNext);
+                  setQueuedSongId(restored.queuedSongId);
+                  setHistory(restored.history);
+                  setIsShuffled(restored.isShuffled);
+                  setShuffleMode(restored.shuffleMode);
+                  setRepeatMode(restored.repeatMode);
+                  setInitialTime(restored.currentTime);
+                  setPlaybackRate(restored.playbackRate);
+                  setIsPlaying(false); // Always start paused
+                  return; // Exit if state is successfully restored
+              }
+          } catch (e) {
+              console.error("Failed to parse saved state:", e);
+              localStorage.removeItem(LOCAL_STORAGE_KEY);
+          }
+      }
+
+      // If no valid saved state, initialize fresh
+      const initialQueue = newSongs.map((_, index) => index);
+      setOriginalQueue(initialQueue);
+      setPlayQueue(initialQueue);
+      setActivePlaylistId(null);
+      setQueueName(null);
+      setCurrentSongIndex(0);
+      setUpNext([]);
+      setQueuedSongId(null);
+      setHistory([]);
+      setIsPlaying(false);
+      setInitialTime(0);
+      setPlaybackRate(1);
+  }, []);
 
-  const processAudioFiles = useCallback(async (audioFileEntries: { file: File, path: string[] }[]) => {
+  // Loads the library and returns its songs, or null if nothing was loaded
+  const processAudioFiles = useCallback(async (audioFileEntries: LibraryFileEntry[]): Promise<Song[] | null> => {
       if (audioFileEntries.length === 0) {
         alert("No audio files found.");
-        return;
+        return null;
       }
       setIsLoading(true);
       try {
-        const newSongs: Song[] = await Promise.all(audioFileEntries.map(async ({ file, path }) => {
-            const url = URL.createObjectURL(file);
-            const metadata = await getSongMetadata(file);
-            const duration = await getAudioDuration(url);
-            
-            return {
-                id: `${file.name}-${file.lastModified}`,
-                name: metadata.name!,
-                artist: metadata.artist!,
-                album: metadata.album!,
-                duration: duration,
-                url,
-                coverArt: metadata.coverArt,
-                path
-            };
-        }));
+        // Only files that are new or changed since the last scan need their tags read
+        const catalog = new Map((await getCatalogTracks()).map(track => [track.path, track]));
+        const newCoverArt = new Map<string, Blob>();
+        const getCoverArtUrl = createCoverArtResolver(newCoverArt);
 
-        setSongs(newSongs);
-
-        // Try to load saved state from localStorage
-        const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
-        if (savedStateJSON) {
-            try {
-                const savedState = JSON.parse(savedStateJSON);
-                // Validate if the saved state corresponds to the current song library
-                if (savedState.songCount === newSongs.length && savedState.playQueue) {
-                    setPlayQueue(savedState.playQueue);
-                    setOriginalQueue(savedState.originalQueue);
-                    setCurrentSongIndex(savedState.currentSongIndex);
-                    setIsShuffled(savedState.isShuffled);
-                    setRepeatMode(savedState.repeatMode);
-                    setInitialTime(savedState.currentTime || 0);
-                    setPlaybackRate(savedState.playbackRate || 1);
-                    setIsPlaying(false); // Always start paused
-                    return; // Exit if state is successfully restored
-                }
-            } catch (e) {
-                console.error("Failed to parse saved state:", e);
-                localStorage.removeItem(LOCAL_STORAGE_KEY);
+        const toScan = audioFileEntries.filter(entry => {
+            const cached = catalog.get(getTrackKey(entry.path));
+            return !cached || !isTrackUpToDate(cached, entry.file);
+        });
+        const scanController = new AbortController();
+        scanAbortRef.current = scanController;
+        const scannedTracks = await scanTracks(toScan, { signal: scanController.signal, onProgress: setScanProgress });
+        const scannedByPath = new Map(scannedTracks.map(({ track, picture }) => {
+            if (track.coverArtId && picture) {
+                newCoverArt.set(track.coverArtId, picture);
             }
+            // A changed file is still the same song to the user
+            const addedAt = catalog.get(track.path)?.addedAt ?? track.addedAt;
+            return [track.path, { ...track, addedAt }];
+        }));
+        const tracks = audioFileEntries.map(entry => {
+            const key = getTrackKey(entry.path);
+            return scannedByPath.get(key) ?? catalog.get(key)!;
+        });
+
+        const newSongs: Song[] = await Promise.all(audioFileEntries.map(async (entry, index) => {
+            return createSong(entry, tracks[index], await getCoverArtUrl(tracks[index].coverArtId));
+        }));
+
+        try {
+            await saveCatalog(tracks, newCoverArt);
+        } catch (e) {
+            console.error("Failed to save library catalog:", e);
         }
 
-        // If no valid saved state, initialize fresh
-        const initialQueue = newSongs.map((_, index) => index);
-        setOriginalQueue(initialQueue);
-        setPlayQueue(initialQueue);
-        setCurrentSongIndex(0);
-        setIsPlaying(false);
-        setInitialTime(0);
-        setPlaybackRate(1);
+        showLibrary(newSongs);
+        return newSongs;
 
+      } catch (error) {
+        // The user cancelled the scan, keep the library as it was
+        if ((error as DOMException).name !== 'AbortError') throw error;
+        return null;
       } finally {
+        scanAbortRef.current = null;
+        setScanProgress(null);
         setIsLoading(false);
       }
-  }, []);
+  }, [showLibrary]);
 
   const loadSongsFromHandle = useCallback(async (handle: FileSystemDirectoryHandle) => {
       if (!handle) return;
-      const audioFileEntries = await getFilesRecursively(handle);
-      await processAudioFiles(audioFileEntries);
-  }, [processAudioFiles]);
+      rescanAbortRef.current?.abort();
+      // A library scanned before is shown as cached right away, then checked against the folder in the background
+      const cachedTracks = await getCatalogTracks();
+      if (cachedTracks.length > 0) {
+          setIsLoading(true);
+          try {
+              const cached = await getCatalogEntries(handle, cachedTracks);
+              if (cached.length > 0) {
+                  const getCoverArtUrl = createCoverArtResolver(new Map());
+                  showLibrary(await Promise.all(cached.map(async ({ entry, track }) => createSong(entry, track, await getCoverArtUrl(track.coverArtId)))));
+                  rescanLibraryRef.current(handle);
+                  return;
+              }
+          } finally {
+              setIsLoading(false);
+          }
+      }
+      const playlistFileEntries: LibraryFileEntry[] = [];
+      const audioFileEntries = await getFilesRecursively(handle, [], playlistFileEntries);
+      const newSongs = await processAudioFiles(audioFileEntries);
+      if (newSongs) {
+          setFilePlaylists(await readPlaylistFiles(playlistFileEntries, newSongs));
+      }
+  }, [processAudioFiles, setFilePlaylists, showLibrary]);
 
   const handleFileSelection = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!event.target.files) return;
@@ -260,6 +350,7 @@ const App: React.FC = () => {
         try {
             const handle = await window.showDirectoryPicker({ mode: 'readwrite' });
             localStorage.removeItem(LOCAL_STORAGE_KEY); // Clear old state for new folder
+            await clearCatalog();
             await setDirectoryHandle(handle);
             setHandle(handle);
             setPermissionStatus('granted');
@@ -290,6 +381,166 @@ const App: React.FC = () => {
       }
   };
   
+  const rescanLibrary = async (handle: FileSystemDirectoryHandle) => {
+      rescanAbortRef.current?.abort();
+      const rescanController = new AbortController();
+      rescanAbortRef.current = rescanController;
+      const { signal } = rescanController;
+      setIsRescanning(true);
+      setRescanSummary(null);
+      try {
+          const playlistFileEntries: LibraryFileEntry[] = [];
+          const entries = await getFilesRecursively(handle, [], playlistFileEntries);
+          signal.throwIfAborted();
+          const previousTracks = await getCatalogTracks();
+          const diff = await diffLibrary(previousTracks, entries);
+
+          const newCoverArt = new Map<string, Blob>();
+          const getCoverArtUrl = createCoverArtResolver(newCoverArt);
+          const scanned = await scanTracks([...diff.added, ...diff.modified], {
+              signal,
+              onProgress: ({ scanned, total }) => setRescanSummary(`Scanning ${scanned} of ${total}...`),
+          });
+          const previousByPath = new Map(previousTracks.map(track => [track.path, track]));
+          const scannedTracks = new Map<string, CatalogTrack>();
+          for (const { track, picture } of scanned) {
+              if (track.coverArtId && picture) {
+                  newCoverArt.set(track.coverArtId, picture);
+              }
+              scannedTracks.set(track.path, { ...track, addedAt: previousByPath.get(track.path)?.addedAt ?? track.addedAt });
+          }
+
+          const movedFrom = new Map(diff.moved.map(({ from, to }) => [from.path, to]));
+          const modifiedPaths = new Map(diff.modified.map(entry => [getTrackKey(entry.path), entry]));
+          const currentPaths = new Set(entries.map(entry => getTrackKey(entry.path)));
+
+          // Patch the library in place: surviving songs keep their index order and object
+          // identity, changed files get a fresh song, and new files are appended at the end.
+          const { songs: oldSongs, playQueue: oldPlayQueue, originalQueue: oldOriginalQueue, currentSongIndex: oldCurrentIndex, activePlaylistId: playingPlaylistId, queueName: playingQueueName, queuedSongId: oldQueuedSongId } = libraryStateRef.current;
+          const oldToNew: number[] = [];
+          const newSongs: Song[] = [];
+          for (const song of oldSongs) {
+              const key = getTrackKey(song.path);
+              const movedTo = movedFrom.get(key);
+              const modified = modifiedPaths.get(key);
+              let patched: Song | null = null;
+              if (movedTo) {
+                  patched = { ...song, id: getSongId(getContentHashFromId(song.id), movedTo.path), path: movedTo.path, url: URL.createObjectURL(movedTo.file) };
+              } else if (modified) {
+                  const track = scannedTracks.get(key)!;
+                  patched = createSong(modified, track, await getCoverArtUrl(track.coverArtId));
+              } else if (currentPaths.has(key)) {
+                  patched = song;
+              }
+              oldToNew.push(patched ? newSongs.push(patched) - 1 : -1);
+          }
+          const addedIndices: number[] = [];
+          for (const entry of diff.added) {
+              const track = scannedTracks.get(getTrackKey(entry.path))!;
+              addedIndices.push(newSongs.push(createSong(entry, track, await getCoverArtUrl(track.coverArtId))) - 1);
+          }
+
+          const movedTracks = new Map(diff.moved.map(({ from, to }) => [getTrackKey(to.path), { ...from, path: getTrackKey(to.path) }]));
+          const tracks = entries
+              .map(entry => {
+                  const key = getTrackKey(entry.path);
+                  return scannedTracks.get(key) ?? movedTracks.get(key) ?? previousByPath.get(key);
+              })
+              .filter(Boolean) as CatalogTrack[];
+          try {
+              await saveCatalog(tracks, newCoverArt);
+          } catch (e) {
+              console.error("Failed to save library catalog:", e);
+          }
+
+          setRescanSummary(`${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} changed, ${diff.moved.length} moved`);
+          setFilePlaylists(await readPlaylistFiles(playlistFileEntries, newSongs));
+
+          if (newSongs.length === 0) {
+              setSongs([]);
+              setOriginalQueue([]);
+              setPlayQueue([]);
+              setCurrentSongIndex(null);
+              setUpNext([]);
+              setQueuedSongId(null);
+              setHistory([]);
+              setIsPlaying(false);
+              setActivePlaylistId(null);
+              setQueueName(null);
+              localStorage.removeItem(LOCAL_STORAGE_KEY);
+              return;
+          }
+
+          // Moved songs get a new ID, removed ones drop out of Up Next and the history
+          const newIds = new Map(oldSongs.map((song, i) => [song.id, oldToNew[i] !== -1 ? newSongs[oldToNew[i]].id : null]));
+          const remapIds = (ids: string[]) => ids.map(id => newIds.get(id)).filter((id): id is string => !!id);
+          setUpNext(remapIds);
+          setHistory(entries => entries.flatMap(entry => {
+              const songId = newIds.get(entry.songId);
+              return songId ? [{ ...entry, songId }] : [];
+          }));
+          // Plays of removed songs are kept for the listening history
+          renameSongs(new Map([...newIds].filter((entry): entry is [string, string] => entry[1] !== null && entry[1] !== entry[0])));
+          if (oldQueuedSongId) {
+              const oldQueuedIndex = oldSongs.findIndex(song => song.id === oldQueuedSongId);
+              const newQueuedIndex = oldToNew[oldQueuedIndex] ?? -1;
+              setQueuedSongId(newQueuedIndex !== -1 ? newSongs[newQueuedIndex].id : null);
+              if (newQueuedIndex !== -1 && newSongs[newQueuedIndex] !== oldSongs[oldQueuedIndex] && audioRef.current) {
+                  setInitialTime(audioRef.current.currentTime);
+              } else if (newQueuedIndex === -1) {
+                  setInitialTime(0);
+              }
+          }
+
+          const remapQueue = (queue: number[]) => queue.map(i => oldToNew[i]).filter(i => i !== undefined && i !== -1);
+          // New files join the queue only when the whole library is playing, not a playlist or album
+          const queuedAdditions = playingPlaylistId || playingQueueName ? [] : addedIndices;
+          const newOriginalQueue = [...remapQueue(oldOriginalQueue), ...queuedAdditions];
+          const newPlayQueue = [...remapQueue(oldPlayQueue), ...queuedAdditions];
+
+          let newCurrentSongIndex: number | null = oldCurrentIndex;
+          if (oldCurrentIndex !== null) {
+              const oldPlayingIndex = oldPlayQueue[oldCurrentIndex];
+              const newPlayingIndex = oldToNew[oldPlayingIndex] ?? -1;
+              if (newPlayingIndex !== -1) {
+                  newCurrentSongIndex = newPlayQueue.indexOf(newPlayingIndex);
+                  // A moved or changed file gets a new object URL; resume where playback was
+                  if (!oldQueuedSongId && newSongs[newPlayingIndex] !== oldSongs[oldPlayingIndex] && audioRef.current) {
+                      setInitialTime(audioRef.current.currentTime);
+                  }
+              } else {
+                  // The song that was playing is gone, move on to the one that took its place
+                  newCurrentSongIndex = Math.min(oldCurrentIndex, newPlayQueue.length - 1);
+                  if (!oldQueuedSongId) setInitialTime(0);
+              }
+          }
+
+          setSongs(newSongs);
+          setOriginalQueue(newOriginalQueue);
+          setPlayQueue(newPlayQueue);
+          setCurrentSongIndex(newCurrentSongIndex);
+      } catch (error) {
+          // A cancelled rescan leaves the library as it was
+          if ((error as DOMException).name === 'AbortError') {
+              if (rescanAbortRef.current === rescanController) setRescanSummary("Rescan cancelled");
+          } else {
+              console.error("Error rescanning library:", error);
+              setRescanSummary("Rescan failed");
+          }
+      } finally {
+          if (rescanAbortRef.current === rescanController) {
+              rescanAbortRef.current = null;
+              setIsRescanning(false);
+          }
+      }
+  };
+  rescanLibraryRef.current = rescanLibrary;
+
+  const handleRescan = () => {
+      if (!directoryHandle || isRescanning) return;
+      rescanLibrary(directoryHandle);
+  };
+
     const handleSongDeleteRequest = (songIndex: number) => {
         setSongToDelete(songIndex);
     };
@@ -327,6 +578,9 @@ const App: React.FC = () => {
                 setOriginalQueue([]);
                 setPlayQueue([]);
                 setCurrentSongIndex(null);
+                setUpNext([]);
+                setQueuedSongId(null);
+                setHistory([]);
                 setIsPlaying(false);
                 localStorage.removeItem(LOCAL_STORAGE_KEY);
                 return;
@@ -354,6 +608,12 @@ const App: React.FC = () => {
             setOriginalQueue(newOriginalQueue);
             setPlayQueue(newPlayQueue);
             setCurrentSongIndex(newCurrentSongIndex);
+            setUpNext(prev => prev.filter(id => id !== song.id));
+            setHistory(prev => prev.filter(entry => entry.songId !== song.id));
+            if (queuedSongId === song.id) {
+                setQueuedSongId(null);
+                setInitialTime(0);
+            }
 
         } catch (error) {
             console.error("Error deleting song:", error);
@@ -368,63 +628,65 @@ const App: React.FC = () => {
         setDuration(dur);
     };
 
-  useEffect(() => {
-    const urlsToRevoke = songs.flatMap(s => [s.url, s.coverArt]).filter(Boolean) as string[];
-    return () => {
-      urlsToRevoke.forEach(url => URL.revokeObjectURL(url));
+    // Seeking from the mini player, the full player follows on the next time update
+    const handleMiniPlayerSeek = (time: number) => {
+        if (!audioRef.current) return;
+        audioRef.current.currentTime = time;
+        setCurrentTime(time);
     };
+
+  // Revoke object URLs of songs that are no longer in the library. A rescan patches
+  // the songs array in place, so URLs of songs that survived it must stay valid.
+  useEffect(() => {
+    const urls = new Set(songs.flatMap(s => [s.url, s.coverArt]).filter(Boolean) as string[]);
+    objectUrlsRef.current.forEach(url => {
+      if (!urls.has(url)) URL.revokeObjectURL(url);
+    });
+    objectUrlsRef.current = urls;
   }, [songs]);
   
   // Save playback state on change
   useEffect(() => {
     if (songs.length > 0 && currentSongIndex !== null) {
+      const stateToSave = serializePlaybackState({ songs, playQueue, originalQueue, activePlaylistId, queueName, currentSongIndex, upNext, queuedSongId, history, isShuffled, shuffleMode, repeatMode, playbackRate }, 0);
       // Read existing state to preserve the accurately saved currentTime from the Player component
       const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
-      let currentTime = 0;
       if (savedStateJSON) {
           try {
-              currentTime = JSON.parse(savedStateJSON).currentTime || 0;
+              const savedState: SavedPlaybackState = JSON.parse(savedStateJSON);
+              if (savedState.currentSongId === stateToSave.currentSongId && savedState.queuedSongId === stateToSave.queuedSongId) {
+                  stateToSave.currentTime = savedState.currentTime || 0;
+              }
           } catch {
               // Ignore parsing errors, default to 0
           }
       }
-
-      const stateToSave = {
-        songCount: songs.length,
-        playQueue,
-        originalQueue,
-        currentSongIndex,
-        isShuffled,
-        repeatMode,
-        playbackRate,
-        currentTime,
-      };
       localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(stateToSave));
     }
-  }, [songs.length, playQueue, originalQueue, currentSongIndex, isShuffled, repeatMode, playbackRate]);
+  }, [songs, playQueue, originalQueue, activePlaylistId, queueName, currentSongIndex, upNext, queuedSongId, history, isShuffled, shuffleMode, repeatMode, playbackRate]);
   
   // Save UI state on change
   useEffect(() => {
     const uiStateToSave = {
       searchTerm,
+      browseView,
     };
     localStorage.setItem(UI_STATE_KEY, JSON.stringify(uiStateToSave));
-  }, [searchTerm]);
+  }, [searchTerm, browseView]);
+
+  useEffect(() => {
+    saveAudioSettings(audioSettings);
+  }, [audioSettings]);
+
+  useEffect(() => {
+    savePlaybackRates(playbackRates);
+  }, [playbackRates]);
 
   // Save playback state on page close
   useEffect(() => {
     const handleBeforeUnload = () => {
       if (songs.length > 0 && currentSongIndex !== null && audioRef.current) {
-        const stateToSave = {
-          songCount: songs.length,
-          playQueue,
-          originalQueue,
-          currentSongIndex,
-          isShuffled,
-          repeatMode,
-          playbackRate,
-          currentTime: audioRef.current.currentTime,
-        };
+        const stateToSave = serializePlaybackState({ songs, playQueue, originalQueue, activePlaylistId, queueName, currentSongIndex, upNext, queuedSongId, history, isShuffled, shuffleMode, repeatMode, playbackRate }, audioRef.current.currentTime);
         localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(stateToSave));
       }
     };
@@ -432,17 +694,106 @@ const App: React.FC = () => {
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [songs.length, playQueue, originalQueue, currentSongIndex, isShuffled, repeatMode, playbackRate]);
+  }, [songs, playQueue, originalQueue, activePlaylistId, queueName, currentSongIndex, upNext, queuedSongId, history, isShuffled, shuffleMode, repeatMode, playbackRate]);
+
+
+  const songIndexById = useMemo(() => new Map(songs.map((song, index) => [song.id, index])), [songs]);
+
+  // Song IDs include the path, so a file moved on disk, whether found by a rescan or on the next
+  // start, would drop out of playlists. Entries that no longer match are found again by content hash.
+  useEffect(() => {
+    if (songs.length === 0) return;
+    const idByContent = new Map(songs.map(song => [getContentHashFromId(song.id), song.id]));
+    const newIds = new Map<string, string>();
+    for (const playlist of storedPlaylists) {
+      if (playlist.source) continue;
+      for (const id of playlist.songIds) {
+        const movedId = songIndexById.has(id) ? undefined : idByContent.get(getContentHashFromId(id));
+        if (movedId) newIds.set(id, movedId);
+      }
+    }
+    renamePlaylistSongs(newIds);
+  }, [songs, songIndexById, storedPlaylists, renamePlaylistSongs]);
+  const searchIndex = useMemo(() => createSearchIndex(songs), [songs]);
 
+  const queuedSong = queuedSongId !== null ? songs[songIndexById.get(queuedSongId) ?? -1] ?? null : null;
+  const currentSong = queuedSong ?? (currentSongIndex !== null ? songs[playQueue[currentSongIndex]] : null);
 
-  const currentSong = currentSongIndex !== null ? songs[playQueue[currentSongIndex]] : null;
+  const { plays, songStats, renameSongs, clearHistory } = usePlayHistory(audioRef, currentSong);
+  // Shared by the full and mini players, so the song is only decoded once
+  const peaks = useWaveform(currentSong ?? null);
+  const getSongStats = useCallback((song: Song): SongStats => songStats.get(song.id) ?? { playCount: 0, skipCount: 0 }, [songStats]);
+
+  // Volume normalization, from the tags or from the loudness measured while scanning
+  const { getLoudness, progress: loudnessProgress } = useLoudnessAnalysis(songs);
+  const albumAdjustments = useMemo(() => getAlbumAdjustments(songs, song => getLoudness(song)), [songs, getLoudness]);
+  useEffect(() => {
+    const { replayGain } = audioSettings;
+    audioRef.current!.trackGain = track =>
+      getReplayGain(track, replayGain, getLoudness(track), albumAdjustments.get(getSongAlbumId(track)));
+  }, [audioSettings.replayGain, getLoudness, albumAdjustments]);
+
+  // The speed remembered for the playing track or its folder, the global one otherwise.
+  // Changing it while one is remembered updates that one.
+  const rememberedRate = getRememberedRate(playbackRates, currentSong);
+  const effectivePlaybackRate = rememberedRate?.rate ?? playbackRate;
+  const changePlaybackRate = (rate: number) => {
+    if (currentSong && rememberedRate) {
+      setPlaybackRates(rates => rememberRate(rates, currentSong, rememberedRate.scope, rate));
+    } else {
+      setPlaybackRate(rate);
+    }
+  };
+  const changeRateScope = (scope: RateScope | null) => {
+    if (currentSong) setPlaybackRates(rates => rememberRate(rates, currentSong, scope, effectivePlaybackRate));
+  };
+
+  // Smart playlists get their songs from their saved search or rules, so they follow
+  // changes to the library and to play counts
+  const playlists = useMemo(() => storedPlaylists.map(playlist => {
+    if (playlist.rules) {
+      const songIndices = evaluateSmartPlaylist(playlist.rules, songs, getSongStats, playlist.id);
+      return { ...playlist, songIds: songIndices.map(index => songs[index].id) };
+    }
+    if (playlist.query !== undefined) {
+      return { ...playlist, songIds: searchSongs(searchIndex, playlist.query).songIndices.map(index => songs[index].id) };
+    }
+    return playlist;
+  }), [storedPlaylists, searchIndex, songs, getSongStats]);
+  // Playlists songs can be added to by hand
+  const editablePlaylists = useMemo(() => playlists.filter(playlist => !isSmartPlaylist(playlist)), [playlists]);
+  const libraryQueue = useMemo(() => songs.map((_, index) => index), [songs]);
+
+  const shuffleSongs = useCallback((queue: number[], first: number, mode: ShuffleMode = shuffleMode) => {
+    return shuffleQueue(queue, songs, { mode, first, getPlayCount: song => getSongStats(song).playCount });
+  }, [songs, shuffleMode, getSongStats]);
+
+  // Remembers the song being left so playPrev can go back to it
+  const addCurrentToHistory = useCallback(() => {
+    if (currentSong) {
+      const entry: HistoryEntry = queuedSongId !== null ? { songId: currentSong.id, fromUpNext: true } : { songId: currentSong.id };
+      setHistory(prev => [...prev, entry].slice(-MAX_HISTORY_LENGTH));
+    }
+  }, [currentSong, queuedSongId]);
 
   const playSong = useCallback((index: number) => {
+    if (songs[index] !== currentSong) addCurrentToHistory();
+    setQueuedSongId(null);
     const queueIndex = playQueue.findIndex(i => i === index);
     if(queueIndex !== -1) {
         if (currentSongIndex !== queueIndex) setInitialTime(0);
         setCurrentSongIndex(queueIndex);
         setIsPlaying(true);
+    } else if (activePlaylistId || queueName) {
+        // A library song was picked while a playlist or album is playing, go back to the whole library
+        const newQueue = isShuffled ? shuffleSongs(libraryQueue, index) : libraryQueue;
+        setActivePlaylistId(null);
+        setQueueName(null);
+        setOriginalQueue(libraryQueue);
+        setPlayQueue(newQueue);
+        setInitialTime(0);
+        setCurrentSongIndex(newQueue.indexOf(index));
+        setIsPlaying(true);
     } else {
         // If not in queue (e.g., shuffle is on), find it in original and play
         const originalIndex = originalQueue.indexOf(index);
@@ -452,7 +803,86 @@ const App: React.FC = () => {
             setIsPlaying(true);
         }
     }
-  }, [playQueue, originalQueue, currentSongIndex]);
+  }, [songs, currentSong, addCurrentToHistory, playQueue, originalQueue, currentSongIndex, activePlaylistId, queueName, isShuffled, shuffleSongs, libraryQueue]);
+
+  const playPlaylist = (playlistId: string, position: number) => {
+    const playlist = playlists.find(p => p.id === playlistId);
+    if (!playlist) return;
+    const queue = playlist.songIds.map(id => songIndexById.get(id)).filter((index): index is number => index !== undefined);
+    if (queue.length === 0) return;
+    const startIndex = songIndexById.get(playlist.songIds[position]) ?? queue[0];
+    const newQueue = isShuffled ? shuffleSongs(queue, startIndex) : queue;
+    addCurrentToHistory();
+    setQueuedSongId(null);
+    setActivePlaylistId(playlistId);
+    setQueueName(null);
+    setOriginalQueue(queue);
+    setPlayQueue(newQueue);
+    setInitialTime(0);
+    setCurrentSongIndex(Math.max(0, newQueue.indexOf(startIndex)));
+    setIsPlaying(true);
+  };
+
+  // Plays a browsed album, artist, folder etc. as the queue
+  const playSongs = (songIndices: number[], position: number, name: string) => {
+    if (songIndices.length === 0) return;
+    const startIndex = songIndices[position] ?? songIndices[0];
+    const newQueue = isShuffled ? shuffleSongs(songIndices, startIndex) : songIndices;
+    addCurrentToHistory();
+    setQueuedSongId(null);
+    setActivePlaylistId(null);
+    setQueueName(name);
+    setOriginalQueue(songIndices);
+    setPlayQueue(newQueue);
+    setInitialTime(0);
+    setCurrentSongIndex(newQueue.indexOf(startIndex));
+    setIsPlaying(true);
+  };
+
+  const queueSongs = (songIndices: number[]) => {
+    setUpNext(prev => [...prev, ...songIndices.map(index => songs[index].id)]);
+  };
+
+  const handleAddToPlaylist = (playlistId: string, songIndex: number) => {
+    addToPlaylist(playlistId, [songs[songIndex].id]);
+  };
+
+  const handleCreatePlaylistWithSong = (name: string, songIndex: number) => {
+    createPlaylist(name, [songs[songIndex].id]);
+  };
+
+  const handleConfirmDeletePlaylist = () => {
+    if (!playlistToDelete) return;
+    if (selectedPlaylistId === playlistToDelete) setSelectedPlaylistId(null);
+    if (activePlaylistId === playlistToDelete) {
+        // Keep the current song playing, but from the library queue
+        const playingIndex = currentSongIndex !== null ? playQueue[currentSongIndex] : 0;
+        const newQueue = isShuffled ? shuffleSongs(libraryQueue, playingIndex) : libraryQueue;
+        setActivePlaylistId(null);
+        setOriginalQueue(libraryQueue);
+        setPlayQueue(newQueue);
+        setCurrentSongIndex(Math.max(0, newQueue.indexOf(playingIndex)));
+    }
+    deletePlaylist(playlistToDelete);
+    setPlaylistToDelete(null);
+  };
+
+  const selectedPlaylist = playlists.find(p => p.id === selectedPlaylistId) ?? null;
+  const playlistPendingDelete = playlists.find(p => p.id === playlistToDelete);
+  const smartPlaylistBeingEdited = smartPlaylistToEdit !== null ? playlists.find(p => p.id === smartPlaylistToEdit) : undefined;
+
+  const openSmartPlaylistEditor = (playlistId: string | null) => {
+    setSmartPlaylistToEdit(playlistId);
+    setIsSmartPlaylistEditorOpen(true);
+  };
+
+  const handleSaveSmartPlaylist = (name: string, rules: SmartPlaylistRules) => {
+    if (smartPlaylistBeingEdited) {
+      updatePlaylistRules(smartPlaylistBeingEdited.id, name, rules);
+    } else {
+      setSelectedPlaylistId(createSmartPlaylist(name, { rules }).id);
+    }
+  };
 
   const handleSongSelect = (index: number) => {
     playSong(index);
@@ -470,6 +900,15 @@ const App: React.FC = () => {
 
   const playNext = useCallback(() => {
     if (currentSongIndex === null) return;
+    // Queued songs come first
+    if (upNext.length > 0) {
+      addCurrentToHistory();
+      setQueuedSongId(upNext[0]);
+      setUpNext(upNext.slice(1));
+      setInitialTime(0);
+      setIsPlaying(true);
+      return;
+    }
     let nextIndex = (currentSongIndex + 1);
     if (nextIndex >= playQueue.length) {
       if(repeatMode === RepeatMode.ALL) {
@@ -479,32 +918,100 @@ const App: React.FC = () => {
         return;
       }
     }
+    addCurrentToHistory();
+    setQueuedSongId(null);
     setInitialTime(0);
     setCurrentSongIndex(nextIndex);
     setIsPlaying(true);
-  }, [currentSongIndex, playQueue.length, repeatMode]);
+  }, [currentSongIndex, playQueue.length, repeatMode, upNext, addCurrentToHistory]);
 
   const playPrev = useCallback(() => {
     if (currentSongIndex === null) return;
-    const prevIndex = (currentSongIndex - 1 + playQueue.length) % playQueue.length;
     setInitialTime(0);
-    setCurrentSongIndex(prevIndex);
     setIsPlaying(true);
-  }, [currentSongIndex, playQueue.length]);
+    // A queued song that is gone back from stays in the queue, so playNext returns to it
+    if (queuedSongId !== null) {
+      setUpNext(prev => [queuedSongId, ...prev]);
+    }
+    const previous = history[history.length - 1];
+    if (previous === undefined) {
+      // Nothing played before, step back through the queue
+      if (queuedSongId === null) {
+        setCurrentSongIndex((currentSongIndex - 1 + playQueue.length) % playQueue.length);
+      }
+      setQueuedSongId(null);
+      return;
+    }
+    setHistory(history.slice(0, -1));
+    // A song played from Up Next goes back to being the queued song, even if it's also in the
+    // queue. The queue position goes back to where it was while it played, just before the
+    // queue song being left, so that one follows it again.
+    if (previous.fromUpNext) {
+      if (queuedSongId === null) {
+        setCurrentSongIndex((currentSongIndex - 1 + playQueue.length) % playQueue.length);
+      }
+      setQueuedSongId(previous.songId);
+      return;
+    }
+    const songIndex = songIndexById.get(previous.songId);
+    const queueIndex = songIndex !== undefined ? playQueue.indexOf(songIndex) : -1;
+    if (queueIndex !== -1) {
+      setQueuedSongId(null);
+      setCurrentSongIndex(queueIndex);
+    } else {
+      setQueuedSongId(previous.songId);
+    }
+  }, [currentSongIndex, playQueue, queuedSongId, history, songIndexById]);
+
+  const playFromUpNext = (position: number) => {
+    addCurrentToHistory();
+    setQueuedSongId(upNext[position]);
+    // Songs queued before it are skipped
+    setUpNext(upNext.slice(position + 1));
+    setInitialTime(0);
+    setIsPlaying(true);
+  };
+
+  const queueSongNext = (songIndex: number) => {
+    setUpNext(prev => [songs[songIndex].id, ...prev]);
+  };
+
+  const addSongToQueue = (songIndex: number) => {
+    setUpNext(prev => [...prev, songs[songIndex].id]);
+  };
+
+  const removeFromUpNext = (position: number) => {
+    setUpNext(prev => prev.filter((_, i) => i !== position));
+  };
+
+  const moveUpNextItem = (from: number, to: number) => {
+    setUpNext(prev => {
+      const queue = [...prev];
+      const [moved] = queue.splice(from, 1);
+      queue.splice(to, 0, moved);
+      return queue;
+    });
+  };
+
+  // The next few songs of the library or playlist, shown after the queued ones
+  const upcomingSongs = currentSongIndex !== null
+    ? playQueue.slice(currentSongIndex + 1, currentSongIndex + 21).map(index => songs[index]).filter(Boolean)
+    : [];
+  // Where playNext goes when this song ends, so it can be preloaded. With repeat one it loops instead.
+  const nextSong = (() => {
+    if (currentSongIndex === null || repeatMode === RepeatMode.ONE) return null;
+    if (upNext.length > 0) return songs[songIndexById.get(upNext[0]) ?? -1] ?? null;
+    const nextIndex = currentSongIndex + 1 < playQueue.length ? currentSongIndex + 1 : repeatMode === RepeatMode.ALL ? 0 : -1;
+    return songs[playQueue[nextIndex]] ?? null;
+  })();
+  const upcomingSource = queueName || (activePlaylistId && playlists.find(p => p.id === activePlaylistId)?.name) || 'Library';
 
   const toggleShuffle = useCallback(() => {
     setIsShuffled(prev => {
         const nextIsShuffled = !prev;
         if(nextIsShuffled) {
             const currentSongOriginalIndex = currentSongIndex !== null ? playQueue[currentSongIndex] : -1;
-            const shuffled = [...originalQueue].sort(() => Math.random() - 0.5);
-            const newQueue = [...shuffled];
-            if (currentSongOriginalIndex !== -1) {
-                const currentInShuffled = newQueue.indexOf(currentSongOriginalIndex);
-                if (currentInShuffled > 0) {
-                    [newQueue[0], newQueue[currentInShuffled]] = [newQueue[currentInShuffled], newQueue[0]];
-                }
-            }
+            const newQueue = shuffleSongs(originalQueue, currentSongOriginalIndex);
             setPlayQueue(newQueue);
             setCurrentSongIndex(0);
         } else {
@@ -518,10 +1025,22 @@ const App: React.FC = () => {
         }
         return nextIsShuffled;
     });
-  }, [originalQueue, playQueue, currentSongIndex]);
+  }, [originalQueue, playQueue, currentSongIndex, shuffleSongs]);
+
+  const cycleShuffleMode = useCallback(() => {
+    const nextMode: ShuffleMode = (shuffleMode + 1) % 4;
+    setShuffleMode(nextMode);
+    if (isShuffled) {
+        // Reshuffle what is left in the new mode, keeping the current song playing
+        const currentSongOriginalIndex = currentSongIndex !== null ? playQueue[currentSongIndex] : -1;
+        setPlayQueue(shuffleSongs(originalQueue, currentSongOriginalIndex, nextMode));
+        setCurrentSongIndex(0);
+    }
+  }, [shuffleMode, isShuffled, originalQueue, playQueue, currentSongIndex, shuffleSongs]);
 
+  // Segment repeat is turned on from the A-B markers, the button only turns it off
   const cycleRepeatMode = useCallback(() => {
-    setRepeatMode(prev => (prev + 1) % 3);
+    setRepeatMode(prev => (prev === RepeatMode.SEGMENT ? RepeatMode.NONE : (prev + 1) % 3));
   }, []);
   
   return (
@@ -547,12 +1066,47 @@ const App: React.FC = () => {
             message={`Are you sure you want to delete "${songToDelete !== null ? songs[songToDelete]?.name : ''}"? This action is irreversible and will permanently remove the file from your disk.`}
         />
 
+       <SmartPlaylistEditor
+            isOpen={isSmartPlaylistEditorOpen}
+            initialName={smartPlaylistBeingEdited?.name}
+            initialRules={smartPlaylistBeingEdited?.rules}
+            onClose={() => setIsSmartPlaylistEditorOpen(false)}
+            onSave={handleSaveSmartPlaylist}
+            countMatches={(rules) => evaluateSmartPlaylist(rules, songs, getSongStats, '').length}
+        />
+
+       <ConfirmationModal
+            isOpen={playlistToDelete !== null}
+            onClose={() => setPlaylistToDelete(null)}
+            onConfirm={handleConfirmDeletePlaylist}
+            title="Delete Playlist"
+            message={`Are you sure you want to delete the playlist "${playlistPendingDelete?.name ?? ''}"?${playlistPendingDelete?.source ? ' Its playlist file will be removed from your disk.' : ''} The songs themselves stay in your library.`}
+        />
+
       <main className="relative z-10 flex-grow flex flex-col overflow-hidden">
         {isLoading ? (
           <div className="flex-grow flex flex-col items-center justify-center text-center p-8">
             <SpinnerIcon className="w-16 h-16 animate-spin text-purple-400 mb-6" />
             <h2 className="text-2xl font-bold mb-2">Scanning Your Music...</h2>
-            <p className="text-gray-400">Please wait while we're preparing your library.</p>
+            {scanProgress && scanProgress.total > 0 ? (
+              <div className="w-full max-w-md">
+                <p className="text-gray-400">Scanned {scanProgress.scanned} of {scanProgress.total} files</p>
+                <div className="w-full bg-gray-700 h-2 rounded-full mt-3 overflow-hidden">
+                  <div className="bg-purple-500 h-2 transition-all" style={{ width: `${(scanProgress.scanned / scanProgress.total) * 100}%` }}></div>
+                </div>
+                <p className="text-sm text-gray-500 mt-2 truncate" title={scanProgress.currentFolder}>
+                  {scanProgress.currentFolder || 'Top-level folder'}
+                </p>
+              </div>
+            ) : (
+              <p className="text-gray-400">Please wait while we're preparing your library.</p>
+            )}
+            <button
+              onClick={() => scanAbortRef.current?.abort()}
+              className="mt-6 px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         ) : songs.length === 0 ? (
            <div className="flex-grow flex flex-col items-center justify-center text-center p-4 sm:p-8">
@@ -608,41 +1162,130 @@ const App: React.FC = () => {
                   playNext={playNext}
                   playPrev={playPrev}
                   audioRef={audioRef}
+                  nextSong={nextSong}
                   repeatMode={repeatMode}
                   cycleRepeatMode={cycleRepeatMode}
+                  setRepeatMode={setRepeatMode}
                   isShuffled={isShuffled}
                   toggleShuffle={toggleShuffle}
+                  shuffleMode={shuffleMode}
+                  cycleShuffleMode={cycleShuffleMode}
                   initialTime={initialTime}
                   onInitialTimeApplied={() => setInitialTime(0)}
-                  playbackRate={playbackRate}
-                  setPlaybackRate={setPlaybackRate}
+                  playbackRate={effectivePlaybackRate}
+                  onPlaybackRateChange={changePlaybackRate}
+                  rateScope={rememberedRate?.scope ?? null}
+                  onRateScopeChange={changeRateScope}
                   onCollapse={() => setIsPlayerExpanded(false)}
                   onTimeUpdate={handleTimeUpdate}
+                  upNext={upNext.map(id => songs[songIndexById.get(id) ?? -1]).filter(Boolean)}
+                  upcoming={upcomingSongs}
+                  upcomingSource={upcomingSource}
+                  onPlayFromUpNext={playFromUpNext}
+                  onRemoveFromUpNext={removeFromUpNext}
+                  onMoveUpNextItem={moveUpNextItem}
+                  onClearUpNext={() => setUpNext([])}
+                  audioSettings={audioSettings}
+                  onAudioSettingsChange={setAudioSettings}
+                  loudnessProgress={loudnessProgress}
+                  directoryHandle={directoryHandle}
+                  peaks={peaks}
                 />
               )}
             </div>
 
             {/* Main Content Area */}
-            <div className="flex-grow w-full grid md:grid-cols-3 lg:grid-cols-4 gap-6 p-4 overflow-hidden">
+            <div className="flex-grow w-full grid md:grid-cols-4 lg:grid-cols-5 gap-6 p-4 overflow-hidden">
                 <NowPlayingSidebar 
                     currentSong={currentSong} 
                     onExpand={() => setIsPlayerExpanded(true)}
                 />
+
+                <PlaylistSidebar
+                    playlists={playlists}
+                    selectedPlaylistId={selectedPlaylistId}
+                    activePlaylistId={activePlaylistId}
+                    onSelect={setSelectedPlaylistId}
+                    onCreate={(name) => setSelectedPlaylistId(createPlaylist(name).id)}
+                    onCreateSmart={() => openSmartPlaylistEditor(null)}
+                    onRename={renamePlaylist}
+                    onDelete={setPlaylistToDelete}
+                />
                 
                 {/* Playlist */}
                 <div className="md:col-span-2 lg:col-span-3 h-full overflow-hidden">
-                   <SongList
+                  {selectedPlaylist ? (
+                    <PlaylistView
+                      playlist={selectedPlaylist}
                       songs={songs}
-                      playQueue={playQueue}
+                      songIndexById={songIndexById}
                       currentSong={currentSong}
-                      onSongSelect={handleSongSelect}
-                      onSongDelete={handleSongDeleteRequest}
-                      canDelete={!!directoryHandle}
                       isPlaying={isPlaying}
-                      onClose={() => {}} // No-op
-                      searchTerm={searchTerm}
-                      onSearchTermChange={setSearchTerm}
+                      onPlay={(position) => playPlaylist(selectedPlaylist.id, position)}
+                      onRemove={(position) => removeFromPlaylist(selectedPlaylist.id, position)}
+                      onMove={(from, to) => movePlaylistItem(selectedPlaylist.id, from, to)}
+                      onExport={directoryHandle && !selectedPlaylist.source && !isSmartPlaylist(selectedPlaylist) ? (format) => exportPlaylist(selectedPlaylist.id, format) : undefined}
+                      onEditRules={selectedPlaylist.rules ? () => openSmartPlaylistEditor(selectedPlaylist.id) : undefined}
                     />
+                  ) : (
+                   <LibraryBrowser
+                      view={browseView}
+                      onViewChange={setBrowseView}
+                      songs={songs}
+                      currentSong={currentSong}
+                      isPlaying={isPlaying}
+                      onPlay={playSongs}
+                      onQueue={queueSongs}
+                      history={
+                        <HistoryView
+                          songs={songs}
+                          songIndexById={songIndexById}
+                          plays={plays}
+                          songStats={songStats}
+                          currentSong={currentSong}
+                          isPlaying={isPlaying}
+                          onSongSelect={handleSongSelect}
+                          onPlay={playSongs}
+                          onQueue={queueSongs}
+                          onClear={clearHistory}
+                        />
+                      }
+                      stats={
+                        <StatsView
+                          plays={plays}
+                          onSongSelect={(songId) => {
+                            const songIndex = songIndexById.get(songId);
+                            if (songIndex !== undefined) handleSongSelect(songIndex);
+                          }}
+                        />
+                      }
+                    >
+                     <SongList
+                        songs={songs}
+                        playQueue={activePlaylistId || queueName ? libraryQueue : playQueue}
+                        currentSong={currentSong}
+                        onSongSelect={handleSongSelect}
+                        onSongDelete={handleSongDeleteRequest}
+                        canDelete={!!directoryHandle}
+                        isPlaying={isPlaying}
+                        onClose={() => {}} // No-op
+                        searchTerm={searchTerm}
+                        onSearchTermChange={setSearchTerm}
+                        searchIndex={searchIndex}
+                        onSaveSearch={(name) => setSelectedPlaylistId(createSmartPlaylist(name, { query: searchTerm }).id)}
+                        onRescan={directoryHandle ? handleRescan : undefined}
+                        onCancelRescan={() => rescanAbortRef.current?.abort()}
+                        isRescanning={isRescanning}
+                        rescanSummary={rescanSummary}
+                        playlists={editablePlaylists}
+                        onAddToPlaylist={handleAddToPlaylist}
+                        onCreatePlaylist={handleCreatePlaylistWithSong}
+                        onPlayNext={queueSongNext}
+                        onAddToQueue={addSongToQueue}
+                        songStats={songStats}
+                      />
+                    </LibraryBrowser>
+                  )}
                 </div>
             </div>
             
@@ -656,6 +1299,8 @@ const App: React.FC = () => {
                   onExpand={() => setIsPlayerExpanded(true)}
                   currentTime={currentTime}
                   duration={duration}
+                  onSeek={handleMiniPlayerSeek}
+                  peaks={peaks}
               />
             )}
           </>
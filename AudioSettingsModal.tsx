@@ -0,0 +1,167 @@
+import React from 'react';
+import { CrossfadeCurve, ReplayGainMode } from '../types';
+import { AudioSettings, MAX_CROSSFADE_DURATION, MAX_PREAMP } from '../audioSettings';
+import { MAX_RESUME_MIN_DURATION } from '../bookmarks';
+import { LoudnessProgress } from '../useLoudnessAnalysis';
+
+interface AudioSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  // Set while songs without ReplayGain tags are being measured
+  loudnessProgress: LoudnessProgress | null;
+}
+
+const CURVES: { curve: CrossfadeCurve; label: string }[] = [
+  { curve: 'equalPower', label: 'Equal power' },
+  { curve: 'linear', label: 'Linear' },
+];
+
+const REPLAY_GAIN_MODES: { mode: ReplayGainMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'track', label: 'Track' },
+  { mode: 'album', label: 'Album' },
+];
+
+const optionClassName = (isActive: boolean) =>
+  `flex-1 p-2 rounded-md text-sm transition-colors disabled:opacity-50 ${isActive ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`;
+
+const AudioSettingsModal: React.FC<AudioSettingsModalProps> = ({ isOpen, onClose, settings, onChange, loudnessProgress }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  const { crossfade, replayGain, resume } = settings;
+  const updateCrossfade = (update: Partial<AudioSettings['crossfade']>) => {
+    onChange({ ...settings, crossfade: { ...crossfade, ...update } });
+  };
+  const updateReplayGain = (update: Partial<AudioSettings['replayGain']>) => {
+    onChange({ ...settings, replayGain: { ...replayGain, ...update } });
+  };
+  const updateResume = (update: Partial<AudioSettings['resume']>) => {
+    onChange({ ...settings, resume: { ...resume, ...update } });
+  };
+  const isNormalizing = replayGain.mode !== 'off';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-sm text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-center">Audio Settings</h2>
+
+        <section className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">Crossfade</h3>
+            <span className="text-sm text-gray-400">{crossfade.duration > 0 ? `${crossfade.duration} s` : 'Off'}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={MAX_CROSSFADE_DURATION}
+            step="0.5"
+            value={crossfade.duration}
+            onChange={(e) => updateCrossfade({ duration: Number(e.target.value) })}
+            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            aria-label="Crossfade duration"
+          />
+          <div className="flex gap-2 mt-3">
+            {CURVES.map(({ curve, label }) => (
+              <button
+                key={curve}
+                onClick={() => updateCrossfade({ curve })}
+                disabled={crossfade.duration === 0}
+                className={optionClassName(crossfade.curve === curve)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Songs from the same album play back to back without a crossfade.</p>
+        </section>
+
+        <section className="mb-6">
+          <h3 className="font-semibold mb-2">Volume normalization</h3>
+          <div className="flex gap-2">
+            {REPLAY_GAIN_MODES.map(({ mode, label }) => (
+              <button key={mode} onClick={() => updateReplayGain({ mode })} className={optionClassName(replayGain.mode === mode)}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between mt-4 mb-2">
+            <span className="text-sm">Preamp</span>
+            <span className="text-sm text-gray-400">{replayGain.preamp > 0 ? '+' : ''}{replayGain.preamp} dB</span>
+          </div>
+          <input
+            type="range"
+            min={-MAX_PREAMP}
+            max={MAX_PREAMP}
+            step="0.5"
+            value={replayGain.preamp}
+            onChange={(e) => updateReplayGain({ preamp: Number(e.target.value) })}
+            disabled={!isNormalizing}
+            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+            aria-label="Preamp"
+          />
+          <label className={`flex items-center gap-2 mt-3 text-sm ${isNormalizing ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={replayGain.preventClipping}
+              onChange={(e) => updateReplayGain({ preventClipping: e.target.checked })}
+              disabled={!isNormalizing}
+              className="accent-purple-600"
+            />
+            Prevent clipping
+          </label>
+          <p className="text-xs text-gray-500 mt-2">
+            Uses the songs' ReplayGain tags. Songs without them are measured when they are scanned.
+            {loudnessProgress && ` Measuring ${loudnessProgress.analyzed + 1} of ${loudnessProgress.total}...`}
+          </p>
+        </section>
+
+        <section className="mb-6">
+          <label className="flex items-center justify-between gap-2 cursor-pointer mb-2">
+            <h3 className="font-semibold">Resume long tracks</h3>
+            <input
+              type="checkbox"
+              checked={resume.enabled}
+              onChange={(e) => updateResume({ enabled: e.target.checked })}
+              className="accent-purple-600"
+            />
+          </label>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm">Tracks longer than</span>
+            <span className="text-sm text-gray-400">{resume.minDuration} min</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={MAX_RESUME_MIN_DURATION}
+            step="5"
+            value={resume.minDuration}
+            onChange={(e) => updateResume({ minDuration: Number(e.target.value) })}
+            disabled={!resume.enabled}
+            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+            aria-label="Minimum track length"
+          />
+          <p className="text-xs text-gray-500 mt-2">Audiobooks, podcasts and mixes pick up where you left off, until they're finished.</p>
+        </section>
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsModal;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Bookmark } from '../types';
+import { Chapter } from '../metadata/index';
+import { getChapterIndex } from '../bookmarks';
+import { CloseIcon } from './Icons';
+
+interface BookmarksPanelProps {
+  chapters: Chapter[];
+  bookmarks: Bookmark[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onAdd: (note: string) => void;
+  onUpdateNote: (id: string, note: string) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+// Hours are shown for audiobooks, which often run longer than one
+const formatPosition = (time: number) => {
+  const hours = Math.floor(time / 3600);
+  const minutes = Math.floor((time % 3600) / 60);
+  const seconds = Math.floor(time % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const BookmarksPanel: React.FC<BookmarksPanelProps> = ({ chapters, bookmarks, currentTime, onSeek, onAdd, onUpdateNote, onRemove, onClose }) => {
+  const [note, setNote] = useState('');
+  // The bookmark whose note is being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingNote, setEditingNote] = useState('');
+
+  const currentChapter = getChapterIndex(chapters, currentTime);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAdd(note.trim());
+    setNote('');
+  };
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setEditingNote(bookmark.note);
+  };
+
+  const finishEditing = () => {
+    if (editingId !== null) onUpdateNote(editingId, editingNote.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-full md:w-96 bg-gray-900/95 backdrop-blur-sm z-20 flex flex-col p-4 shadow-2xl" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Bookmarks</h2>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full" aria-label="Close bookmarks">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto space-y-6">
+        <section>
+          <form onSubmit={handleAdd} className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={`Note for ${formatPosition(currentTime)} (optional)`}
+              className="flex-grow bg-gray-700 text-white rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <button type="submit" className="px-3 py-1.5 bg-purple-600 rounded-md hover:bg-purple-700 transition-colors text-sm">
+              Add
+            </button>
+          </form>
+          {bookmarks.length === 0 ? (
+            <p className="text-sm text-gray-500">Bookmark a spot to come back to it later.</p>
+          ) : (
+            <ul className="space-y-1">
+              {bookmarks.map(bookmark => (
+                <li key={bookmark.id} className="flex items-start p-2 rounded-lg group hover:bg-gray-700/50 text-gray-300">
+                  <button
+                    onClick={() => onSeek(bookmark.position)}
+                    className="font-mono text-sm text-purple-400 hover:text-purple-300 mr-3 mt-0.5 flex-shrink-0"
+                    aria-label={`Go to ${formatPosition(bookmark.position)}`}
+                  >
+                    {formatPosition(bookmark.position)}
+                  </button>
+                  {editingId === bookmark.id ? (
+                    <input
+                      type="text"
+                      value={editingNote}
+                      onChange={(e) => setEditingNote(e.target.value)}
+                      onBlur={finishEditing}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishEditing();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      autoFocus
+                      className="flex-grow bg-gray-700 text-white rounded-md px-2 py-0.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => startEditing(bookmark)}
+                      className={`flex-grow text-left text-sm break-words ${bookmark.note ? '' : 'text-gray-500 italic'}`}
+                      title="Edit note"
+                    >
+                      {bookmark.note || 'Add a note'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemove(bookmark.id)}
+                    className="ml-2 p-1 text-gray-400 hover:text-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={`Remove the bookmark at ${formatPosition(bookmark.position)}`}
+                  >
+                    <CloseIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+        {chapters.length > 0 && (
+          <section>
+            <h3 className="text-sm font-bold uppercase text-gray-400 mb-2">Chapters</h3>
+            <ul className="space-y-1">
+              {chapters.map((chapter, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => onSeek(chapter.start)}
+                    className={`w-full flex items-center p-2 rounded-lg text-left transition-colors hover:bg-gray-700/50 ${
+                      i === currentChapter ? 'bg-purple-600/30 text-white' : 'text-gray-300'
+                    }`}
+                  >
+                    <span className="flex-grow truncate">{chapter.title}</span>
+                    <span className="font-mono text-xs text-gray-400 ml-3">{formatPosition(chapter.start)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookmarksPanel;
@@ -0,0 +1,161 @@
+import React from 'react';
+import { EffectsSettings, ReverbImpulse } from '../types';
+import { EFFECT_ORDER, EffectId, MAX_BASS_BOOST, MAX_WIDTH, MAX_MAKEUP_GAIN, REVERB_IMPULSES } from '../effects';
+
+interface EffectsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: EffectsSettings;
+  onChange: (settings: EffectsSettings) => void;
+}
+
+const EFFECT_INFO: Record<EffectId, { title: string; description: string }> = {
+  bassBoost: { title: 'Bass boost', description: 'Lifts everything below about 100 Hz.' },
+  reverb: { title: 'Reverb', description: 'Places the music in a room, hall or plate.' },
+  width: { title: 'Stereo width', description: 'Narrows or widens the stereo image.' },
+  mono: { title: 'Mono', description: 'Mixes both channels together, for listening with one earbud.' },
+  balance: { title: 'Balance', description: 'Shifts the sound to the left or right.' },
+  compressor: { title: 'Night mode', description: 'Evens out loud and quiet parts so you can keep the volume low.' },
+};
+
+const sliderClassName = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-default';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, disabled, onChange }) => (
+  <label className="block text-sm mt-2">
+    <span className="flex justify-between text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className={sliderClassName}
+    />
+  </label>
+);
+
+const formatDecibels = (value: number) => `${value > 0 ? '+' : ''}${value} dB`;
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const formatBalance = (pan: number) => (pan === 0 ? 'Center' : `${Math.round(Math.abs(pan) * 100)}% ${pan < 0 ? 'left' : 'right'}`);
+
+const EffectsModal: React.FC<EffectsModalProps> = ({ isOpen, onClose, settings, onChange }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  const update = <K extends EffectId>(id: K, changes: Partial<EffectsSettings[K]>) => {
+    onChange({ ...settings, [id]: { ...settings[id], ...changes } });
+  };
+
+  const renderControls = (id: EffectId) => {
+    const disabled = !settings[id].enabled;
+    switch (id) {
+      case 'bassBoost':
+        return (
+          <Slider label="Boost" value={settings.bassBoost.gain} min={0} max={MAX_BASS_BOOST} step={0.5} format={formatDecibels} disabled={disabled}
+            onChange={(gain) => update('bassBoost', { gain })} />
+        );
+      case 'reverb':
+        return (
+          <>
+            <div className="flex gap-2 mt-2">
+              {(Object.keys(REVERB_IMPULSES) as ReverbImpulse[]).map(impulse => (
+                <button
+                  key={impulse}
+                  onClick={() => update('reverb', { impulse })}
+                  disabled={disabled}
+                  className={`flex-1 p-1.5 rounded-md text-sm transition-colors disabled:opacity-50 ${
+                    settings.reverb.impulse === impulse ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {REVERB_IMPULSES[impulse].label}
+                </button>
+              ))}
+            </div>
+            <Slider label="Mix" value={settings.reverb.mix} min={0} max={1} step={0.05} format={formatPercent} disabled={disabled}
+              onChange={(mix) => update('reverb', { mix })} />
+          </>
+        );
+      case 'width':
+        return (
+          <Slider label="Width" value={settings.width.amount} min={0} max={MAX_WIDTH} step={0.05} format={formatPercent} disabled={disabled}
+            onChange={(amount) => update('width', { amount })} />
+        );
+      case 'balance':
+        return (
+          <Slider label="Balance" value={settings.balance.pan} min={-1} max={1} step={0.05} format={formatBalance} disabled={disabled}
+            onChange={(pan) => update('balance', { pan })} />
+        );
+      case 'compressor':
+        return (
+          <>
+            <Slider label="Threshold" value={settings.compressor.threshold} min={-60} max={0} step={1} format={formatDecibels} disabled={disabled}
+              onChange={(threshold) => update('compressor', { threshold })} />
+            <Slider label="Ratio" value={settings.compressor.ratio} min={1} max={20} step={0.5} format={(ratio) => `${ratio}:1`} disabled={disabled}
+              onChange={(ratio) => update('compressor', { ratio })} />
+            <Slider label="Makeup gain" value={settings.compressor.makeup} min={0} max={MAX_MAKEUP_GAIN} step={0.5} format={formatDecibels} disabled={disabled}
+              onChange={(makeup) => update('compressor', { makeup })} />
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-center">Effects</h2>
+        <div className="space-y-3 mb-6">
+          {EFFECT_ORDER.map(id => (
+            <section key={id} className="bg-gray-900/40 rounded-md p-3">
+              <label className="flex items-center justify-between gap-3 cursor-pointer">
+                <span>
+                  <span className="font-semibold block">{EFFECT_INFO[id].title}</span>
+                  <span className="text-xs text-gray-500">{EFFECT_INFO[id].description}</span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={settings[id].enabled}
+                  onChange={(e) => update(id, { enabled: e.target.checked })}
+                  className="accent-purple-600 flex-shrink-0"
+                />
+              </label>
+              {renderControls(id)}
+            </section>
+          ))}
+        </div>
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EffectsModal;
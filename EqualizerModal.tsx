@@ -0,0 +1,368 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Song, EqualizerCurve, EqualizerSettings, ParametricBand, ParametricFilterType } from '../types';
+import {
+  GRAPHIC_FREQUENCIES, MAX_EQ_GAIN, MIN_FREQUENCY, MAX_FREQUENCY, MIN_Q, MAX_Q, MAX_PARAMETRIC_BANDS, PARAMETRIC_FILTER_TYPES,
+  hasGain, createBand, getPresets, findPreset, getAutoPreset, getGenreKey, removePreset, getLogFrequencies, getCurveResponse,
+} from '../equalizer';
+import { getSongAlbumId } from '../replayGain';
+import { PlusIcon, CloseIcon, TrashIcon } from './Icons';
+
+interface EqualizerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: EqualizerSettings;
+  onChange: (settings: EqualizerSettings) => void;
+  // The playing song, whose album or genre presets can be picked for
+  song: Song;
+}
+
+// The response curve spans this many dB either way
+const RESPONSE_RANGE = 15;
+const RESPONSE_POINTS = 200;
+const RESPONSE_GRID_FREQUENCIES = [100, 1000, 10000];
+
+// Frequency sliders move on a log scale, in this many steps from the lowest to the highest
+const FREQUENCY_STEPS = 1000;
+
+const sliderClassName = 'block w-full h-1.5 mt-1 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-default';
+const inputClassName = 'bg-gray-700 rounded-md border border-gray-600 px-2 py-1 text-sm min-w-0 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50';
+
+const formatFrequency = (frequency: number) => (frequency >= 1000 ? `${frequency / 1000}k` : String(frequency));
+
+const toFrequencyPosition = (frequency: number) =>
+  Math.round((Math.log(frequency / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) * FREQUENCY_STEPS);
+
+// Rounded to fewer digits the higher it goes
+const fromFrequencyPosition = (position: number) => {
+  const frequency = MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, position / FREQUENCY_STEPS);
+  const step = frequency >= 1000 ? 100 : frequency >= 100 ? 10 : 1;
+  return Math.round(frequency / step) * step;
+};
+
+const formatFrequencyValue = (frequency: number) => (frequency >= 1000 ? `${(frequency / 1000).toFixed(1)}k` : String(frequency));
+
+const copyCurve = (curve: EqualizerCurve): EqualizerCurve => ({ gains: [...curve.gains], bands: curve.bands.map(band => ({ ...band })) });
+
+function drawResponse(canvas: HTMLCanvasElement, curve: EqualizerCurve, isEnabled: boolean) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const scale = window.devicePixelRatio || 1;
+  canvas.width = canvas.clientWidth * scale;
+  canvas.height = canvas.clientHeight * scale;
+  const { width, height } = canvas;
+  const toX = (frequency: number) => (Math.log(frequency / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) * width;
+  const toY = (gain: number) => height / 2 - (gain / RESPONSE_RANGE) * (height / 2);
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.lineWidth = scale;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.font = `${10 * scale}px sans-serif`;
+  for (const gain of [-12, -6, 0, 6, 12]) {
+    ctx.beginPath();
+    ctx.moveTo(0, toY(gain));
+    ctx.lineTo(width, toY(gain));
+    ctx.stroke();
+  }
+  for (const frequency of RESPONSE_GRID_FREQUENCIES) {
+    const x = toX(frequency);
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+    ctx.fillText(formatFrequency(frequency), x + 3 * scale, height - 3 * scale);
+  }
+
+  const frequencies = getLogFrequencies(RESPONSE_POINTS);
+  const response = getCurveResponse(curve, frequencies);
+  ctx.beginPath();
+  frequencies.forEach((frequency, i) => {
+    const y = toY(Math.max(-RESPONSE_RANGE, Math.min(RESPONSE_RANGE, response[i])));
+    if (i === 0) ctx.moveTo(toX(frequency), y);
+    else ctx.lineTo(toX(frequency), y);
+  });
+  ctx.lineWidth = 2 * scale;
+  ctx.strokeStyle = isEnabled ? 'rgb(168, 85, 247)' : 'rgb(107, 114, 128)';
+  ctx.stroke();
+}
+
+const EqualizerModal: React.FC<EqualizerModalProps> = ({ isOpen, onClose, settings, onChange, song }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [presetName, setPresetName] = useState('');
+  const [isSavingPreset, setIsSavingPreset] = useState(false);
+
+  const autoPreset = getAutoPreset(settings, song);
+  // Shown and drawn is what's playing, an automatic preset can't be edited from here
+  const curve = autoPreset?.preset ?? settings.curve;
+  const isEditable = !autoPreset;
+
+  useEffect(() => {
+    if (isOpen && canvasRef.current) drawResponse(canvasRef.current, curve, settings.enabled);
+  }, [isOpen, curve, settings.enabled]);
+
+  useEffect(() => {
+    if (!isOpen) setIsSavingPreset(false);
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const selectedPreset = findPreset(settings, settings.presetId ?? undefined);
+  const albumId = getSongAlbumId(song);
+  const genreKey = song.genre ? getGenreKey(song.genre) : null;
+
+  const updateCurve = (update: Partial<EqualizerCurve>) => {
+    onChange({ ...settings, curve: { ...settings.curve, ...update }, presetId: null });
+  };
+  const updateGain = (index: number, gain: number) => {
+    updateCurve({ gains: settings.curve.gains.map((value, i) => (i === index ? gain : value)) });
+  };
+  const updateBand = (id: string, update: Partial<ParametricBand>) => {
+    updateCurve({ bands: settings.curve.bands.map(band => (band.id === id ? { ...band, ...update } : band)) });
+  };
+
+  const selectPreset = (id: string) => {
+    const preset = findPreset(settings, id);
+    if (preset) onChange({ ...settings, curve: copyCurve(preset), presetId: id });
+  };
+
+  const savePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+    const preset = { id: crypto.randomUUID(), name, ...copyCurve(settings.curve) };
+    onChange({ ...settings, userPresets: [...settings.userPresets, preset], presetId: preset.id });
+    setPresetName('');
+    setIsSavingPreset(false);
+  };
+
+  const assignPreset = (kind: 'album' | 'genre', presetId: string | null) => {
+    const key = kind === 'album' ? albumId : genreKey;
+    if (!key) return;
+    const field = kind === 'album' ? 'albumPresets' : 'genrePresets';
+    const assignments = { ...settings[field] };
+    if (presetId) {
+      assignments[key] = presetId;
+    } else {
+      delete assignments[key];
+    }
+    onChange({ ...settings, [field]: assignments });
+  };
+
+  const isUserPreset = settings.userPresets.some(preset => preset.id === settings.presetId);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Equalizer</h2>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+              className="accent-purple-600"
+            />
+            On
+          </label>
+        </div>
+
+        {autoPreset && (
+          <div className="flex items-center justify-between gap-3 bg-purple-900/40 rounded-md px-3 py-2 mb-4 text-sm">
+            <span>The {autoPreset.preset.name} preset is picked for this {autoPreset.source}.</span>
+            <button onClick={() => assignPreset(autoPreset.source, null)} className="text-purple-300 hover:text-white flex-shrink-0">
+              Stop using it
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select
+            value={settings.presetId ?? ''}
+            onChange={(e) => selectPreset(e.target.value)}
+            disabled={!isEditable}
+            className={inputClassName}
+            aria-label="Preset"
+          >
+            {settings.presetId === null && <option value="">Custom</option>}
+            {getPresets(settings).map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </select>
+          {isSavingPreset ? (
+            <form onSubmit={savePreset} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name"
+                className={inputClassName}
+                autoFocus
+              />
+              <button type="submit" disabled={!presetName.trim()} className="px-3 py-1 text-sm bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50">
+                Save
+              </button>
+              <button type="button" onClick={() => setIsSavingPreset(false)} className="p-1 text-gray-400 hover:text-white" aria-label="Cancel">
+                <CloseIcon className="w-5 h-5" />
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={() => setIsSavingPreset(true)}
+              disabled={!isEditable}
+              className="px-3 py-1 text-sm bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+            >
+              Save as preset
+            </button>
+          )}
+          {isUserPreset && isEditable && (
+            <button
+              onClick={() => onChange(removePreset(settings, settings.presetId!))}
+              className="p-1 text-gray-400 hover:text-red-500"
+              aria-label="Delete preset"
+              title="Delete preset"
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        <canvas ref={canvasRef} className="w-full h-32 bg-gray-900/60 rounded-md mb-4" />
+
+        <div className={`flex justify-between gap-1 mb-6 ${isEditable ? '' : 'opacity-50'}`}>
+          {GRAPHIC_FREQUENCIES.map((frequency, i) => (
+            <div key={frequency} className="flex flex-col items-center flex-1 min-w-0">
+              <span className="text-xs text-gray-400 mb-1">{curve.gains[i] > 0 ? '+' : ''}{curve.gains[i]}</span>
+              <input
+                type="range"
+                min={-MAX_EQ_GAIN}
+                max={MAX_EQ_GAIN}
+                step="0.5"
+                value={curve.gains[i]}
+                onChange={(e) => updateGain(i, Number(e.target.value))}
+                onDoubleClick={() => updateGain(i, 0)}
+                disabled={!isEditable}
+                className="h-28 w-4 accent-purple-600 cursor-pointer"
+                style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                aria-label={`${formatFrequency(frequency)}Hz`}
+              />
+              <span className="text-xs text-gray-500 mt-1">{formatFrequency(frequency)}</span>
+            </div>
+          ))}
+        </div>
+
+        <section className={`mb-6 ${isEditable ? '' : 'opacity-50'}`}>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">Parametric bands</h3>
+            <button
+              onClick={() => updateCurve({ bands: [...settings.curve.bands, createBand()] })}
+              disabled={!isEditable || settings.curve.bands.length >= MAX_PARAMETRIC_BANDS}
+              className="flex items-center gap-1 text-sm text-purple-400 hover:text-purple-300 disabled:opacity-50"
+            >
+              <PlusIcon className="w-4 h-4" /> Add band
+            </button>
+          </div>
+          {curve.bands.length === 0 ? (
+            <p className="text-sm text-gray-500">Add bands to cut or boost exactly where you need to.</p>
+          ) : (
+            <div className="space-y-2">
+              {curve.bands.map(band => (
+                <div key={band.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] items-center gap-2">
+                  <select
+                    value={band.type}
+                    onChange={(e) => updateBand(band.id, { type: e.target.value as ParametricFilterType })}
+                    disabled={!isEditable}
+                    className={inputClassName}
+                    aria-label="Filter type"
+                  >
+                    {PARAMETRIC_FILTER_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+                  </select>
+                  <label className="text-xs text-gray-400">
+                    {formatFrequencyValue(band.frequency)}Hz
+                    <input
+                      type="range"
+                      min="0"
+                      max={FREQUENCY_STEPS}
+                      value={toFrequencyPosition(band.frequency)}
+                      onChange={(e) => updateBand(band.id, { frequency: fromFrequencyPosition(Number(e.target.value)) })}
+                      disabled={!isEditable}
+                      className={sliderClassName}
+                    />
+                  </label>
+                  <label className={`text-xs text-gray-400 ${hasGain(band.type) ? '' : 'opacity-50'}`}>
+                    {band.gain > 0 ? '+' : ''}{band.gain} dB
+                    <input
+                      type="range"
+                      min={-MAX_EQ_GAIN}
+                      max={MAX_EQ_GAIN}
+                      step="0.5"
+                      value={band.gain}
+                      onChange={(e) => updateBand(band.id, { gain: Number(e.target.value) })}
+                      disabled={!isEditable || !hasGain(band.type)}
+                      className={sliderClassName}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Q {band.q}
+                    <input
+                      type="range"
+                      min={MIN_Q}
+                      max={MAX_Q}
+                      step="0.1"
+                      value={band.q}
+                      onChange={(e) => updateBand(band.id, { q: Number(e.target.value) })}
+                      disabled={!isEditable}
+                      className={sliderClassName}
+                    />
+                  </label>
+                  <button
+                    onClick={() => updateCurve({ bands: settings.curve.bands.filter(({ id }) => id !== band.id) })}
+                    disabled={!isEditable}
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    aria-label="Remove band"
+                  >
+                    <CloseIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="mb-6">
+          <h3 className="font-semibold mb-2">Automatic presets</h3>
+          {selectedPreset && isEditable ? (
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => assignPreset('album', selectedPreset.id)} className="px-3 py-1 text-sm bg-gray-700 rounded-md hover:bg-gray-600">
+                Use {selectedPreset.name} for {song.album}
+              </button>
+              {song.genre && (
+                <button onClick={() => assignPreset('genre', selectedPreset.id)} className="px-3 py-1 text-sm bg-gray-700 rounded-md hover:bg-gray-600">
+                  Use {selectedPreset.name} for all {song.genre}
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {isEditable ? 'Pick or save a preset to have it used for this album or genre.' : 'Songs from other albums and genres go back to your own settings.'}
+            </p>
+          )}
+        </section>
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EqualizerModal;
@@ -0,0 +1,161 @@
+import React, { useState, useMemo } from 'react';
+import { Song, PlayRecord, SongStats } from '../types';
+import { getMostPlayed, getRecentlyPlayed, formatRelativeTime } from '../playHistory';
+import { MusicNoteIcon, TrashIcon } from './Icons';
+import TrackList from './TrackList';
+import ConfirmationModal from './ConfirmationModal';
+
+type HistorySection = 'plays' | 'mostPlayed' | 'recentlyPlayed';
+
+const SECTIONS: { section: HistorySection; label: string }[] = [
+  { section: 'plays', label: 'Listening history' },
+  { section: 'mostPlayed', label: 'Most played' },
+  { section: 'recentlyPlayed', label: 'Recently played' },
+];
+
+// How many songs the Most played and Recently played lists hold
+const LIST_LENGTH = 100;
+// Plays shown in the history, newest first
+const MAX_PLAYS_SHOWN = 500;
+
+interface HistoryViewProps {
+  songs: Song[];
+  songIndexById: Map<string, number>;
+  plays: PlayRecord[];
+  songStats: Map<string, SongStats>;
+  currentSong: Song | null;
+  isPlaying: boolean;
+  onSongSelect: (songIndex: number) => void;
+  onPlay: (songIndices: number[], position: number, name: string) => void;
+  onQueue: (songIndices: number[]) => void;
+  onClear: () => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ songs, songIndexById, plays, songStats, currentSong, isPlaying, onSongSelect, onPlay, onQueue, onClear }) => {
+  const [section, setSection] = useState<HistorySection>('plays');
+  const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
+
+  const formatTime = (time: number) => {
+    if (isNaN(time)) return '0:00';
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  // Songs no longer in the library can't be played, so they are left out of the lists
+  const toSongIndices = (songIds: string[]) =>
+    songIds.map(id => songIndexById.get(id)).filter((index): index is number => index !== undefined);
+
+  const mostPlayed = useMemo(() => toSongIndices(getMostPlayed(songStats, LIST_LENGTH)), [songStats, songIndexById]);
+  const recentlyPlayed = useMemo(() => toSongIndices(getRecentlyPlayed(songStats, LIST_LENGTH)), [songStats, songIndexById]);
+  const recentPlays = useMemo(() => plays.slice(-MAX_PLAYS_SHOWN).reverse(), [plays]);
+
+  const renderContent = () => {
+    if (plays.length === 0) {
+      return (
+        <div className="flex flex-col items-center justify-center flex-grow text-gray-500">
+          <MusicNoteIcon className="w-12 h-12 mb-4" />
+          <p>Songs you listen to will show up here.</p>
+        </div>
+      );
+    }
+
+    if (section === 'mostPlayed' || section === 'recentlyPlayed') {
+      const songIndices = section === 'mostPlayed' ? mostPlayed : recentlyPlayed;
+      const title = section === 'mostPlayed' ? 'Most Played' : 'Recently Played';
+      return (
+        <TrackList
+          title={title}
+          songs={songs}
+          songIndices={songIndices}
+          currentSong={currentSong}
+          isPlaying={isPlaying}
+          getDetail={(song) => {
+            const stats = songStats.get(song.id);
+            if (section === 'recentlyPlayed') return stats?.lastPlayed ? formatRelativeTime(stats.lastPlayed) : '';
+            return `${stats?.playCount ?? 0} ${stats?.playCount === 1 ? 'play' : 'plays'}`;
+          }}
+          onPlay={(position) => onPlay(songIndices, position, title)}
+          onQueue={() => onQueue(songIndices)}
+        />
+      );
+    }
+
+    return (
+      <ul className="space-y-2 flex-grow overflow-y-auto pb-24">
+        {recentPlays.map((play, position) => {
+          const songIndex = songIndexById.get(play.songId);
+          const song = songIndex !== undefined ? songs[songIndex] : undefined;
+          const outcome = play.completed ? 'Played' : play.skipped ? 'Skipped' : 'Stopped';
+          return (
+            <li
+              key={play.id ?? `pending-${position}`}
+              onClick={() => songIndex !== undefined && onSongSelect(songIndex)}
+              className={`flex items-center p-3 rounded-lg transition-all duration-200 hover:bg-gray-700/50 text-gray-300 ${
+                song ? 'cursor-pointer' : 'cursor-default opacity-50'
+              }`}
+            >
+              <div className="w-10 h-10 bg-gray-700 rounded-md flex items-center justify-center mr-4 flex-shrink-0">
+                {song?.coverArt ? (
+                  <img src={song.coverArt} alt={play.album} className="w-full h-full object-cover rounded-md" />
+                ) : (
+                  <MusicNoteIcon className="w-5 h-5 text-gray-400" />
+                )}
+              </div>
+              <div className="flex-grow overflow-hidden">
+                <p className="font-semibold truncate">{play.name}</p>
+                <p className="text-sm text-gray-400 truncate">{play.artist} · {formatRelativeTime(play.startedAt)}</p>
+              </div>
+              <div className="ml-4 flex-shrink-0 text-right text-sm">
+                <p className={play.skipped ? 'text-yellow-400/80' : 'text-gray-400'}>{outcome}</p>
+                <p className="text-gray-500">{formatTime(play.listened)} of {formatTime(play.duration)}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <ConfirmationModal
+        isOpen={isClearConfirmOpen}
+        onClose={() => setIsClearConfirmOpen(false)}
+        onConfirm={() => { onClear(); setIsClearConfirmOpen(false); }}
+        title="Clear History"
+        message="Are you sure you want to delete your listening history? Play counts, skip counts and listening statistics will start over."
+      />
+      <div className="flex items-center justify-between mb-4 flex-shrink-0">
+        <div className="flex gap-4">
+          {SECTIONS.map(item => (
+            <button
+              key={item.section}
+              onClick={() => setSection(item.section)}
+              className={`text-sm font-semibold pb-1 border-b-2 transition-colors ${
+                section === item.section ? 'border-purple-500 text-white' : 'border-transparent text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        {plays.length > 0 && (
+          <button
+            onClick={() => setIsClearConfirmOpen(true)}
+            className="p-1 text-gray-400 hover:text-red-500 rounded-full"
+            aria-label="Clear listening history"
+            title="Clear history"
+          >
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+      <div className="flex-grow overflow-hidden flex flex-col">
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
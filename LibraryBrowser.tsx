@@ -0,0 +1,195 @@
+import React, { useState, useMemo } from 'react';
+import { Song } from '../types';
+import { BrowseView, BrowseGroup, groupByArtist, groupByAlbum, groupByGenre, groupByYear, buildFolderTree, findFolder, getFolderSongs } from '../browse';
+import { MusicNoteIcon, FolderIcon, ChevronLeftIcon } from './Icons';
+import TrackList from './TrackList';
+
+interface LibraryBrowserProps {
+  view: BrowseView;
+  onViewChange: (view: BrowseView) => void;
+  songs: Song[];
+  currentSong: Song | null;
+  isPlaying: boolean;
+  // Plays the songs as a queue named after what was browsed, starting at the given position
+  onPlay: (songIndices: number[], position: number, name: string) => void;
+  onQueue: (songIndices: number[]) => void;
+  // The flat song list, shown in the Songs tab
+  children: React.ReactNode;
+  // Shown in the History tab
+  history: React.ReactNode;
+  // Shown in the Stats tab
+  stats: React.ReactNode;
+}
+
+const TABS: { view: BrowseView; label: string }[] = [
+  { view: 'songs', label: 'Songs' },
+  { view: 'artists', label: 'Artists' },
+  { view: 'albums', label: 'Albums' },
+  { view: 'genres', label: 'Genres' },
+  { view: 'years', label: 'Years' },
+  { view: 'folders', label: 'Folders' },
+  { view: 'history', label: 'History' },
+  { view: 'stats', label: 'Stats' },
+];
+
+const LibraryBrowser: React.FC<LibraryBrowserProps> = ({ view, onViewChange, songs, currentSong, isPlaying, onPlay, onQueue, children, history, stats }) => {
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [folderPath, setFolderPath] = useState<string[]>([]);
+
+  const groups = useMemo((): BrowseGroup[] => {
+    switch (view) {
+      case 'artists': return groupByArtist(songs);
+      case 'albums': return groupByAlbum(songs);
+      case 'genres': return groupByGenre(songs);
+      case 'years': return groupByYear(songs);
+      default: return [];
+    }
+  }, [view, songs]);
+
+  const folderTree = useMemo(() => (view === 'folders' ? buildFolderTree(songs) : null), [view, songs]);
+
+  const changeView = (nextView: BrowseView) => {
+    setSelectedGroupId(null);
+    onViewChange(nextView);
+  };
+
+  const selectedGroup = groups.find(group => group.id === selectedGroupId);
+  // The folder may be gone after a rescan, fall back to the top
+  const folder = folderTree ? findFolder(folderTree, folderPath) ?? folderTree : null;
+
+  const renderContent = () => {
+    if (view === 'songs') return children;
+    if (view === 'history') return history;
+    if (view === 'stats') return stats;
+
+    if (selectedGroup) {
+      return (
+        <TrackList
+          title={selectedGroup.name}
+          subtitle={view === 'albums' ? selectedGroup.subtitle : undefined}
+          coverArt={view === 'albums' ? selectedGroup.coverArt : undefined}
+          songs={songs}
+          songIndices={selectedGroup.songIndices}
+          currentSong={currentSong}
+          isPlaying={isPlaying}
+          showTrackNumbers={view === 'albums'}
+          onPlay={(position) => onPlay(selectedGroup.songIndices, position, selectedGroup.name)}
+          onQueue={() => onQueue(selectedGroup.songIndices)}
+          onBack={() => setSelectedGroupId(null)}
+        />
+      );
+    }
+
+    if (folder) {
+      const folderSongs = getFolderSongs(folder);
+      return (
+        <div className="h-full flex flex-col">
+          {folder.folders.length > 0 && (
+            <ul className="space-y-1 mb-4 max-h-[40%] overflow-y-auto flex-shrink-0">
+              {folder.folders.map(child => (
+                <li
+                  key={child.name}
+                  onClick={() => setFolderPath(child.path)}
+                  className="flex items-center gap-3 p-2 rounded-md cursor-pointer text-gray-300 hover:bg-gray-700/50"
+                >
+                  <FolderIcon className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                  <span className="flex-grow truncate">{child.name}</span>
+                  <span className="text-sm text-gray-500">{getFolderSongs(child).length}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex-grow overflow-hidden">
+            <TrackList
+              title={folder.name}
+              songs={songs}
+              songIndices={folderSongs}
+              currentSong={currentSong}
+              isPlaying={isPlaying}
+              onPlay={(position) => onPlay(folderSongs, position, folder.name)}
+              onQueue={() => onQueue(folderSongs)}
+              onBack={folder.path.length > 0 ? () => setFolderPath(folder.path.slice(0, -1)) : undefined}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    if (groups.length === 0) {
+      return (
+        <div className="flex flex-col items-center justify-center flex-grow text-gray-500">
+          <MusicNoteIcon className="w-12 h-12 mb-4" />
+          <p>Nothing to browse yet.</p>
+        </div>
+      );
+    }
+
+    if (view === 'albums') {
+      return (
+        <div className="grid grid-cols-2 sm:grid-cols-3 xl:grid-cols-4 gap-4 overflow-y-auto pb-24">
+          {groups.map(group => (
+            <button key={group.id} onClick={() => setSelectedGroupId(group.id)} className="text-left group">
+              <div className="aspect-square bg-gray-700 rounded-lg overflow-hidden flex items-center justify-center mb-2 shadow-lg">
+                {group.coverArt ? (
+                  <img src={group.coverArt} alt={group.name} className="w-full h-full object-cover transition-transform group-hover:scale-105" />
+                ) : (
+                  <MusicNoteIcon className="w-10 h-10 text-gray-400" />
+                )}
+              </div>
+              <p className="font-semibold truncate text-gray-200" title={group.name}>{group.name}</p>
+              <p className="text-sm text-gray-400 truncate">{group.subtitle}</p>
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <ul className="space-y-2 flex-grow overflow-y-auto pb-24">
+        {groups.map(group => (
+          <li
+            key={group.id}
+            onClick={() => setSelectedGroupId(group.id)}
+            className="flex items-center p-3 rounded-lg cursor-pointer transition-all duration-200 hover:bg-gray-700/50 text-gray-300"
+          >
+            <div className={`w-10 h-10 bg-gray-700 flex items-center justify-center mr-4 flex-shrink-0 ${view === 'artists' ? 'rounded-full' : 'rounded-md'}`}>
+              {group.coverArt ? (
+                <img src={group.coverArt} alt={group.name} className={`w-full h-full object-cover ${view === 'artists' ? 'rounded-full' : 'rounded-md'}`} />
+              ) : (
+                <MusicNoteIcon className="w-5 h-5 text-gray-400" />
+              )}
+            </div>
+            <div className="flex-grow overflow-hidden">
+              <p className="font-semibold truncate">{group.name}</p>
+              <p className="text-sm text-gray-400 truncate">{group.subtitle}</p>
+            </div>
+            <ChevronLeftIcon className="w-5 h-5 text-gray-500 rotate-180 flex-shrink-0" />
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex gap-2 mb-4 overflow-x-auto flex-shrink-0 px-4 md:px-0">
+        {TABS.map(tab => (
+          <button
+            key={tab.view}
+            onClick={() => changeView(tab.view)}
+            className={`px-3 py-1.5 rounded-full text-sm font-semibold whitespace-nowrap transition-colors ${
+              view === tab.view ? 'bg-purple-600 text-white' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex-grow overflow-hidden flex flex-col">
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryBrowser;
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { LoopRegion, PracticeSettings } from '../types';
+import { MIN_LOOP_LENGTH, MAX_LOOP_COUNT, getPassRate } from '../loopRegions';
+import { MAX_PLAYBACK_RATE, PLAYBACK_RATE_STEP } from '../playbackRates';
+
+interface LoopModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  start: number | null;
+  end: number | null;
+  duration: number;
+  onMarkersChange: (start: number, end: number) => void;
+  // Whether the segment is repeating, and which pass it's on
+  isLooping: boolean;
+  pass: number;
+  onToggleLooping: () => void;
+  practice: PracticeSettings;
+  onPracticeChange: (practice: PracticeSettings) => void;
+  // The speed the first pass plays at
+  playbackRate: number;
+  regions: LoopRegion[];
+  onSaveRegion: (name: string) => void;
+  onSelectRegion: (region: LoopRegion) => void;
+  onDeleteRegion: (id: string) => void;
+}
+
+// How far the nudge buttons move a marker, in seconds
+const NUDGE = 0.1;
+
+const sliderClassName = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-default';
+const nudgeClassName = 'w-7 h-7 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50 text-sm';
+
+// Positions to a tenth of a second, markers are placed more finely than the progress bar shows
+const formatPosition = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = (time % 60).toFixed(1);
+  return `${minutes}:${seconds.padStart(4, '0')}`;
+};
+
+const LoopModal: React.FC<LoopModalProps> = ({ isOpen, onClose, start, end, duration, onMarkersChange, isLooping, pass, onToggleLooping, practice, onPracticeChange, playbackRate, regions, onSaveRegion, onSelectRegion, onDeleteRegion }) => {
+  const [regionName, setRegionName] = useState('');
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const hasSegment = start !== null && end !== null;
+
+  const nudge = (marker: 'start' | 'end', delta: number) => {
+    if (!hasSegment) return;
+    if (marker === 'start') {
+      onMarkersChange(Math.min(end - MIN_LOOP_LENGTH, Math.max(0, start + delta)), end);
+    } else {
+      onMarkersChange(start, Math.max(start + MIN_LOOP_LENGTH, Math.min(duration, end + delta)));
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasSegment) return;
+    onSaveRegion(regionName.trim() || `${formatPosition(start)} – ${formatPosition(end)}`);
+    setRegionName('');
+  };
+
+  const renderMarker = (label: string, marker: 'start' | 'end', time: number | null) => (
+    <div className="flex-1 bg-gray-900/40 rounded-md p-2 text-center">
+      <span className="block text-xs text-gray-400">{label}</span>
+      <span className="block font-mono text-lg">{time !== null ? formatPosition(time) : '–'}</span>
+      <div className="flex justify-center gap-2 mt-1">
+        <button onClick={() => nudge(marker, -NUDGE)} disabled={!hasSegment} className={nudgeClassName} aria-label={`Move ${label} earlier`}>−</button>
+        <button onClick={() => nudge(marker, NUDGE)} disabled={!hasSegment} className={nudgeClassName} aria-label={`Move ${label} later`}>+</button>
+      </div>
+    </div>
+  );
+
+  const currentRate = getPassRate(practice, playbackRate, pass);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-center">A-B Loop</h2>
+
+        <div className="flex gap-2 mb-3">
+          {renderMarker('A', 'start', start)}
+          {renderMarker('B', 'end', end)}
+        </div>
+        {hasSegment ? (
+          <button
+            onClick={onToggleLooping}
+            className={`w-full p-2 rounded-md transition-colors mb-1 ${isLooping ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {isLooping ? 'Stop looping' : 'Loop this segment'}
+          </button>
+        ) : (
+          <p className="text-sm text-gray-500 mb-1">Set A and B with the A-B button below the progress bar, or pick a saved loop.</p>
+        )}
+        {isLooping && (
+          <p className="text-xs text-gray-400 text-center mb-1">
+            Pass {pass + 1}{practice.count > 0 ? ` of ${practice.count}` : ''} at {currentRate.toFixed(2)}x
+          </p>
+        )}
+
+        <section className="mt-5 mb-6">
+          <h3 className="font-semibold mb-2">Practice</h3>
+          <label className="block text-sm">
+            <span className="flex justify-between text-gray-400 mb-1">
+              <span>Play the segment</span>
+              <span>{practice.count === 0 ? 'Until stopped' : `${practice.count} time${practice.count === 1 ? '' : 's'}`}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_LOOP_COUNT}
+              step={1}
+              value={practice.count}
+              onChange={(e) => onPracticeChange({ ...practice, count: Number(e.target.value) })}
+              className={sliderClassName}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm cursor-pointer mt-4">
+            <input
+              type="checkbox"
+              checked={practice.speedUp}
+              onChange={(e) => onPracticeChange({ ...practice, speedUp: e.target.checked })}
+              className="accent-purple-600"
+            />
+            Speed up after every pass
+          </label>
+          <p className="text-xs text-gray-500 mt-1">Starts at the current speed, {playbackRate.toFixed(2)}x.</p>
+          <label className="block text-sm mt-2">
+            <span className="flex justify-between text-gray-400 mb-1">
+              <span>Step</span>
+              <span>+{practice.speedStep.toFixed(2)}x</span>
+            </span>
+            <input
+              type="range"
+              min={PLAYBACK_RATE_STEP}
+              max={0.25}
+              step={PLAYBACK_RATE_STEP}
+              value={practice.speedStep}
+              onChange={(e) => onPracticeChange({ ...practice, speedStep: Number(e.target.value) })}
+              disabled={!practice.speedUp}
+              className={sliderClassName}
+            />
+          </label>
+          <label className="block text-sm mt-2">
+            <span className="flex justify-between text-gray-400 mb-1">
+              <span>Up to</span>
+              <span>{practice.targetRate.toFixed(2)}x</span>
+            </span>
+            <input
+              type="range"
+              min={PLAYBACK_RATE_STEP * 10}
+              max={MAX_PLAYBACK_RATE}
+              step={PLAYBACK_RATE_STEP}
+              value={practice.targetRate}
+              onChange={(e) => onPracticeChange({ ...practice, targetRate: Number(e.target.value) })}
+              disabled={!practice.speedUp}
+              className={sliderClassName}
+            />
+          </label>
+        </section>
+
+        <section className="mb-6">
+          <h3 className="font-semibold mb-2">Saved loops</h3>
+          {regions.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-2">No saved loops for this song yet.</p>
+          ) : (
+            <ul className="space-y-1 mb-2">
+              {regions.map(region => (
+                <li key={region.id} className="flex items-center gap-2 bg-gray-900/40 rounded-md">
+                  <button
+                    onClick={() => onSelectRegion(region)}
+                    className="flex-grow text-left px-3 py-2 hover:bg-gray-700 rounded-md transition-colors min-w-0"
+                  >
+                    <span className="block truncate">{region.name}</span>
+                    <span className="block text-xs text-gray-500 font-mono">{formatPosition(region.start)} – {formatPosition(region.end)}</span>
+                  </button>
+                  <button
+                    onClick={() => onDeleteRegion(region.id)}
+                    className="px-3 py-2 text-gray-400 hover:text-red-400 transition-colors text-sm"
+                    aria-label={`Delete ${region.name}`}
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleSave} className="flex gap-2">
+            <input
+              type="text"
+              value={regionName}
+              onChange={(e) => setRegionName(e.target.value)}
+              placeholder="Name, e.g. Solo"
+              disabled={!hasSegment}
+              className="flex-grow bg-gray-700 text-white rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={!hasSegment}
+              className="px-3 py-1.5 bg-purple-600 rounded-md hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
+            >
+              Save loop
+            </button>
+          </form>
+        </section>
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LoopModal;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { LyricLine } from '../metadata/index';
+import { formatLrcTime, parseLrcDraft, formatLrcDraft } from '../lyrics';
+import { PlayIcon, PauseIcon } from './Icons';
+
+interface LyricsEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The lyrics to start from, empty to write new ones
+  initialLines: LyricLine[];
+  currentTime: number;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  canSave: boolean;
+  onSave: (lines: LyricLine[]) => Promise<boolean>;
+}
+
+type EditorTab = 'text' | 'sync';
+
+// How far the nudge buttons move a line's time, in seconds
+const NUDGE = 0.1;
+
+const nudgeClassName = 'w-6 h-6 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50 text-xs flex-shrink-0';
+
+const tabClassName = (selected: boolean) =>
+  `flex-1 p-1.5 rounded-md text-sm transition-colors ${selected ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`;
+
+const LyricsEditor: React.FC<LyricsEditorProps> = ({ isOpen, onClose, initialLines, currentTime, isPlaying, onTogglePlay, onSeek, canSave, onSave }) => {
+  const [tab, setTab] = useState<EditorTab>('text');
+  // The text tab edits the draft as LRC text, the sync tab as lines
+  const [text, setText] = useState('');
+  const [lines, setLines] = useState<LyricLine[]>([]);
+  // The line the Stamp button times next
+  const [selected, setSelected] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTab('text');
+    setText(formatLrcDraft(initialLines));
+    setLines(initialLines);
+    setSelected(0);
+  }, [isOpen, initialLines]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const switchTab = (next: EditorTab) => {
+    if (next === tab) return;
+    if (next === 'sync') {
+      const parsed = parseLrcDraft(text);
+      setLines(parsed);
+      // Carry on from the first line that isn't timed yet
+      const firstUntimed = parsed.findIndex(line => line.time === undefined);
+      setSelected(firstUntimed === -1 ? 0 : firstUntimed);
+    } else {
+      setText(formatLrcDraft(lines));
+    }
+    setTab(next);
+  };
+
+  const setLineTime = (index: number, time: number | undefined) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, time: time !== undefined ? Math.max(0, time) : undefined } : line)));
+  };
+
+  const stamp = () => {
+    if (selected >= lines.length) return;
+    setLineTime(selected, currentTime);
+    setSelected(selected + 1);
+  };
+
+  const handleSave = async () => {
+    const draft = tab === 'text' ? parseLrcDraft(text) : lines;
+    setIsSaving(true);
+    const saved = await onSave(draft);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-center">Edit Lyrics</h2>
+
+        <div className="flex gap-2 mb-3">
+          <button onClick={() => switchTab('text')} className={tabClassName(tab === 'text')}>Text</button>
+          <button onClick={() => switchTab('sync')} className={tabClassName(tab === 'sync')}>Sync</button>
+        </div>
+
+        {tab === 'text' ? (
+          <>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'Paste or type the lyrics, one line per row.\nLines can start with a time like [01:23.45].'}
+              className="flex-grow min-h-[16rem] bg-gray-900/60 text-white rounded-md p-3 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none"
+            />
+            <p className="text-xs text-gray-500 mt-2">Switch to Sync to time the lines while the song plays.</p>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 mb-3">
+              <button
+                onClick={onTogglePlay}
+                className="w-10 h-10 bg-white text-gray-900 rounded-full flex items-center justify-center flex-shrink-0"
+                aria-label={isPlaying ? 'Pause' : 'Play'}
+              >
+                {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+              </button>
+              <span className="font-mono text-sm text-gray-400">{formatLrcTime(currentTime)}</span>
+              <button
+                onClick={stamp}
+                disabled={selected >= lines.length}
+                className="ml-auto px-4 py-2 bg-purple-600 rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                Stamp line
+              </button>
+            </div>
+            {lines.length === 0 ? (
+              <p className="text-sm text-gray-500">Write the lyrics in the Text tab first.</p>
+            ) : (
+              <ul className="flex-grow overflow-y-auto space-y-1 min-h-[12rem]">
+                {lines.map((line, i) => (
+                  <li
+                    key={i}
+                    className={`flex items-center gap-2 p-1.5 rounded-md ${i === selected ? 'bg-purple-600/30' : 'hover:bg-gray-700/50'}`}
+                  >
+                    <button
+                      onClick={() => line.time !== undefined && onSeek(line.time)}
+                      disabled={line.time === undefined}
+                      className="font-mono text-xs text-purple-400 hover:text-purple-300 disabled:text-gray-600 w-20 text-left flex-shrink-0"
+                      title="Play from here"
+                    >
+                      {line.time !== undefined ? formatLrcTime(line.time) : '[--:--.--]'}
+                    </button>
+                    <button onClick={() => line.time !== undefined && setLineTime(i, line.time - NUDGE)} disabled={line.time === undefined} className={nudgeClassName} aria-label="Earlier">−</button>
+                    <button onClick={() => line.time !== undefined && setLineTime(i, line.time + NUDGE)} disabled={line.time === undefined} className={nudgeClassName} aria-label="Later">+</button>
+                    <button onClick={() => setSelected(i)} className="flex-grow text-left text-sm truncate" title="Stamp this line next">
+                      {line.text || <span className="text-gray-500 italic">(instrumental)</span>}
+                    </button>
+                    {line.time !== undefined && (
+                      <button onClick={() => setLineTime(i, undefined)} className="text-xs text-gray-400 hover:text-red-400 flex-shrink-0">
+                        Clear
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-gray-500 mt-2">Press Stamp line as each highlighted line starts.</p>
+          </>
+        )}
+
+        {!canSave && <p className="text-xs text-yellow-400 mt-3">Open the library folder to save lyrics next to the track.</p>}
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isSaving}
+            className="flex-1 px-4 py-2 bg-purple-600 rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving…' : 'Save .lrc'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LyricsEditor;
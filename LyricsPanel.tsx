@@ -0,0 +1,81 @@
+import React, { useEffect, useRef } from 'react';
+import { SongLyrics, isSynced, getCurrentLineIndex } from '../lyrics';
+import { CloseIcon } from './Icons';
+
+interface LyricsPanelProps {
+  lyrics: SongLyrics | null;
+  isLoading: boolean;
+  // Name of the sidecar file, shown as where .lrc lyrics came from
+  lrcName: string;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onEdit: () => void;
+  onClose: () => void;
+}
+
+const LyricsPanel: React.FC<LyricsPanelProps> = ({ lyrics, isLoading, lrcName, currentTime, onSeek, onEdit, onClose }) => {
+  const lineRefs = useRef<(HTMLElement | null)[]>([]);
+
+  const lines = lyrics?.lines ?? [];
+  const synced = isSynced(lines);
+  const currentLine = synced ? getCurrentLineIndex(lines, currentTime) : -1;
+
+  // Keep the line being sung in the middle of the panel
+  useEffect(() => {
+    if (currentLine >= 0) {
+      lineRefs.current[currentLine]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [currentLine]);
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-full md:w-96 bg-gray-900/95 backdrop-blur-sm z-20 flex flex-col p-4 shadow-2xl" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Lyrics</h2>
+        <div className="flex items-center gap-2">
+          {!isLoading && (
+            <button onClick={onEdit} className="px-3 py-1 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors text-sm">
+              {lyrics ? 'Edit' : 'Create'}
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full" aria-label="Close lyrics">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Looking for lyrics…</p>
+      ) : !lyrics ? (
+        <p className="text-sm text-gray-500">
+          No lyrics found. Put {lrcName} next to the track, or create one with the Create button.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 mb-3">
+            {lyrics.source === 'lrc' ? `From ${lrcName}` : "From the track's tags"}
+            {!synced && ' · not synchronized, time the lines with Edit'}
+          </p>
+          <ul className="flex-grow overflow-y-auto space-y-1">
+            {lines.map((line, i) => (
+              <li key={i} ref={el => { lineRefs.current[i] = el; }}>
+                {line.time !== undefined ? (
+                  <button
+                    onClick={() => onSeek(line.time!)}
+                    className={`w-full text-left px-2 py-1 rounded-lg transition-colors hover:bg-gray-700/50 ${
+                      i === currentLine ? 'text-white text-lg font-bold' : i < currentLine ? 'text-gray-500' : 'text-gray-300'
+                    }`}
+                  >
+                    {line.text || '♪'}
+                  </button>
+                ) : (
+                  <p className="px-2 py-1 text-gray-300 min-h-[1.5rem]">{line.text}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LyricsPanel;
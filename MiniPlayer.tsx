@@ -2,6 +2,7 @@
 import React from 'react';
 import { Song } from '../types';
 import { PlayIcon, PauseIcon, NextIcon } from './Icons';
+import WaveformSeekBar from './WaveformSeekBar';
 
 interface MiniPlayerProps {
   song: Song | null;
@@ -11,15 +12,16 @@ interface MiniPlayerProps {
   onExpand: () => void;
   currentTime: number;
   duration: number;
+  onSeek: (time: number) => void;
+  // Waveform of the song for the seek bar, null until it's ready
+  peaks: Float32Array | null;
 }
 
-const MiniPlayer: React.FC<MiniPlayerProps> = ({ song, isPlaying, togglePlayPause, playNext, onExpand, currentTime, duration }) => {
+const MiniPlayer: React.FC<MiniPlayerProps> = ({ song, isPlaying, togglePlayPause, playNext, onExpand, currentTime, duration, onSeek, peaks }) => {
   if (!song) {
     return null;
   }
 
-  const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
-
   return (
     <div className="fixed bottom-0 left-0 right-0 z-40" onClick={onExpand}>
       <div className="bg-gray-800/80 backdrop-blur-lg w-full p-2.5 flex items-center gap-3 cursor-pointer shadow-lg">
@@ -50,8 +52,8 @@ const MiniPlayer: React.FC<MiniPlayerProps> = ({ song, isPlaying, togglePlayPaus
         </div>
       </div>
       {/* Progress bar */}
-      <div className="w-full bg-gray-600 h-1">
-        <div className="bg-purple-500 h-1" style={{ width: `${progress}%` }}></div>
+      <div className="bg-gray-800/80 backdrop-blur-lg w-full px-2.5 pb-1">
+        <WaveformSeekBar peaks={peaks} currentTime={currentTime} duration={duration} onSeek={onSeek} className="h-5" />
       </div>
     </div>
   );
@@ -1,11 +1,38 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Song, RepeatMode } from '../types';
-import { PlayIcon, PauseIcon, NextIcon, PrevIcon, ShuffleIcon, RepeatIcon, RepeatOneIcon, VolumeUpIcon, VolumeMuteIcon, TimerIcon, ChevronDownIcon, InfoIcon } from './Icons';
+import { Song, RepeatMode, ShuffleMode, LoopRegion } from '../types';
+import { AudioEngine } from '../audioEngine';
+import { AudioSettings } from '../audioSettings';
+import { LoudnessProgress } from '../useLoudnessAnalysis';
+import { getActiveCurve } from '../equalizer';
+import { RateScope } from '../playbackRates';
+import { loadBookmarks, saveBookmarks, getSongBookmarks, addBookmark, updateBookmarkNote, removeBookmark, isResumable, getResumePosition, saveResumePosition, clearResumePosition, getChapterIndex, getPreviousChapterStart, getNextChapterStart } from '../bookmarks';
+import { getLrcName } from '../lyrics';
+import { useLyrics } from '../useLyrics';
+import { useCoverPalette } from '../useCoverPalette';
+import { getVisualizers, findVisualizer, loadVisualizerId, saveVisualizerId } from '../visualizers';
+import { LyricLine } from '../metadata/index';
+import { MIN_LOOP_LENGTH, DEFAULT_PRACTICE_SETTINGS, loadLoopRegions, saveLoopRegions, getSongRegions, addRegion, removeRegion, getPassRate } from '../loopRegions';
+import { PlayIcon, PauseIcon, NextIcon, PrevIcon, ShuffleIcon, RepeatIcon, RepeatOneIcon, VolumeUpIcon, VolumeMuteIcon, TimerIcon, ChevronDownIcon, InfoIcon, QueueIcon, AdjustmentsIcon, EqualizerIcon, EffectsIcon, BookmarkIcon, LyricsIcon, ExpandIcon } from './Icons';
 import TimerModal from './TimerModal';
 import ArtistInfoModal from './ArtistInfoModal';
+import UpNextPanel from './UpNextPanel';
+import BookmarksPanel from './BookmarksPanel';
+import LyricsPanel from './LyricsPanel';
+import LyricsEditor from './LyricsEditor';
+import AudioSettingsModal from './AudioSettingsModal';
+import EqualizerModal from './EqualizerModal';
+import EffectsModal from './EffectsModal';
+import SpeedModal from './SpeedModal';
+import LoopModal from './LoopModal';
+import WaveformSeekBar from './WaveformSeekBar';
+import VisualizerCanvas from './VisualizerCanvas';
+import VisualizerFullscreen from './VisualizerFullscreen';
 
 const LOCAL_STORAGE_KEY = 'musicPlayerState';
 
+// Stable, so the editor doesn't start over on every render of a song without lyrics
+const NO_LYRICS: LyricLine[] = [];
+
 interface PlayerProps {
   song: Song;
   isPlaying: boolean;
@@ -13,167 +40,112 @@ interface PlayerProps {
   togglePlayPause: () => void;
   playNext: () => void;
   playPrev: () => void;
-  audioRef: React.RefObject<HTMLAudioElement>;
+  audioRef: React.RefObject<AudioEngine>;
+  // Preloaded so it starts the moment this song ends
+  nextSong: Song | null;
   repeatMode: RepeatMode;
   cycleRepeatMode: () => void;
+  setRepeatMode: (mode: RepeatMode) => void;
   isShuffled: boolean;
   toggleShuffle: () => void;
+  shuffleMode: ShuffleMode;
+  cycleShuffleMode: () => void;
   initialTime: number;
   onInitialTimeApplied: () => void;
   playbackRate: number;
-  setPlaybackRate: React.Dispatch<React.SetStateAction<number>>;
+  onPlaybackRateChange: (rate: number) => void;
+  // What the playing song's speed is remembered for, null when it plays at the global speed
+  rateScope: RateScope | null;
+  onRateScopeChange: (scope: RateScope | null) => void;
   onCollapse: () => void;
   onTimeUpdate: (time: number, duration: number) => void;
+  upNext: Song[];
+  upcoming: Song[];
+  upcomingSource: string;
+  onPlayFromUpNext: (position: number) => void;
+  onRemoveFromUpNext: (position: number) => void;
+  onMoveUpNextItem: (from: number, to: number) => void;
+  onClearUpNext: () => void;
+  audioSettings: AudioSettings;
+  onAudioSettingsChange: (settings: AudioSettings) => void;
+  loudnessProgress: LoudnessProgress | null;
+  // The library folder, where .lrc files are read from and saved to
+  directoryHandle: FileSystemDirectoryHandle | null;
+  // Waveform of the song for the seek bar, null until it's ready
+  peaks: Float32Array | null;
 }
 
-const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playNext, playPrev, audioRef, repeatMode, cycleRepeatMode, isShuffled, toggleShuffle, setIsPlaying, initialTime, onInitialTimeApplied, playbackRate, setPlaybackRate, onCollapse, onTimeUpdate }) => {
+const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playNext, playPrev, audioRef, nextSong, repeatMode, cycleRepeatMode, setRepeatMode, isShuffled, toggleShuffle, shuffleMode, cycleShuffleMode, setIsPlaying, initialTime, onInitialTimeApplied, playbackRate, onPlaybackRateChange, rateScope, onRateScopeChange, onCollapse, onTimeUpdate, upNext, upcoming, upcomingSource, onPlayFromUpNext, onRemoveFromUpNext, onMoveUpNextItem, onClearUpNext, audioSettings, onAudioSettingsChange, loudnessProgress, directoryHandle, peaks }) => {
   const [currentTime, setCurrentTime] = useState(0);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [isTimerModalOpen, setIsTimerModalOpen] = useState(false);
   const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
+  const [isUpNextOpen, setIsUpNextOpen] = useState(false);
+  const [isBookmarksOpen, setIsBookmarksOpen] = useState(false);
+  const [bookmarks, setBookmarks] = useState(loadBookmarks);
+  const [isLyricsOpen, setIsLyricsOpen] = useState(false);
+  const [isLyricsEditorOpen, setIsLyricsEditorOpen] = useState(false);
+  const { lyrics, isLoading: isLyricsLoading, canSave: canSaveLyrics, save: saveLyrics } = useLyrics(song, directoryHandle, isLyricsOpen || isLyricsEditorOpen);
+  const [isAudioSettingsOpen, setIsAudioSettingsOpen] = useState(false);
+  const [isEqualizerOpen, setIsEqualizerOpen] = useState(false);
+  const [isEffectsOpen, setIsEffectsOpen] = useState(false);
+  const [isSpeedOpen, setIsSpeedOpen] = useState(false);
+  const [isLoopOpen, setIsLoopOpen] = useState(false);
+  // A-B markers of the playing song
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [practice, setPractice] = useState(DEFAULT_PRACTICE_SETTINGS);
+  // Times the segment has repeated since looping started
+  const [loopPass, setLoopPass] = useState(0);
+  const [loopRegions, setLoopRegions] = useState(loadLoopRegions);
   const sleepTimerRef = useRef<number | null>(null);
   const lastSaveTimeRef = useRef(0);
   
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioContextRef = useRef<{
-    context: AudioContext;
-    analyser: AnalyserNode;
-    source: MediaElementAudioSourceNode;
-    dataArray: Uint8Array;
-  } | null>(null);
-  const animationFrameId = useRef<number | null>(null);
-
-  // Effect to set up the Web Audio API for the visualizer
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const setupAudioContext = () => {
-      // Create context and nodes only once
-      if (!audioContextRef.current) {
-        const context = new (window.AudioContext)();
-        const source = context.createMediaElementSource(audio);
-        const analyser = context.createAnalyser();
-
-        analyser.fftSize = 256;
-        const bufferLength = analyser.frequencyBinCount;
-        const dataArray = new Uint8Array(bufferLength);
-
-        source.connect(analyser);
-        analyser.connect(context.destination);
-
-        audioContextRef.current = { context, source, analyser, dataArray };
-      }
-      
-      // Resume context if it was suspended
-      if (audioContextRef.current.context.state === 'suspended') {
-        audioContextRef.current.context.resume();
-      }
-    };
-
-    // The AudioContext must be created after a user gesture. The 'play' event is a reliable way to do this.
-    audio.addEventListener('play', setupAudioContext);
-
-    return () => {
-      audio.removeEventListener('play', setupAudioContext);
-      // Clean up animation frame on component unmount
-      if (animationFrameId.current) {
-        cancelAnimationFrame(animationFrameId.current);
-      }
-    };
-  }, [audioRef]);
+  const [visualizerId, setVisualizerId] = useState(loadVisualizerId);
+  const [isVisualizerFullscreen, setIsVisualizerFullscreen] = useState(false);
+  const visualizer = findVisualizer(visualizerId);
+  const palette = useCoverPalette(song.coverArt);
 
-
-  // Effect for drawing the visualizer
   useEffect(() => {
-    if (!isPlaying || !canvasRef.current || !audioContextRef.current) {
-      if(animationFrameId.current) {
-        cancelAnimationFrame(animationFrameId.current);
-        const canvas = canvasRef.current;
-        const canvasCtx = canvas?.getContext('2d');
-        if (canvas && canvasCtx) {
-          canvasCtx.clearRect(0, 0, canvas.width, canvas.height);
-        }
-      }
-      return;
-    }
-    
-    const { analyser, dataArray } = audioContextRef.current;
-    const canvas = canvasRef.current;
-    const canvasCtx = canvas.getContext('2d');
-
-    if (!canvasCtx) return;
-
-    const bufferLength = analyser.frequencyBinCount;
-    
-    const draw = () => {
-        animationFrameId.current = requestAnimationFrame(draw);
-        analyser.getByteFrequencyData(dataArray);
-
-        // Set canvas dimensions dynamically to match element size for responsiveness
-        const { width, height } = canvas.getBoundingClientRect();
-        if(canvas.width !== width || canvas.height !== height) {
-          canvas.width = width;
-          canvas.height = height;
-        }
-
-        canvasCtx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        const barWidth = (canvas.width / bufferLength);
-        let barHeight;
-        let x = 0;
-        
-        const gradient = canvasCtx.createLinearGradient(0, 0, 0, canvas.height);
-        gradient.addColorStop(0, 'rgba(192, 132, 252, 0.8)'); // purple-300
-        gradient.addColorStop(0.5, 'rgba(124, 58, 237, 0.5)'); // purple-600
-        gradient.addColorStop(1, 'rgba(124, 58, 237, 0.2)');   // purple-600
-
-        for (let i = 0; i < bufferLength; i++) {
-            barHeight = dataArray[i] * (canvas.height / 256);
-            
-            canvasCtx.fillStyle = gradient;
-            canvasCtx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
-
-            x += barWidth;
-        }
-    };
+    saveVisualizerId(visualizerId);
+  }, [visualizerId]);
 
-    draw();
-
-    return () => {
-      if (animationFrameId.current) {
-        cancelAnimationFrame(animationFrameId.current);
-      }
-    };
-  }, [isPlaying]);
+  const cycleVisualizer = () => {
+    const visualizers = getVisualizers();
+    setVisualizerId(visualizers[(visualizers.indexOf(visualizer) + 1) % visualizers.length].id);
+  };
 
   // Effect to handle song source changes. It now only loads the new song data.
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
+    // The engine has already moved to the initial time, or past the encoder delay
     const handleMetadataLoaded = () => {
-      audio.currentTime = initialTime;
-      setCurrentTime(initialTime);
-      onTimeUpdate(initialTime, audio.duration || 0);
+      setCurrentTime(audio.currentTime);
+      onTimeUpdate(audio.currentTime, audio.duration || 0);
       // "Consume" the initial time so it's not reused on the next track
       if (initialTime > 0) {
         onInitialTimeApplied();
       }
     };
-    
-    // When the song changes, set the new source and load it.
-    // This will interrupt any previous playback, which is intended.
-    audio.src = song.url;
-    audio.load();
+
+    // When the song changes, load it. This interrupts any previous playback, which is
+    // intended, except when the song took over gaplessly and is already playing.
     audio.addEventListener('loadedmetadata', handleMetadataLoaded);
+    // Long tracks pick up where they were left, unless the whole player state is being restored
+    audio.load(song, initialTime || getResumePosition(song, audioSettings.resume));
 
     return () => {
       audio.removeEventListener('loadedmetadata', handleMetadataLoaded);
     };
     // This hook no longer depends on `isPlaying` to prevent re-loading on play/pause.
-  }, [song.url, initialTime, onInitialTimeApplied, onTimeUpdate]);
+  }, [song, initialTime, onInitialTimeApplied, onTimeUpdate, audioSettings.resume]);
+
+  useEffect(() => {
+    audioRef.current?.preload(nextSong);
+  }, [nextSong, audioRef]);
 
   // Effect to handle play/pause state. This now also handles autoplaying new songs.
   useEffect(() => {
@@ -207,12 +179,85 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
     audio.loop = repeatMode === RepeatMode.ONE;
   }, [repeatMode, audioRef]);
 
+  useEffect(() => {
+    if (audioRef.current) {
+        audioRef.current.crossfade = audioSettings.crossfade;
+    }
+  }, [audioSettings.crossfade, audioRef]);
+
+  // Album and genre presets switch along with the song
+  const equalizerCurve = getActiveCurve(audioSettings.equalizer, song);
+  useEffect(() => {
+    if (audioRef.current) {
+        audioRef.current.equalizer = equalizerCurve;
+    }
+  }, [equalizerCurve, audioRef]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+        audioRef.current.effects = audioSettings.effects;
+    }
+  }, [audioSettings.effects, audioRef]);
+
+  const isLooping = repeatMode === RepeatMode.SEGMENT && loopStart !== null && loopEnd !== null;
+  // On the last of a limited number of passes, playback carries on past B
+  const isLastPass = practice.count > 0 && loopPass >= practice.count - 1;
+  const currentRate = isLooping ? getPassRate(practice, playbackRate, loopPass) : playbackRate;
+
   // Effect to apply playback rate
   useEffect(() => {
     if (audioRef.current) {
-        audioRef.current.playbackRate = playbackRate;
+        audioRef.current.playbackRate = currentRate;
+    }
+  }, [currentRate, audioRef]);
+
+  // Markers belong to the song they were set on
+  useEffect(() => {
+    setLoopStart(null);
+    setLoopEnd(null);
+  }, [song.id]);
+
+  useEffect(() => {
+    if (!isLooping) setLoopPass(0);
+  }, [isLooping]);
+
+  useEffect(() => {
+    if (repeatMode === RepeatMode.SEGMENT && loopEnd === null) setRepeatMode(RepeatMode.NONE);
+  }, [repeatMode, loopEnd, setRepeatMode]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.segment = isLooping && !isLastPass ? { start: loopStart!, end: loopEnd! } : null;
+  }, [isLooping, isLastPass, loopStart, loopEnd, audioRef]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const handleRepeat = () => setLoopPass(pass => pass + 1);
+    audio.addEventListener('segmentrepeat', handleRepeat);
+    return () => audio.removeEventListener('segmentrepeat', handleRepeat);
+  }, [audioRef]);
+
+  // The last pass is over once it gets past B
+  useEffect(() => {
+    if (isLooping && isLastPass && currentTime >= loopEnd!) setRepeatMode(RepeatMode.NONE);
+  }, [isLooping, isLastPass, currentTime, loopEnd, setRepeatMode]);
+
+  useEffect(() => {
+    saveLoopRegions(loopRegions);
+  }, [loopRegions]);
+
+  useEffect(() => {
+    saveBookmarks(bookmarks);
+  }, [bookmarks]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+        audioRef.current.preservesPitch = audioSettings.pitch.preservePitch;
+        audioRef.current.pitchShift = audioSettings.pitch.semitones;
     }
-  }, [playbackRate, audioRef]);
+  }, [audioSettings.pitch, audioRef]);
 
 
   // Effect for time updates and song ending
@@ -220,6 +265,9 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
     const audio = audioRef.current;
     if (!audio) return;
 
+    // Only while the engine is still on this song, right after a handoff it's already on the next one
+    const canResume = () => isResumable(song, audioSettings.resume) && audio.src === song.url;
+
     const handleTimeUpdate = () => {
         const now = Date.now();
         const time = audio.currentTime;
@@ -230,6 +278,7 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
         // Throttle saving currentTime to localStorage to every 5 seconds
         if (now - lastSaveTimeRef.current > 5000) {
             lastSaveTimeRef.current = now;
+            if (canResume()) saveResumePosition(song, time);
             const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
             if (savedStateJSON) {
                 try {
@@ -244,19 +293,26 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
     };
 
     const handleSongEnd = () => {
+      if (canResume()) clearResumePosition(song);
       if (repeatMode !== RepeatMode.ONE) {
         playNext();
       }
     };
+
+    const handlePause = () => {
+      if (canResume()) saveResumePosition(song, audio.currentTime);
+    };
     
     audio.addEventListener('timeupdate', handleTimeUpdate);
     audio.addEventListener('ended', handleSongEnd);
+    audio.addEventListener('pause', handlePause);
 
     return () => {
       audio.removeEventListener('timeupdate', handleTimeUpdate);
       audio.removeEventListener('ended', handleSongEnd);
+      audio.removeEventListener('pause', handlePause);
     };
-  }, [playNext, repeatMode, audioRef, onTimeUpdate]);
+  }, [playNext, repeatMode, audioRef, onTimeUpdate, song, audioSettings.resume]);
 
   useEffect(() => {
     if(audioRef.current) {
@@ -298,14 +354,52 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
   }, [song, isPlaying, togglePlayPause, playNext, playPrev]);
 
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const startLoop = (start: number, end: number) => {
+    setLoopStart(start);
+    setLoopEnd(end);
+    setLoopPass(0);
+    setRepeatMode(RepeatMode.SEGMENT);
+    seekTo(start);
+  };
+
+  // The first press sets A, the second sets B and starts looping, the third clears both
+  const handleLoopButton = () => {
+    if (loopStart === null) {
+      setLoopStart(currentTime);
+    } else if (loopEnd === null) {
+      if (currentTime - loopStart >= MIN_LOOP_LENGTH) startLoop(loopStart, currentTime);
+    } else {
+      setLoopStart(null);
+      setLoopEnd(null);
+    }
+  };
+
+  const toggleLooping = () => {
+    if (isLooping) {
+      setRepeatMode(RepeatMode.NONE);
+    } else if (loopStart !== null && loopEnd !== null) {
+      startLoop(loopStart, loopEnd);
+    }
+  };
+
+  const handleMarkersChange = (start: number, end: number) => {
+    setLoopStart(start);
+    setLoopEnd(end);
+  };
+
+  const selectRegion = (region: LoopRegion) => startLoop(region.start, region.end);
+
+  const seekTo = (time: number) => {
     if (audioRef.current) {
-      const newTime = Number(e.target.value);
-      audioRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
+      audioRef.current.currentTime = time;
+      setCurrentTime(time);
     }
   };
 
+  const chapters = song.chapters ?? [];
+  const chapterIndex = getChapterIndex(chapters, currentTime);
+  const nextChapterStart = getNextChapterStart(chapters, currentTime);
+
   const formatTime = (time: number) => {
     if (isNaN(time)) return '0:00';
     const minutes = Math.floor(time / 60);
@@ -341,13 +435,15 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
     }
   }, [audioRef, setIsPlaying]);
 
-  const playbackSpeeds = [0.75, 1, 1.25, 1.5];
-  const cyclePlaybackRate = () => {
-    const currentIndex = playbackSpeeds.indexOf(playbackRate);
-    const nextIndex = (currentIndex + 1) % playbackSpeeds.length;
-    setPlaybackRate(playbackSpeeds[nextIndex]);
+  const shuffleModeLabels: Record<ShuffleMode, string> = {
+    [ShuffleMode.TRACKS]: 'Tracks',
+    [ShuffleMode.ALBUMS]: 'Albums',
+    [ShuffleMode.ARTIST_SPREAD]: 'Artists',
+    [ShuffleMode.WEIGHTED]: 'Fresh',
   };
 
+  const isAnyEffectOn = Object.values(audioSettings.effects).some(effect => effect.enabled);
+
   const RepeatButtonIcon = () => {
     switch(repeatMode) {
         case RepeatMode.ONE: return <RepeatOneIcon />;
@@ -357,17 +453,63 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
   };
 
   return (
-    <div className="w-full h-full flex flex-col items-center justify-between p-4 sm:p-6 text-white">
-      <audio ref={audioRef} />
+    <div className="relative w-full h-full flex flex-col items-center justify-between p-4 sm:p-6 text-white">
       {/* Header */}
       <div className="w-full flex items-center justify-between flex-shrink-0">
           <button onClick={onCollapse} className="p-2 text-gray-400 hover:text-white z-10">
             <ChevronDownIcon />
           </button>
           <span className="text-gray-400 font-bold uppercase text-sm">Now Playing</span>
-          <button className="p-2 text-gray-400 hover:text-white invisible">
-             <ChevronDownIcon /> {/* Just for spacing */}
-          </button>
+          <div className="flex items-center">
+            <button
+              onClick={() => setIsEqualizerOpen(true)}
+              className={`p-2 z-10 ${audioSettings.equalizer.enabled ? 'text-purple-400' : 'text-gray-400 hover:text-white'}`}
+              aria-label="Equalizer"
+              title="Equalizer"
+            >
+              <EqualizerIcon />
+            </button>
+            <button
+              onClick={() => setIsEffectsOpen(true)}
+              className={`p-2 z-10 ${isAnyEffectOn ? 'text-purple-400' : 'text-gray-400 hover:text-white'}`}
+              aria-label="Effects"
+              title="Effects"
+            >
+              <EffectsIcon />
+            </button>
+            <button
+              onClick={() => setIsAudioSettingsOpen(true)}
+              className="p-2 z-10 text-gray-400 hover:text-white"
+              aria-label="Audio settings"
+              title="Audio settings"
+            >
+              <AdjustmentsIcon />
+            </button>
+            <button
+              onClick={() => { setIsLyricsOpen(prev => !prev); setIsUpNextOpen(false); setIsBookmarksOpen(false); }}
+              className={`p-2 z-10 ${isLyricsOpen ? 'text-purple-400' : 'text-gray-400 hover:text-white'}`}
+              aria-label="Lyrics"
+              title="Lyrics"
+            >
+              <LyricsIcon />
+            </button>
+            <button
+              onClick={() => { setIsBookmarksOpen(prev => !prev); setIsUpNextOpen(false); setIsLyricsOpen(false); }}
+              className={`p-2 z-10 ${isBookmarksOpen ? 'text-purple-400' : 'text-gray-400 hover:text-white'}`}
+              aria-label="Bookmarks and chapters"
+              title="Bookmarks and chapters"
+            >
+              <BookmarkIcon />
+            </button>
+            <button
+              onClick={() => { setIsUpNextOpen(prev => !prev); setIsBookmarksOpen(false); setIsLyricsOpen(false); }}
+              className={`p-2 z-10 ${isUpNextOpen ? 'text-purple-400' : 'text-gray-400 hover:text-white'}`}
+              aria-label="Up Next"
+              title="Up Next"
+            >
+              <QueueIcon className="w-7 h-7" />
+            </button>
+          </div>
       </div>
 
       {/* Album Art & Visualizer */}
@@ -378,12 +520,26 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
           className="w-full h-full rounded-2xl shadow-2xl object-cover"
         />
         <div className="absolute inset-0 bg-black/20 rounded-2xl"></div>
-         {/* Visualizer Canvas */}
-        <div className="absolute inset-x-0 bottom-0 h-1/2 rounded-b-2xl overflow-hidden pointer-events-none">
-            <canvas
-                ref={canvasRef}
-                className="w-full h-full opacity-60"
-            />
+        {/* Visualizer */}
+        <div className="absolute inset-0 rounded-2xl overflow-hidden pointer-events-none">
+          <VisualizerCanvas audioRef={audioRef} isPlaying={isPlaying && !isVisualizerFullscreen} visualizer={visualizer} palette={palette} className="w-full h-full opacity-60" />
+        </div>
+        <div className="absolute top-2 right-2 flex items-center gap-1">
+          <button
+            onClick={cycleVisualizer}
+            className="px-2 py-1 rounded-full bg-black/40 text-xs text-gray-200 hover:bg-black/60 transition-colors"
+            title="Next visualizer"
+          >
+            {visualizer.name}
+          </button>
+          <button
+            onClick={() => setIsVisualizerFullscreen(true)}
+            className="p-1.5 rounded-full bg-black/40 text-gray-200 hover:bg-black/60 transition-colors"
+            aria-label="Full-screen visualizer"
+            title="Full-screen visualizer"
+          >
+            <ExpandIcon className="w-4 h-4" />
+          </button>
         </div>
       </div>
 
@@ -391,20 +547,83 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
       <div className="w-full max-w-md text-center">
         <h2 className="text-2xl font-bold truncate" title={song.name}>{song.name}</h2>
         <p className="text-gray-400 text-lg">{song.artist}</p>
+        {chapters.length > 0 && (
+          <div className="flex items-center justify-center gap-2 mt-1 text-sm text-gray-300">
+            <button
+              onClick={() => seekTo(getPreviousChapterStart(chapters, currentTime))}
+              className="p-1 text-gray-400 hover:text-white"
+              aria-label="Previous chapter"
+              title="Previous chapter"
+            >
+              <PrevIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => { setIsBookmarksOpen(true); setIsUpNextOpen(false); setIsLyricsOpen(false); }} className="truncate hover:text-white" title="Show chapters">
+              {chapterIndex >= 0 ? `${chapterIndex + 1}/${chapters.length} · ${chapters[chapterIndex].title}` : `${chapters.length} chapters`}
+            </button>
+            <button
+              onClick={() => nextChapterStart !== null && seekTo(nextChapterStart)}
+              disabled={nextChapterStart === null}
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-40"
+              aria-label="Next chapter"
+              title="Next chapter"
+            >
+              <NextIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         
         {/* Progress Bar */}
         <div className="w-full mt-4">
-            <input
-              type="range"
-              min="0"
-              max={song.duration || 0}
-              value={currentTime}
-              onChange={handleSeek}
-              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg"
-              style={{ backgroundSize: `${(currentTime / (song.duration || 1)) * 100}% 100%` }}
-            />
-            <div className="flex justify-between text-xs text-gray-400 mt-1">
+            <WaveformSeekBar peaks={peaks} currentTime={currentTime} duration={song.duration} onSeek={seekTo}>
+              {chapters.length > 1 && (
+                <div className="absolute inset-0 pointer-events-none">
+                  {chapters.slice(1).map((chapter, i) => (
+                    <div
+                      key={i}
+                      className="absolute top-0 h-full w-px bg-gray-900/80"
+                      style={{ left: `${(chapter.start / (song.duration || 1)) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              )}
+              {/* A-B markers, with the segment between them shaded */}
+              {loopStart !== null && (
+                <div className="absolute inset-0 pointer-events-none">
+                  {loopEnd !== null && (
+                    <div
+                      className={`absolute h-full rounded ${isLooping ? 'bg-purple-400/30' : 'bg-gray-400/20'}`}
+                      style={{ left: `${(loopStart / (song.duration || 1)) * 100}%`, width: `${((loopEnd - loopStart) / (song.duration || 1)) * 100}%` }}
+                    />
+                  )}
+                  {[loopStart, loopEnd].map((time, i) => time !== null && (
+                    <div
+                      key={i}
+                      className="absolute inset-y-0 w-0.5 bg-purple-300"
+                      style={{ left: `${(time / (song.duration || 1)) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              )}
+            </WaveformSeekBar>
+            <div className="flex justify-between items-center text-xs text-gray-400 mt-1">
               <span>{formatTime(currentTime)}</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={handleLoopButton}
+                  className={`px-2 py-0.5 rounded font-bold transition-colors ${loopStart !== null ? 'text-purple-400' : 'hover:text-white'}`}
+                  aria-label={loopStart === null ? 'Set loop start' : loopEnd === null ? 'Set loop end' : 'Clear loop'}
+                  title={loopStart === null ? 'Set A' : loopEnd === null ? 'Set B' : 'Clear A-B'}
+                >
+                  {loopStart === null ? 'A-B' : loopEnd === null ? 'A-…' : 'A-B ✕'}
+                </button>
+                <button
+                  onClick={() => setIsLoopOpen(true)}
+                  className={`px-2 py-0.5 rounded transition-colors ${isLooping ? 'text-purple-400' : 'hover:text-white'}`}
+                  title="Loop and practice"
+                >
+                  {isLooping ? `Loop ${loopPass + 1}${practice.count > 0 ? `/${practice.count}` : ''}` : 'Practice'}
+                </button>
+              </div>
               <span>{formatTime(song.duration)}</span>
             </div>
         </div>
@@ -451,6 +670,14 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
                 />
             </div>
             <div className="flex items-center gap-2">
+                <button
+                  onClick={cycleShuffleMode}
+                  className={`hover:text-white transition-colors text-sm font-bold text-center w-16 ${isShuffled ? 'text-purple-400' : ''}`}
+                  aria-label={`Change shuffle mode. Current mode: ${shuffleModeLabels[shuffleMode]}`}
+                  title="Shuffle mode"
+                >
+                  {shuffleModeLabels[shuffleMode]}
+                </button>
                <button 
                   onClick={() => setIsInfoModalOpen(true)} 
                   className="hover:text-white transition-colors p-2 disabled:text-gray-600 disabled:cursor-not-allowed"
@@ -460,15 +687,121 @@ const Player: React.FC<PlayerProps> = ({ song, isPlaying, togglePlayPause, playN
                   <InfoIcon className="w-5 h-5"/>
                 </button>
                 <button 
-                  onClick={cyclePlaybackRate} 
-                  className="hover:text-white transition-colors font-mono font-bold text-center w-12"
-                  aria-label={`Change playback speed. Current speed: ${playbackRate}x`}
+                  onClick={() => setIsSpeedOpen(true)}
+                  className={`hover:text-white transition-colors font-mono font-bold text-center w-12 ${audioSettings.pitch.semitones !== 0 ? 'text-purple-400' : ''}`}
+                  aria-label={`Change playback speed. Current speed: ${currentRate}x`}
+                  title="Speed and pitch"
                 >
-                  {playbackRate.toFixed(2)}x
+                  {currentRate.toFixed(2)}x
                 </button>
             </div>
           </div>
       </div>
+      {isUpNextOpen && (
+        <UpNextPanel
+          upNext={upNext}
+          upcoming={upcoming}
+          upcomingSource={upcomingSource}
+          onPlay={onPlayFromUpNext}
+          onRemove={onRemoveFromUpNext}
+          onMove={onMoveUpNextItem}
+          onClear={onClearUpNext}
+          onClose={() => setIsUpNextOpen(false)}
+        />
+      )}
+      {isBookmarksOpen && (
+        <BookmarksPanel
+          chapters={chapters}
+          bookmarks={getSongBookmarks(bookmarks, song)}
+          currentTime={currentTime}
+          onSeek={seekTo}
+          onAdd={(note) => setBookmarks(saved => addBookmark(saved, song, currentTime, note))}
+          onUpdateNote={(id, note) => setBookmarks(saved => updateBookmarkNote(saved, song, id, note))}
+          onRemove={(id) => setBookmarks(saved => removeBookmark(saved, song, id))}
+          onClose={() => setIsBookmarksOpen(false)}
+        />
+      )}
+      {isLyricsOpen && (
+        <LyricsPanel
+          lyrics={lyrics}
+          isLoading={isLyricsLoading}
+          lrcName={getLrcName(song)}
+          currentTime={currentTime}
+          onSeek={seekTo}
+          onEdit={() => setIsLyricsEditorOpen(true)}
+          onClose={() => setIsLyricsOpen(false)}
+        />
+      )}
+      <VisualizerFullscreen
+        isOpen={isVisualizerFullscreen}
+        onClose={() => setIsVisualizerFullscreen(false)}
+        song={song}
+        audioRef={audioRef}
+        isPlaying={isPlaying}
+        togglePlayPause={togglePlayPause}
+        visualizer={visualizer}
+        onVisualizerChange={setVisualizerId}
+        palette={palette}
+      />
+      <LyricsEditor
+        isOpen={isLyricsEditorOpen}
+        onClose={() => setIsLyricsEditorOpen(false)}
+        initialLines={lyrics?.lines ?? NO_LYRICS}
+        currentTime={currentTime}
+        isPlaying={isPlaying}
+        onTogglePlay={togglePlayPause}
+        onSeek={seekTo}
+        canSave={canSaveLyrics}
+        onSave={saveLyrics}
+      />
+      <AudioSettingsModal
+        isOpen={isAudioSettingsOpen}
+        onClose={() => setIsAudioSettingsOpen(false)}
+        settings={audioSettings}
+        onChange={onAudioSettingsChange}
+        loudnessProgress={loudnessProgress}
+      />
+      <EqualizerModal
+        isOpen={isEqualizerOpen}
+        onClose={() => setIsEqualizerOpen(false)}
+        settings={audioSettings.equalizer}
+        onChange={(equalizer) => onAudioSettingsChange({ ...audioSettings, equalizer })}
+        song={song}
+      />
+      <SpeedModal
+        isOpen={isSpeedOpen}
+        onClose={() => setIsSpeedOpen(false)}
+        rate={playbackRate}
+        onRateChange={onPlaybackRateChange}
+        rateScope={rateScope}
+        onRateScopeChange={onRateScopeChange}
+        pitch={audioSettings.pitch}
+        onPitchChange={(pitch) => onAudioSettingsChange({ ...audioSettings, pitch })}
+      />
+      <LoopModal
+        isOpen={isLoopOpen}
+        onClose={() => setIsLoopOpen(false)}
+        start={loopStart}
+        end={loopEnd}
+        duration={song.duration}
+        onMarkersChange={handleMarkersChange}
+        isLooping={isLooping}
+        pass={loopPass}
+        onToggleLooping={toggleLooping}
+        practice={practice}
+        onPracticeChange={setPractice}
+        playbackRate={playbackRate}
+        regions={getSongRegions(loopRegions, song)}
+        onSaveRegion={(name) => setLoopRegions(regions => addRegion(regions, song, { name, start: loopStart!, end: loopEnd! }))}
+        onSelectRegion={selectRegion}
+        onDeleteRegion={(id) => setLoopRegions(regions => removeRegion(regions, song, id))}
+      />
+      <EffectsModal
+        isOpen={isEffectsOpen}
+        onClose={() => setIsEffectsOpen(false)}
+        settings={audioSettings.effects}
+        onChange={(effects) => onAudioSettingsChange({ ...audioSettings, effects })}
+      />
       <TimerModal isOpen={isTimerModalOpen} onClose={() => setIsTimerModalOpen(false)} onSetTimer={setSleepTimer} />
       <ArtistInfoModal isOpen={isInfoModalOpen} onClose={() => setIsInfoModalOpen(false)} artistName={song.artist} />
     </div>
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Playlist } from '../types';
+import { MusicNoteIcon, PlaylistIcon, PlusIcon, PencilIcon, TrashIcon, SearchIcon, SparklesIcon } from './Icons';
+
+interface PlaylistSidebarProps {
+  playlists: Playlist[];
+  selectedPlaylistId: string | null;
+  activePlaylistId: string | null;
+  onSelect: (playlistId: string | null) => void;
+  onCreate: (name: string) => void;
+  onCreateSmart: () => void;
+  onRename: (playlistId: string, name: string) => void;
+  onDelete: (playlistId: string) => void;
+}
+
+const PlaylistSidebar: React.FC<PlaylistSidebarProps> = ({ playlists, selectedPlaylistId, activePlaylistId, onSelect, onCreate, onCreateSmart, onRename, onDelete }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const startCreating = () => {
+    setEditingId(null);
+    setName('');
+    setIsCreating(true);
+  };
+
+  const startRenaming = (playlist: Playlist) => {
+    setIsCreating(false);
+    setName(playlist.name);
+    setEditingId(playlist.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (trimmed) {
+      if (editingId) {
+        onRename(editingId, trimmed);
+      } else {
+        onCreate(trimmed);
+      }
+    }
+    setIsCreating(false);
+    setEditingId(null);
+  };
+
+  const nameInput = (
+    <form onSubmit={handleSubmit}>
+      <input
+        type="text"
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleSubmit}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            setIsCreating(false);
+            setEditingId(null);
+          }
+        }}
+        placeholder="Playlist name"
+        className="w-full bg-gray-900/50 border border-gray-700 rounded-md px-3 py-1.5 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+    </form>
+  );
+
+  return (
+    <div className="hidden md:flex flex-col p-4 bg-black/10 rounded-lg h-full overflow-hidden">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-300">Playlists</h2>
+        <div className="flex items-center gap-1">
+          <button onClick={onCreateSmart} className="p-1 text-gray-400 hover:text-white rounded-full" aria-label="New smart playlist" title="New smart playlist">
+            <SparklesIcon className="w-5 h-5" />
+          </button>
+          <button onClick={startCreating} className="p-1 text-gray-400 hover:text-white rounded-full" aria-label="New playlist" title="New playlist">
+            <PlusIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-1 flex-grow overflow-y-auto">
+        <li
+          onClick={() => onSelect(null)}
+          className={`flex items-center gap-3 p-2 rounded-md cursor-pointer transition-colors ${
+            selectedPlaylistId === null ? 'bg-purple-600/30 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+          }`}
+        >
+          <MusicNoteIcon className="w-5 h-5 flex-shrink-0" />
+          <span className="truncate">Library</span>
+        </li>
+        {playlists.map(playlist => (
+          <li
+            key={playlist.id}
+            onClick={() => editingId !== playlist.id && onSelect(playlist.id)}
+            className={`flex items-center gap-3 p-2 rounded-md cursor-pointer transition-colors group ${
+              selectedPlaylistId === playlist.id ? 'bg-purple-600/30 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+            }`}
+          >
+            {playlist.rules ? (
+              <SparklesIcon className={`w-5 h-5 flex-shrink-0 ${activePlaylistId === playlist.id ? 'text-purple-400' : ''}`} />
+            ) : playlist.query !== undefined ? (
+              <SearchIcon className={`w-5 h-5 flex-shrink-0 ${activePlaylistId === playlist.id ? 'text-purple-400' : ''}`} />
+            ) : (
+              <PlaylistIcon className={`w-5 h-5 flex-shrink-0 ${activePlaylistId === playlist.id ? 'text-purple-400' : ''}`} />
+            )}
+            {editingId === playlist.id ? (
+              <div className="flex-grow" onClick={e => e.stopPropagation()}>{nameInput}</div>
+            ) : (
+              <>
+                <span className="flex-grow truncate" title={playlist.name}>{playlist.name}</span>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startRenaming(playlist); }}
+                    className="p-1 text-gray-400 hover:text-white rounded-full"
+                    aria-label={`Rename ${playlist.name}`}
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(playlist.id); }}
+                    className="p-1 text-gray-400 hover:text-red-500 rounded-full"
+                    aria-label={`Delete ${playlist.name}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+        {isCreating && <li className="p-2">{nameInput}</li>}
+      </ul>
+    </div>
+  );
+};
+
+export default PlaylistSidebar;
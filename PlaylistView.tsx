@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Song, Playlist, PlaylistFormat } from '../types';
+import { UNRESOLVED_ENTRY_PREFIX } from '../playlistFiles';
+import { isSmartPlaylist } from '../smartPlaylists';
+import { MusicNoteIcon, PlayIcon, CloseIcon, DragHandleIcon } from './Icons';
+
+interface PlaylistViewProps {
+  playlist: Playlist;
+  songs: Song[];
+  songIndexById: Map<string, number>;
+  currentSong: Song | null;
+  isPlaying: boolean;
+  // Plays the playlist, starting at the given position
+  onPlay: (position: number) => void;
+  onRemove: (position: number) => void;
+  onMove: (from: number, to: number) => void;
+  // Saves the playlist as a file in the music folder
+  onExport?: (format: PlaylistFormat) => void;
+  // Opens the rule editor, for smart playlists made of rules
+  onEditRules?: () => void;
+}
+
+const PlaylistView: React.FC<PlaylistViewProps> = ({ playlist, songs, songIndexById, currentSong, isPlaying, onPlay, onRemove, onMove, onExport, onEditRules }) => {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [dragOver, setDragOver] = useState<number | null>(null);
+  const isSmart = isSmartPlaylist(playlist);
+
+  const formatTime = (time: number) => {
+    if (isNaN(time)) return '0:00';
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const totalDuration = playlist.songIds.reduce((sum, id) => {
+    const index = songIndexById.get(id);
+    return sum + (index !== undefined ? songs[index].duration : 0);
+  }, 0);
+
+  const handleDrop = (position: number) => {
+    if (dragFrom !== null && dragFrom !== position) {
+      onMove(dragFrom, position);
+    }
+    setDragFrom(null);
+    setDragOver(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between mb-4 p-4 md:p-0">
+        <div className="overflow-hidden">
+          <h2 className="text-2xl font-bold truncate" title={playlist.name}>{playlist.name}</h2>
+          <p className="text-sm text-gray-400">
+            {playlist.songIds.length} {playlist.songIds.length === 1 ? 'song' : 'songs'} · {formatTime(totalDuration)}
+            {playlist.source && ` · ${playlist.source.path.join('/')}`}
+            {playlist.query !== undefined && ` · Smart playlist: ${playlist.query}`}
+            {playlist.rules && ' · Smart playlist'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {onEditRules && (
+            <button
+              onClick={onEditRules}
+              className="px-3 py-1.5 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md"
+            >
+              Edit rules
+            </button>
+          )}
+          {onExport && (
+            <div className="relative">
+              <button
+                onClick={() => setIsExportOpen(prev => !prev)}
+                className="px-3 py-1.5 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md"
+              >
+                Export
+              </button>
+              {isExportOpen && (
+                <div className="absolute right-0 top-full mt-1 w-32 bg-gray-800 border border-gray-700 rounded-md shadow-xl z-20 py-1">
+                  {(['m3u8', 'm3u', 'pls'] as PlaylistFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => { onExport(format); setIsExportOpen(false); }}
+                      className="w-full px-3 py-2 text-sm text-gray-300 hover:bg-purple-600/40 hover:text-white text-left"
+                    >
+                      .{format}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <button
+            onClick={() => onPlay(0)}
+            disabled={playlist.songIds.length === 0}
+            className="bg-purple-600 hover:bg-purple-500 text-white p-3 rounded-full shadow-lg transition-transform transform hover:scale-105 disabled:bg-gray-700 disabled:cursor-not-allowed disabled:transform-none"
+            aria-label={`Play ${playlist.name}`}
+          >
+            <PlayIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+      {playlist.songIds.length === 0 ? (
+        <div className="flex flex-col items-center justify-center flex-grow text-gray-500">
+          <MusicNoteIcon className="w-12 h-12 mb-4" />
+          <p>{isSmart ? `No songs match this ${playlist.rules ? 'playlist\'s rules' : 'search'}.` : 'This playlist is empty. Add songs from your library.'}</p>
+        </div>
+      ) : (
+        <ul className="space-y-2 flex-grow overflow-y-auto pb-24">
+          {playlist.songIds.map((songId, position) => {
+            const songIndex = songIndexById.get(songId);
+            const song = songIndex !== undefined ? songs[songIndex] : undefined;
+            const isCurrent = !!song && currentSong?.id === song.id;
+            // Entry of a playlist file that points outside the library
+            const unresolvedLocation = songId.startsWith(UNRESOLVED_ENTRY_PREFIX) ? songId.slice(UNRESOLVED_ENTRY_PREFIX.length) : null;
+            return (
+              <li
+                key={`${songId}-${position}`}
+                draggable={!isSmart}
+                onDragStart={() => setDragFrom(position)}
+                onDragOver={(e) => { e.preventDefault(); setDragOver(position); }}
+                onDragLeave={() => setDragOver(prev => (prev === position ? null : prev))}
+                onDrop={() => handleDrop(position)}
+                onDragEnd={() => { setDragFrom(null); setDragOver(null); }}
+                onClick={() => song && onPlay(position)}
+                className={`flex items-center p-3 rounded-lg transition-all duration-200 group ${
+                  song ? 'cursor-pointer' : 'cursor-default opacity-50'
+                } ${isCurrent ? 'bg-purple-600/30 text-white' : 'hover:bg-gray-700/50 text-gray-300'} ${
+                  dragOver === position && dragFrom !== position ? 'ring-2 ring-purple-500' : ''
+                }`}
+              >
+                {!isSmart && <DragHandleIcon className="w-5 h-5 text-gray-500 mr-2 flex-shrink-0 cursor-grab" />}
+                <div className="w-10 h-10 bg-gray-700 rounded-md flex items-center justify-center mr-4 flex-shrink-0">
+                  {song?.coverArt ? (
+                    <img src={song.coverArt} alt={song.album} className="w-full h-full object-cover rounded-md" />
+                  ) : (
+                    <MusicNoteIcon className="w-5 h-5 text-gray-400" />
+                  )}
+                </div>
+                <div className="flex-grow overflow-hidden">
+                  <p className="font-semibold truncate">{song ? song.name : 'Missing song'}</p>
+                  <p className="text-sm text-gray-400 truncate">
+                    {song ? song.artist : unresolvedLocation ?? 'This file is no longer in your library'}
+                    {isCurrent && isPlaying && ' · Playing'}
+                  </p>
+                </div>
+                <div className="ml-4 flex-shrink-0 flex items-center gap-3">
+                  {song && <span className="text-sm text-gray-400">{formatTime(song.duration)}</span>}
+                  {!isSmart && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onRemove(position); }}
+                      className="p-1 text-gray-400 hover:text-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                      aria-label={`Remove ${song?.name ?? 'song'} from ${playlist.name}`}
+                    >
+                      <CloseIcon className="w-5 h-5" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistView;
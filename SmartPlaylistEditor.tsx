@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { SmartPlaylistRules, SmartPlaylistSort, SmartRule, SmartRuleField, SmartRuleOperator, SmartRuleTimeUnit } from '../types';
+import { SMART_RULE_FIELDS, SMART_RULE_OPERATORS, SMART_PLAYLIST_SORTS, createRule, createRules, getFieldType } from '../smartPlaylists';
+import { PlusIcon, CloseIcon } from './Icons';
+
+interface SmartPlaylistEditorProps {
+  isOpen: boolean;
+  // The playlist being edited, or nothing to create a new one
+  initialName?: string;
+  initialRules?: SmartPlaylistRules;
+  onClose: () => void;
+  onSave: (name: string, rules: SmartPlaylistRules) => void;
+  // How many songs match, to show while editing
+  countMatches: (rules: SmartPlaylistRules) => number;
+}
+
+const selectClassName = 'bg-gray-700 rounded-md border border-gray-600 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+const inputClassName = 'bg-gray-700 rounded-md border border-gray-600 px-2 py-1.5 text-sm min-w-0 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const SmartPlaylistEditor: React.FC<SmartPlaylistEditorProps> = ({ isOpen, initialName, initialRules, onClose, onSave, countMatches }) => {
+  const [name, setName] = useState('');
+  const [rules, setRules] = useState<SmartPlaylistRules>(createRules);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialName ?? '');
+      setRules(initialRules ?? createRules());
+    }
+  }, [isOpen, initialName, initialRules]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const updateRule = (index: number, update: Partial<SmartRule>) => {
+    setRules(prev => ({ ...prev, rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)) }));
+  };
+
+  // Switching to a field of another kind starts the rule over, its operator wouldn't apply
+  const changeField = (index: number, field: SmartRuleField) => {
+    const rule = rules.rules[index];
+    if (getFieldType(field) === getFieldType(rule.field)) {
+      updateRule(index, { field });
+    } else {
+      updateRule(index, createRule(field));
+    }
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed, rules);
+    onClose();
+  };
+
+  const matchCount = countMatches(rules);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4">{initialRules ? 'Edit Smart Playlist' : 'New Smart Playlist'}</h2>
+        <input
+          type="text"
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Playlist name"
+          className="w-full p-2 mb-4 bg-gray-700 rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+
+        <div className="flex items-center gap-2 mb-3 text-sm text-gray-300">
+          <span>Match</span>
+          <select
+            value={rules.match}
+            onChange={(e) => setRules(prev => ({ ...prev, match: e.target.value as SmartPlaylistRules['match'] }))}
+            className={selectClassName}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these rules:</span>
+        </div>
+
+        <ul className="space-y-2 mb-3">
+          {rules.rules.map((rule, index) => {
+            const type = getFieldType(rule.field);
+            return (
+              <li key={index} className="flex items-center gap-2">
+                <select value={rule.field} onChange={(e) => changeField(index, e.target.value as SmartRuleField)} className={selectClassName}>
+                  {SMART_RULE_FIELDS.map(({ field, label }) => <option key={field} value={field}>{label}</option>)}
+                </select>
+                <select
+                  value={rule.operator}
+                  onChange={(e) => updateRule(index, { operator: e.target.value as SmartRuleOperator })}
+                  className={selectClassName}
+                >
+                  {SMART_RULE_OPERATORS[type].map(({ operator, label }) => <option key={operator} value={operator}>{label}</option>)}
+                </select>
+                <input
+                  type={type === 'text' ? 'text' : 'number'}
+                  value={rule.value}
+                  onChange={(e) => updateRule(index, { value: e.target.value })}
+                  min={type === 'text' ? undefined : 0}
+                  step="any"
+                  className={`${inputClassName} flex-grow w-20`}
+                />
+                {rule.operator === 'between' && (
+                  <>
+                    <span className="text-sm text-gray-400">and</span>
+                    <input
+                      type="number"
+                      value={rule.value2 ?? ''}
+                      onChange={(e) => updateRule(index, { value2: e.target.value })}
+                      step="any"
+                      className={`${inputClassName} flex-grow w-20`}
+                    />
+                  </>
+                )}
+                {type === 'date' && (
+                  <select
+                    value={rule.unit ?? 'days'}
+                    onChange={(e) => updateRule(index, { unit: e.target.value as SmartRuleTimeUnit })}
+                    className={selectClassName}
+                  >
+                    <option value="days">days</option>
+                    <option value="weeks">weeks</option>
+                    <option value="months">months</option>
+                  </select>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeRule(index)}
+                  className="p-1 text-gray-400 hover:text-red-500 rounded-full flex-shrink-0"
+                  aria-label="Remove rule"
+                >
+                  <CloseIcon className="w-5 h-5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <button
+          type="button"
+          onClick={() => setRules(prev => ({ ...prev, rules: [...prev.rules, createRule()] }))}
+          className="flex items-center gap-1 text-sm text-purple-400 hover:text-purple-300 mb-6"
+        >
+          <PlusIcon className="w-4 h-4" /> Add rule
+        </button>
+
+        <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-gray-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!rules.limit}
+              onChange={(e) => setRules(prev => ({ ...prev, limit: e.target.checked ? { value: 25, unit: 'songs' } : undefined }))}
+              className="accent-purple-500"
+            />
+            Limit to
+          </label>
+          <input
+            type="number"
+            value={rules.limit?.value ?? 25}
+            disabled={!rules.limit}
+            min="1"
+            onChange={(e) => setRules(prev => ({ ...prev, limit: prev.limit && { ...prev.limit, value: Number(e.target.value) } }))}
+            className={`${inputClassName} w-20 disabled:opacity-50`}
+          />
+          <select
+            value={rules.limit?.unit ?? 'songs'}
+            disabled={!rules.limit}
+            onChange={(e) => setRules(prev => ({ ...prev, limit: prev.limit && { ...prev.limit, unit: e.target.value as 'songs' | 'minutes' | 'hours' } }))}
+            className={`${selectClassName} disabled:opacity-50`}
+          >
+            <option value="songs">songs</option>
+            <option value="minutes">minutes</option>
+            <option value="hours">hours</option>
+          </select>
+          <span>ordered by</span>
+          <select
+            value={rules.sortBy}
+            onChange={(e) => setRules(prev => ({ ...prev, sortBy: e.target.value as SmartPlaylistSort }))}
+            className={selectClassName}
+          >
+            {SMART_PLAYLIST_SORTS.map(({ sortBy, label }) => <option key={sortBy} value={sortBy}>{label}</option>)}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm text-gray-400">{matchCount} {matchCount === 1 ? 'song matches' : 'songs match'}</span>
+          <div className="flex gap-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-4 py-2 bg-purple-600 rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SmartPlaylistEditor;
@@ -1,8 +1,11 @@
 
 
-import React from 'react';
-import { Song } from '../types';
-import { MusicNoteIcon, PlayIcon, CloseIcon, SearchIcon, TrashIcon } from './Icons';
+import React, { useMemo, useDeferredValue } from 'react';
+import { Song, Playlist, SongStats } from '../types';
+import { SearchIndex, searchSongs } from '../search';
+import { formatRelativeTime } from '../playHistory';
+import { MusicNoteIcon, PlayIcon, CloseIcon, SearchIcon, TrashIcon, RefreshIcon, PlayNextIcon, AddToQueueIcon, PlaylistAddIcon } from './Icons';
+import AddToPlaylistMenu from './AddToPlaylistMenu';
 
 interface SongListProps {
   songs: Song[];
@@ -13,22 +16,52 @@ interface SongListProps {
   onClose: () => void;
   searchTerm: string;
   onSearchTermChange: (term: string) => void;
+  searchIndex: SearchIndex;
+  // Saves the current search as a smart playlist
+  onSaveSearch: (name: string) => void;
   onSongDelete: (songIndex: number) => void;
   canDelete: boolean;
+  onRescan?: () => void;
+  onCancelRescan?: () => void;
+  isRescanning?: boolean;
+  rescanSummary?: string | null;
+  playlists: Playlist[];
+  onAddToPlaylist: (playlistId: string, songIndex: number) => void;
+  onCreatePlaylist: (name: string, songIndex: number) => void;
+  onPlayNext: (songIndex: number) => void;
+  onAddToQueue: (songIndex: number) => void;
+  songStats: Map<string, SongStats>;
 }
 
-const SongList: React.FC<SongListProps> = ({ songs, playQueue, currentSong, onSongSelect, isPlaying, onClose, searchTerm, onSearchTermChange, onSongDelete, canDelete }) => {
+const SongList: React.FC<SongListProps> = ({ songs, playQueue, currentSong, onSongSelect, isPlaying, onClose, searchTerm, onSearchTermChange, searchIndex, onSaveSearch, onSongDelete, canDelete, onRescan, onCancelRescan, isRescanning, rescanSummary, playlists, onAddToPlaylist, onCreatePlaylist, onPlayNext, onAddToQueue, songStats }) => {
 
-  const filteredQueue = playQueue.filter(songIndex => {
-    const song = songs[songIndex];
-    if (!song) return false;
-    const lowerCaseSearchTerm = searchTerm.toLowerCase();
-    return (
-        song.name.toLowerCase().includes(lowerCaseSearchTerm) ||
-        song.artist.toLowerCase().includes(lowerCaseSearchTerm) ||
-        song.album.toLowerCase().includes(lowerCaseSearchTerm)
-    );
-  });
+  // Typing stays responsive while the results catch up
+  const deferredSearchTerm = useDeferredValue(searchTerm);
+
+  const filteredQueue = useMemo(() => {
+    if (!deferredSearchTerm.trim()) return playQueue;
+    const { songIndices, isRanked } = searchSongs(searchIndex, deferredSearchTerm);
+    // Best matches first when searching for words, otherwise keep the queue order
+    if (isRanked) return songIndices;
+    const matches = new Set(songIndices);
+    return playQueue.filter(songIndex => matches.has(songIndex));
+  }, [deferredSearchTerm, playQueue, searchIndex]);
+
+  // "12 plays · 2 skips · 3 days ago", leaving out what hasn't happened
+  const describeStats = (song: Song) => {
+    const stats = songStats.get(song.id);
+    if (!stats) return '';
+    const parts: string[] = [];
+    if (stats.playCount > 0) parts.push(`${stats.playCount} ${stats.playCount === 1 ? 'play' : 'plays'}`);
+    if (stats.skipCount > 0) parts.push(`${stats.skipCount} ${stats.skipCount === 1 ? 'skip' : 'skips'}`);
+    if (stats.lastPlayed) parts.push(formatRelativeTime(stats.lastPlayed));
+    return parts.join(' · ');
+  };
+
+  const handleSaveSearch = () => {
+    const name = prompt('Name for this smart playlist:', searchTerm.trim());
+    if (name?.trim()) onSaveSearch(name.trim());
+  };
   
   const formatTime = (time: number) => {
     if (isNaN(time)) return '0:00';
@@ -41,16 +74,57 @@ const SongList: React.FC<SongListProps> = ({ songs, playQueue, currentSong, onSo
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between text-xl font-bold mb-4 sticky top-0 bg-gray-900/95 backdrop-blur-sm z-10 p-4 md:p-0 md:bg-transparent md:backdrop-blur-none">
         <h2 className="text-2xl font-bold">Your Library</h2>
+        {onRescan && (
+          <div className="flex items-center gap-3">
+            {rescanSummary && <span className="text-sm font-normal text-gray-400">{rescanSummary}</span>}
+            {isRescanning && onCancelRescan && (
+              <button
+                onClick={onCancelRescan}
+                className="px-3 py-1 text-sm font-normal bg-gray-700 hover:bg-gray-600 rounded-full transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={onRescan}
+              disabled={isRescanning}
+              className="p-2 text-gray-400 hover:text-white rounded-full disabled:cursor-not-allowed"
+              aria-label="Rescan library"
+              title="Rescan library"
+            >
+              <RefreshIcon className={`w-5 h-5 ${isRescanning ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        )}
       </div>
        <div className="relative mb-4">
         <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
         <input
           type="text"
-          placeholder="Search your library..."
+          placeholder='Search your library... e.g. artist:"Daft Punk" year:>2000 -live'
           value={searchTerm}
           onChange={(e) => onSearchTermChange(e.target.value)}
-          className="w-full bg-gray-900/50 border border-gray-700 rounded-lg pl-10 pr-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          className="w-full bg-gray-900/50 border border-gray-700 rounded-lg pl-10 pr-20 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
         />
+        {searchTerm && (
+          <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+            <button
+              onClick={handleSaveSearch}
+              className="p-1 text-gray-400 hover:text-white rounded-full"
+              aria-label="Save search as a smart playlist"
+              title="Save as smart playlist"
+            >
+              <PlaylistAddIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => onSearchTermChange('')}
+              className="p-1 text-gray-400 hover:text-white rounded-full"
+              aria-label="Clear search"
+            >
+              <CloseIcon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
       </div>
       <ul className="space-y-2 flex-grow overflow-y-auto pb-24">
         {filteredQueue.map((songIndex, queueIndex) => {
@@ -83,14 +157,39 @@ const SongList: React.FC<SongListProps> = ({ songs, playQueue, currentSong, onSo
               </div>
               <div className="flex-grow overflow-hidden">
                 <p className="font-semibold truncate">{song.name}</p>
-                <p className="text-sm text-gray-400 truncate">{song.artist}</p>
+                <p className="text-sm text-gray-400 truncate">
+                  {song.artist}
+                  {songStats.has(song.id) && <span className="text-gray-500" title="Plays, skips and last played"> · {describeStats(song)}</span>}
+                </p>
               </div>
-              <div className="ml-4 flex-shrink-0 w-20 text-right relative">
+              <div className="ml-4 flex-shrink-0 w-36 text-right relative">
                  <span className={`text-sm text-gray-400 transition-opacity ${!isCurrent ? 'group-hover:opacity-0' : ''}`}>
                     {formatTime(song.duration)}
                 </span>
                 {!isCurrent && (
                     <div className="absolute inset-0 flex items-center justify-end opacity-0 group-hover:opacity-100 transition-opacity gap-2">
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onPlayNext(songIndex); }}
+                            className="p-1 text-gray-400 hover:text-white rounded-full"
+                            aria-label={`Play ${song.name} next`}
+                            title="Play next"
+                        >
+                            <PlayNextIcon className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onAddToQueue(songIndex); }}
+                            className="p-1 text-gray-400 hover:text-white rounded-full"
+                            aria-label={`Add ${song.name} to the queue`}
+                            title="Add to queue"
+                        >
+                            <AddToQueueIcon className="w-5 h-5" />
+                        </button>
+                        <AddToPlaylistMenu
+                            playlists={playlists}
+                            onAdd={(playlistId) => onAddToPlaylist(playlistId, songIndex)}
+                            onCreate={(name) => onCreatePlaylist(name, songIndex)}
+                            label={`Add ${song.name} to a playlist`}
+                        />
                         {canDelete && (
                             <button
                                 onClick={(e) => { e.stopPropagation(); onSongDelete(songIndex); }}
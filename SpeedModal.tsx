@@ -0,0 +1,158 @@
+import React from 'react';
+import { PitchSettings } from '../types';
+import { MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE, PLAYBACK_RATE_STEP, RateScope, clampPlaybackRate } from '../playbackRates';
+import { MAX_PITCH_SHIFT } from '../pitchShifter';
+
+interface SpeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rate: number;
+  onRateChange: (rate: number) => void;
+  // What the rate is remembered for, null when the global rate applies
+  rateScope: RateScope | null;
+  onRateScopeChange: (scope: RateScope | null) => void;
+  pitch: PitchSettings;
+  onPitchChange: (pitch: PitchSettings) => void;
+}
+
+const QUICK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+const SCOPE_OPTIONS: { scope: RateScope | null; label: string }[] = [
+  { scope: null, label: 'Off' },
+  { scope: 'track', label: 'This track' },
+  { scope: 'folder', label: 'This folder' },
+];
+
+const sliderClassName = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer';
+
+const optionClassName = (selected: boolean) =>
+  `flex-1 p-1.5 rounded-md text-sm transition-colors ${selected ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`;
+
+const formatSemitones = (semitones: number) =>
+  semitones === 0 ? 'Original key' : `${semitones > 0 ? '+' : ''}${semitones} semitone${Math.abs(semitones) === 1 ? '' : 's'}`;
+
+const SpeedModal: React.FC<SpeedModalProps> = ({ isOpen, onClose, rate, onRateChange, rateScope, onRateScopeChange, pitch, onPitchChange }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  const changeRate = (value: number) => onRateChange(clampPlaybackRate(value));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-sm text-white"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-center">Playback Speed</h2>
+
+        <div className="flex items-center justify-between mb-2">
+          <button
+            onClick={() => changeRate(rate - PLAYBACK_RATE_STEP)}
+            disabled={rate <= MIN_PLAYBACK_RATE}
+            className="w-9 h-9 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50"
+            aria-label="Slower"
+          >
+            −
+          </button>
+          <span className="text-3xl font-mono font-bold">{rate.toFixed(2)}x</span>
+          <button
+            onClick={() => changeRate(rate + PLAYBACK_RATE_STEP)}
+            disabled={rate >= MAX_PLAYBACK_RATE}
+            className="w-9 h-9 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50"
+            aria-label="Faster"
+          >
+            +
+          </button>
+        </div>
+        <input
+          type="range"
+          min={MIN_PLAYBACK_RATE}
+          max={MAX_PLAYBACK_RATE}
+          step={PLAYBACK_RATE_STEP}
+          value={rate}
+          onChange={(e) => changeRate(Number(e.target.value))}
+          className={sliderClassName}
+          aria-label="Playback speed"
+        />
+        <div className="flex flex-wrap gap-1.5 mt-3 mb-6">
+          {QUICK_RATES.map(value => (
+            <button
+              key={value}
+              onClick={() => changeRate(value)}
+              className={`px-2.5 py-1 rounded-full text-xs font-mono transition-colors ${
+                rate === value ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {value}x
+            </button>
+          ))}
+        </div>
+
+        <section className="mb-6">
+          <h3 className="font-semibold mb-2">Remember speed for</h3>
+          <div className="flex gap-2">
+            {SCOPE_OPTIONS.map(({ scope, label }) => (
+              <button key={label} onClick={() => onRateScopeChange(scope)} className={optionClassName(rateScope === scope)}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {rateScope === null
+              ? 'Songs without a speed of their own play at this speed.'
+              : `This speed is used whenever ${rateScope === 'track' ? 'this track' : 'a song from this folder'} plays.`}
+          </p>
+        </section>
+
+        <section className="mb-6">
+          <h3 className="font-semibold mb-2">Pitch</h3>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pitch.preservePitch}
+              onChange={(e) => onPitchChange({ ...pitch, preservePitch: e.target.checked })}
+              className="accent-purple-600"
+            />
+            Keep the pitch when changing speed
+          </label>
+          <label className="block text-sm mt-3">
+            <span className="flex justify-between text-gray-400 mb-1">
+              <span>Transpose</span>
+              <span>{formatSemitones(pitch.semitones)}</span>
+            </span>
+            <input
+              type="range"
+              min={-MAX_PITCH_SHIFT}
+              max={MAX_PITCH_SHIFT}
+              step={1}
+              value={pitch.semitones}
+              onChange={(e) => onPitchChange({ ...pitch, semitones: Number(e.target.value) })}
+              className={sliderClassName}
+            />
+          </label>
+          {pitch.semitones !== 0 && (
+            <button
+              onClick={() => onPitchChange({ ...pitch, semitones: 0 })}
+              className="text-xs text-purple-400 hover:text-purple-300 mt-1"
+            >
+              Back to the original key
+            </button>
+          )}
+        </section>
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeedModal;
@@ -0,0 +1,220 @@
+import React, { useState, useMemo } from 'react';
+import { PlayRecord } from '../types';
+import {
+  StatsRange, StatsPeriod, TopEntry, filterPlaysByRange, getTotalListened, isListen, getListeningTimeSeries,
+  getTopArtists, getTopAlbums, getTopTracks, getHourHeatmap, getPlayYears, getYearRecap, formatListeningTime,
+} from '../listeningStats';
+import { MusicNoteIcon } from './Icons';
+
+const RANGES: { range: StatsRange; label: string }[] = [
+  { range: 'week', label: '7 days' },
+  { range: 'month', label: '30 days' },
+  { range: 'year', label: '12 months' },
+  { range: 'all', label: 'All time' },
+];
+
+// How many bars the listening time chart shows for each period
+const PERIODS: { period: StatsPeriod; label: string; count: number }[] = [
+  { period: 'day', label: 'Daily', count: 14 },
+  { period: 'week', label: 'Weekly', count: 12 },
+  { period: 'month', label: 'Monthly', count: 12 },
+];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const TOP_LENGTH = 10;
+
+interface StatsViewProps {
+  plays: PlayRecord[];
+  // Plays the song with this ID, when it's still in the library
+  onSongSelect: (songId: string) => void;
+}
+
+const formatHour = (hour: number) => new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: 'numeric' });
+
+const rangeButtonClassName = (isActive: boolean) =>
+  `px-3 py-1 text-sm rounded-full transition-colors ${isActive ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-gray-800/50 rounded-lg p-4">
+    <p className="text-2xl font-bold text-white">{value}</p>
+    <p className="text-sm text-gray-400">{label}</p>
+  </div>
+);
+
+const TopList: React.FC<{ title: string; entries: TopEntry[]; onSelect?: (entry: TopEntry) => void }> = ({ title, entries, onSelect }) => (
+  <div className="bg-gray-800/50 rounded-lg p-4 min-w-0">
+    <h3 className="font-semibold text-white mb-3">{title}</h3>
+    {entries.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing yet.</p>
+    ) : (
+      <ol className="space-y-2">
+        {entries.map((entry, position) => (
+          <li
+            key={entry.key}
+            onClick={onSelect && (() => onSelect(entry))}
+            className={`flex items-center gap-3 text-sm ${onSelect ? 'cursor-pointer hover:text-white' : ''} text-gray-300`}
+          >
+            <span className="w-5 text-right text-gray-500 flex-shrink-0">{position + 1}</span>
+            <div className="flex-grow overflow-hidden">
+              <p className="truncate">{entry.name}</p>
+              {entry.subtitle && <p className="text-xs text-gray-500 truncate">{entry.subtitle}</p>}
+            </div>
+            <span className="text-xs text-gray-400 flex-shrink-0">{entry.listens} {entry.listens === 1 ? 'play' : 'plays'}</span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+const StatsView: React.FC<StatsViewProps> = ({ plays, onSongSelect }) => {
+  const [range, setRange] = useState<StatsRange>('month');
+  const [period, setPeriod] = useState<StatsPeriod>('day');
+  const [recapYear, setRecapYear] = useState<number | null>(null);
+
+  const rangePlays = useMemo(() => filterPlaysByRange(plays, range), [plays, range]);
+  const topArtists = useMemo(() => getTopArtists(rangePlays, TOP_LENGTH), [rangePlays]);
+  const topAlbums = useMemo(() => getTopAlbums(rangePlays, TOP_LENGTH), [rangePlays]);
+  const topTracks = useMemo(() => getTopTracks(rangePlays, TOP_LENGTH), [rangePlays]);
+  const heatmap = useMemo(() => getHourHeatmap(rangePlays), [rangePlays]);
+
+  const { count } = PERIODS.find(item => item.period === period)!;
+  const series = useMemo(() => getListeningTimeSeries(plays, period, count), [plays, period, count]);
+
+  const years = useMemo(() => getPlayYears(plays), [plays]);
+  const year = recapYear !== null && years.includes(recapYear) ? recapYear : years[0];
+  const recap = useMemo(() => (year !== undefined ? getYearRecap(plays, year) : null), [plays, year]);
+
+  if (plays.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-gray-500">
+        <MusicNoteIcon className="w-12 h-12 mb-4" />
+        <p>Listening statistics will show up here once you've played some songs.</p>
+      </div>
+    );
+  }
+
+  const maxSeconds = Math.max(...series.map(bucket => bucket.seconds), 1);
+  const maxHeat = Math.max(...heatmap.flat(), 1);
+
+  return (
+    <div className="h-full overflow-y-auto pb-24 space-y-8">
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-bold text-white">Listening time</h3>
+          <div className="flex gap-2">
+            {PERIODS.map(item => (
+              <button key={item.period} onClick={() => setPeriod(item.period)} className={rangeButtonClassName(period === item.period)}>
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <div className="flex items-end gap-1 h-40">
+            {series.map(bucket => (
+              <div key={bucket.start} className="flex-1 h-full flex flex-col justify-end" title={`${bucket.label}: ${formatListeningTime(bucket.seconds)}`}>
+                <div className="bg-purple-500 rounded-t" style={{ height: `${(bucket.seconds / maxSeconds) * 100}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 mt-2">
+            {series.map(bucket => (
+              <span key={bucket.start} className="flex-1 text-center text-xs text-gray-500 truncate">{bucket.label}</span>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      <section>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <h3 className="text-lg font-bold text-white">Top listening</h3>
+          <div className="flex gap-2">
+            {RANGES.map(item => (
+              <button key={item.range} onClick={() => setRange(item.range)} className={rangeButtonClassName(range === item.range)}>
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+          <StatCard label="Listening time" value={formatListeningTime(getTotalListened(rangePlays))} />
+          <StatCard label="Plays" value={String(rangePlays.filter(isListen).length)} />
+          <StatCard label="Artists" value={String(new Set(rangePlays.map(play => play.artist)).size)} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <TopList title="Top artists" entries={topArtists} />
+          <TopList title="Top albums" entries={topAlbums} />
+          <TopList title="Top tracks" entries={topTracks} onSelect={(entry) => onSongSelect(entry.key)} />
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-lg font-bold text-white mb-3">When you listen</h3>
+        <div className="bg-gray-800/50 rounded-lg p-4 overflow-x-auto">
+          <table className="w-full border-separate" style={{ borderSpacing: 2 }}>
+            <tbody>
+              {heatmap.map((hours, day) => (
+                <tr key={day}>
+                  <th className="pr-2 text-xs font-normal text-gray-500 text-left">{WEEKDAYS[day]}</th>
+                  {hours.map((seconds, hour) => (
+                    <td
+                      key={hour}
+                      className="h-4 min-w-[0.75rem] rounded-sm bg-purple-500"
+                      style={{ opacity: seconds > 0 ? 0.15 + (seconds / maxHeat) * 0.85 : 0.05 }}
+                      title={`${WEEKDAYS[day]} ${formatHour(hour)}: ${formatListeningTime(seconds)}`}
+                    />
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <th />
+                {heatmap[0].map((_, hour) => (
+                  <td key={hour} className="text-xs text-gray-500 text-center">{hour % 6 === 0 ? hour : ''}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {recap && (
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-bold text-white">{recap.year} in review</h3>
+            {years.length > 1 && (
+              <select
+                value={recap.year}
+                onChange={(e) => setRecapYear(Number(e.target.value))}
+                className="bg-gray-700 rounded-md border border-gray-600 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {years.map(item => <option key={item} value={item}>{item}</option>)}
+              </select>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+            <StatCard label="Listening time" value={formatListeningTime(recap.seconds)} />
+            <StatCard label="Plays" value={String(recap.listens)} />
+            <StatCard label="Different songs" value={String(recap.songCount)} />
+            <StatCard label="Different artists" value={String(recap.artistCount)} />
+            <StatCard label="Longest streak" value={`${recap.longestStreak} ${recap.longestStreak === 1 ? 'day' : 'days'}`} />
+            {recap.favoriteHour !== undefined && <StatCard label="Favorite time of day" value={formatHour(recap.favoriteHour)} />}
+          </div>
+          {recap.busiestDay && (
+            <p className="text-sm text-gray-400 mb-3">
+              Your biggest day was {new Date(recap.busiestDay.date).toLocaleDateString(undefined, { month: 'long', day: 'numeric' })},
+              with {formatListeningTime(recap.busiestDay.seconds)} of music.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <TopList title="Top artists" entries={recap.topArtists} />
+            <TopList title="Top albums" entries={recap.topAlbums} />
+            <TopList title="Top tracks" entries={recap.topTracks} onSelect={(entry) => onSongSelect(entry.key)} />
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default StatsView;
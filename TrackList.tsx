@@ -0,0 +1,110 @@
+import React from 'react';
+import { Song } from '../types';
+import { MusicNoteIcon, PlayIcon, ChevronLeftIcon, AddToQueueIcon } from './Icons';
+
+interface TrackListProps {
+  title: string;
+  subtitle?: string;
+  coverArt?: string;
+  songs: Song[];
+  songIndices: number[];
+  currentSong: Song | null;
+  isPlaying: boolean;
+  // Show track numbers instead of cover art, for albums
+  showTrackNumbers?: boolean;
+  // Extra text after the artist, e.g. how often the song was played
+  getDetail?: (song: Song) => string;
+  // Plays all the songs, starting at the given position
+  onPlay: (position: number) => void;
+  onQueue: () => void;
+  onBack?: () => void;
+}
+
+const TrackList: React.FC<TrackListProps> = ({ title, subtitle, coverArt, songs, songIndices, currentSong, isPlaying, showTrackNumbers, getDetail, onPlay, onQueue, onBack }) => {
+  const formatTime = (time: number) => {
+    if (isNaN(time)) return '0:00';
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const totalDuration = songIndices.reduce((sum, index) => sum + songs[index].duration, 0);
+  // Disc numbers are only worth showing when the album has more than one
+  const hasDiscs = showTrackNumbers && new Set(songIndices.map(index => songs[index].discNumber ?? 1)).size > 1;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-4 mb-4">
+        {onBack && (
+          <button onClick={onBack} className="p-1 text-gray-400 hover:text-white rounded-full flex-shrink-0" aria-label="Back">
+            <ChevronLeftIcon className="w-6 h-6" />
+          </button>
+        )}
+        {coverArt && <img src={coverArt} alt={title} className="w-16 h-16 rounded-md object-cover flex-shrink-0" />}
+        <div className="flex-grow overflow-hidden">
+          <h2 className="text-2xl font-bold truncate" title={title}>{title}</h2>
+          <p className="text-sm text-gray-400 truncate">
+            {subtitle && `${subtitle} · `}{songIndices.length} {songIndices.length === 1 ? 'song' : 'songs'} · {formatTime(totalDuration)}
+          </p>
+        </div>
+        <button
+          onClick={onQueue}
+          disabled={songIndices.length === 0}
+          className="p-2 text-gray-400 hover:text-white rounded-full flex-shrink-0 disabled:cursor-not-allowed"
+          aria-label={`Add ${title} to the queue`}
+          title="Add to queue"
+        >
+          <AddToQueueIcon className="w-6 h-6" />
+        </button>
+        <button
+          onClick={() => onPlay(0)}
+          disabled={songIndices.length === 0}
+          className="bg-purple-600 hover:bg-purple-500 text-white p-3 rounded-full shadow-lg transition-transform transform hover:scale-105 flex-shrink-0 disabled:bg-gray-700 disabled:cursor-not-allowed disabled:transform-none"
+          aria-label={`Play ${title}`}
+        >
+          <PlayIcon className="w-6 h-6" />
+        </button>
+      </div>
+      <ul className="space-y-2 flex-grow overflow-y-auto pb-24">
+        {songIndices.map((songIndex, position) => {
+          const song = songs[songIndex];
+          const isCurrent = currentSong?.id === song.id;
+          return (
+            <li
+              key={song.id}
+              onClick={() => onPlay(position)}
+              className={`flex items-center p-3 rounded-lg cursor-pointer transition-all duration-200 ${
+                isCurrent ? 'bg-purple-600/30 text-white' : 'hover:bg-gray-700/50 text-gray-300'
+              }`}
+            >
+              {showTrackNumbers ? (
+                <span className="w-10 mr-4 text-center text-sm text-gray-400 flex-shrink-0">
+                  {hasDiscs && song.discNumber ? `${song.discNumber}-` : ''}{song.trackNumber ?? '–'}
+                </span>
+              ) : (
+                <div className="w-10 h-10 bg-gray-700 rounded-md flex items-center justify-center mr-4 flex-shrink-0">
+                  {song.coverArt ? (
+                    <img src={song.coverArt} alt={song.album} className="w-full h-full object-cover rounded-md" />
+                  ) : (
+                    <MusicNoteIcon className="w-5 h-5 text-gray-400" />
+                  )}
+                </div>
+              )}
+              <div className="flex-grow overflow-hidden">
+                <p className="font-semibold truncate">{song.name}</p>
+                <p className="text-sm text-gray-400 truncate">
+                  {showTrackNumbers ? song.artist : `${song.artist} · ${song.album}`}
+                  {getDetail && ` · ${getDetail(song)}`}
+                  {isCurrent && isPlaying && ' · Playing'}
+                </p>
+              </div>
+              <span className="ml-4 text-sm text-gray-400 flex-shrink-0">{formatTime(song.duration)}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TrackList;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Song } from '../types';
+import { MusicNoteIcon, CloseIcon, DragHandleIcon } from './Icons';
+
+interface UpNextPanelProps {
+  // Songs the user queued, played before the rest of the library or playlist
+  upNext: Song[];
+  // The next songs of the library or playlist that is playing
+  upcoming: Song[];
+  upcomingSource: string;
+  onPlay: (position: number) => void;
+  onRemove: (position: number) => void;
+  onMove: (from: number, to: number) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const UpNextPanel: React.FC<UpNextPanelProps> = ({ upNext, upcoming, upcomingSource, onPlay, onRemove, onMove, onClear, onClose }) => {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dragOver, setDragOver] = useState<number | null>(null);
+
+  const handleDrop = (position: number) => {
+    if (dragFrom !== null && dragFrom !== position) {
+      onMove(dragFrom, position);
+    }
+    setDragFrom(null);
+    setDragOver(null);
+  };
+
+  const songInfo = (song: Song) => (
+    <>
+      <div className="w-10 h-10 bg-gray-700 rounded-md flex items-center justify-center mr-3 flex-shrink-0">
+        {song.coverArt ? (
+          <img src={song.coverArt} alt={song.album} className="w-full h-full object-cover rounded-md" />
+        ) : (
+          <MusicNoteIcon className="w-5 h-5 text-gray-400" />
+        )}
+      </div>
+      <div className="flex-grow overflow-hidden">
+        <p className="font-semibold truncate">{song.name}</p>
+        <p className="text-sm text-gray-400 truncate">{song.artist}</p>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-full md:w-96 bg-gray-900/95 backdrop-blur-sm z-20 flex flex-col p-4 shadow-2xl" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Up Next</h2>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full" aria-label="Close Up Next">
+          <CloseIcon className="w-6 h-6" />
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto space-y-6">
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-bold uppercase text-gray-400">Queue</h3>
+            {upNext.length > 0 && (
+              <button onClick={onClear} className="text-sm text-gray-400 hover:text-white">Clear</button>
+            )}
+          </div>
+          {upNext.length === 0 ? (
+            <p className="text-sm text-gray-500">Use "Play next" or "Add to queue" on a song to queue it here.</p>
+          ) : (
+            <ul className="space-y-1">
+              {upNext.map((song, position) => (
+                <li
+                  key={`${song.id}-${position}`}
+                  draggable
+                  onDragStart={() => setDragFrom(position)}
+                  onDragOver={(e) => { e.preventDefault(); setDragOver(position); }}
+                  onDragLeave={() => setDragOver(prev => (prev === position ? null : prev))}
+                  onDrop={() => handleDrop(position)}
+                  onDragEnd={() => { setDragFrom(null); setDragOver(null); }}
+                  onClick={() => onPlay(position)}
+                  className={`flex items-center p-2 rounded-lg cursor-pointer transition-all duration-200 group hover:bg-gray-700/50 text-gray-300 ${
+                    dragOver === position && dragFrom !== position ? 'ring-2 ring-purple-500' : ''
+                  }`}
+                >
+                  <DragHandleIcon className="w-5 h-5 text-gray-500 mr-2 flex-shrink-0 cursor-grab" />
+                  {songInfo(song)}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRemove(position); }}
+                    className="ml-2 p-1 text-gray-400 hover:text-red-500 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={`Remove ${song.name} from the queue`}
+                  >
+                    <CloseIcon className="w-5 h-5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+        {upcoming.length > 0 && (
+          <section>
+            <h3 className="text-sm font-bold uppercase text-gray-400 mb-2 truncate">Next from {upcomingSource}</h3>
+            <ul className="space-y-1">
+              {upcoming.map((song, i) => (
+                <li key={`${song.id}-${i}`} className="flex items-center p-2 rounded-lg text-gray-400">
+                  {songInfo(song)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UpNextPanel;
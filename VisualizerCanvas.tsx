@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { AudioEngine } from '../audioEngine';
+import { Palette } from '../coverPalette';
+import { Visualizer } from '../visualizers';
+
+interface VisualizerCanvasProps {
+  audioRef: React.RefObject<AudioEngine>;
+  isPlaying: boolean;
+  visualizer: Visualizer;
+  palette: Palette;
+  className?: string;
+}
+
+// Runs `visualizer` on the engine's analyser while music plays, and clears it when it stops
+const VisualizerCanvas: React.FC<VisualizerCanvasProps> = ({ audioRef, isPlaying, visualizer, palette, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read every frame, so a new cover recolors the visualizer without restarting it
+  const paletteRef = useRef(palette);
+  paletteRef.current = palette;
+
+  useEffect(() => {
+    const analyser = audioRef.current?.analyser;
+    const canvas = canvasRef.current;
+    if (!isPlaying || !canvas || !analyser) return;
+    const renderer = visualizer.create(canvas);
+    if (!renderer) return;
+
+    const frequency = new Uint8Array(analyser.frequencyBinCount);
+    const waveform = new Uint8Array(analyser.fftSize);
+    let animationFrameId = 0;
+
+    const draw = () => {
+      animationFrameId = requestAnimationFrame(draw);
+      analyser.getByteFrequencyData(frequency);
+      analyser.getByteTimeDomainData(waveform);
+
+      // Match the element's size, so the drawing stays sharp as the layout changes
+      const scale = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * scale);
+      const height = Math.round(canvas.clientHeight * scale);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      renderer.draw({ frequency, waveform, sampleRate: analyser.context.sampleRate, palette: paletteRef.current });
+    };
+    draw();
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+      // Resizing clears the canvas whichever context it has
+      canvas.width = canvas.width;
+    };
+  }, [audioRef, isPlaying, visualizer]);
+
+  // A new canvas for every visualizer, as one may draw with WebGL and another in 2D
+  return <canvas key={visualizer.id} ref={canvasRef} className={className} />;
+};
+
+export default VisualizerCanvas;
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef } from 'react';
+import { Song } from '../types';
+import { AudioEngine } from '../audioEngine';
+import { Palette, toRgba, mixColors } from '../coverPalette';
+import { Visualizer, getVisualizers } from '../visualizers';
+import VisualizerCanvas from './VisualizerCanvas';
+import { CloseIcon, PlayIcon, PauseIcon } from './Icons';
+
+interface VisualizerFullscreenProps {
+  isOpen: boolean;
+  onClose: () => void;
+  song: Song;
+  audioRef: React.RefObject<AudioEngine>;
+  isPlaying: boolean;
+  togglePlayPause: () => void;
+  visualizer: Visualizer;
+  onVisualizerChange: (id: string) => void;
+  palette: Palette;
+}
+
+const VisualizerFullscreen: React.FC<VisualizerFullscreenProps> = ({ isOpen, onClose, song, audioRef, isPlaying, togglePlayPause, visualizer, onVisualizerChange, palette }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The player re-renders with every time update, which mustn't leave and re-enter full screen
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Takes over the screen where the browser allows it, otherwise it just covers the window
+  useEffect(() => {
+    if (!isOpen) return;
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) onCloseRef.current();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCloseRef.current();
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      window.removeEventListener('keydown', handleKeyDown);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const background = `radial-gradient(circle at center, ${toRgba(mixColors(palette.secondary, [0, 0, 0], 0.7))} 0%, rgb(0, 0, 0) 75%)`;
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-50 flex flex-col text-white" style={{ background }}>
+      <div className="flex items-center justify-between p-4">
+        <div className="flex items-center gap-3 min-w-0">
+          {song.coverArt && <img src={song.coverArt} alt="Album Art" className="w-12 h-12 rounded-md object-cover" />}
+          <div className="min-w-0">
+            <p className="font-semibold truncate">{song.name}</p>
+            <p className="text-sm text-gray-400 truncate">{song.artist}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-white rounded-full" aria-label="Close visualizer">
+          <CloseIcon className="w-7 h-7" />
+        </button>
+      </div>
+      <VisualizerCanvas
+        audioRef={audioRef}
+        isPlaying={isPlaying}
+        visualizer={visualizer}
+        palette={palette}
+        className="flex-grow w-full min-h-0"
+      />
+      <div className="flex items-center justify-center gap-3 p-4 flex-wrap">
+        <button
+          onClick={togglePlayPause}
+          className="w-10 h-10 bg-white text-gray-900 rounded-full flex items-center justify-center"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+        </button>
+        {getVisualizers().map(({ id, name }) => (
+          <button
+            key={id}
+            onClick={() => onVisualizerChange(id)}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${id === visualizer.id ? 'bg-white/20' : 'bg-white/5 hover:bg-white/10 text-gray-300'}`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VisualizerFullscreen;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { resamplePeaks } from '../waveform';
+
+interface WaveformSeekBarProps {
+  // Null while the waveform isn't ready, or for tracks without one, which get flat bars
+  peaks: Float32Array | null;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  className?: string;
+  // Overlays such as chapter ticks and loop markers, positioned over the whole bar
+  children?: React.ReactNode;
+}
+
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+// Quiet passages still get a visible bar
+const MIN_BAR_HEIGHT = 0.08;
+// How far the arrow keys move, in seconds
+const KEYBOARD_STEP = 5;
+
+const PLAYED_COLOR = 'rgb(168, 85, 247)';
+const UNPLAYED_COLOR = 'rgb(75, 85, 99)';
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+function drawWaveform(canvas: HTMLCanvasElement, peaks: Float32Array | null, progress: number) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const scale = window.devicePixelRatio || 1;
+  canvas.width = canvas.clientWidth * scale;
+  canvas.height = canvas.clientHeight * scale;
+  const { width, height } = canvas;
+  const bars = Math.max(1, Math.floor(canvas.clientWidth / (BAR_WIDTH + BAR_GAP)));
+  const heights = peaks ? resamplePeaks(peaks, bars) : new Array(bars).fill(MIN_BAR_HEIGHT);
+
+  ctx.clearRect(0, 0, width, height);
+  heights.forEach((peak, i) => {
+    const x = i * (BAR_WIDTH + BAR_GAP) * scale;
+    const barHeight = Math.max(MIN_BAR_HEIGHT, peak) * height;
+    ctx.fillStyle = (i + 0.5) / bars <= progress ? PLAYED_COLOR : UNPLAYED_COLOR;
+    ctx.fillRect(x, (height - barHeight) / 2, BAR_WIDTH * scale, barHeight);
+  });
+}
+
+// A seek bar showing the track's waveform, played part highlighted. Dragging scrubs and seeks on
+// release, hovering shows the time under the pointer.
+const WaveformSeekBar: React.FC<WaveformSeekBarProps> = ({ peaks, currentTime, duration, onSeek, className = 'h-12', children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  // Where the pointer is, and where the bar is being dragged to
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+
+  const position = scrubTime ?? currentTime;
+  const progress = duration > 0 ? Math.min(1, position / duration) : 0;
+
+  // Redrawn at the new width, the bar count follows it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (canvasRef.current) drawWaveform(canvasRef.current, peaks, progress);
+  }, [peaks, progress, width]);
+
+  const getTimeAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setScrubTime(getTimeAt(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const time = getTimeAt(e);
+    setHoverTime(time);
+    if (scrubTime !== null) setScrubTime(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubTime === null) return;
+    onSeek(getTimeAt(e));
+    setScrubTime(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const step = e.key === 'ArrowLeft' ? -KEYBOARD_STEP : KEYBOARD_STEP;
+    onSeek(Math.min(duration, Math.max(0, currentTime + step)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full cursor-pointer select-none touch-none ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setScrubTime(null)}
+      onPointerLeave={() => setHoverTime(null)}
+      onClick={e => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(position)}
+      aria-valuetext={formatTime(position)}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {children}
+      {hoverTime !== null && (
+        <div className="absolute inset-y-0 pointer-events-none" style={{ left: `${(hoverTime / (duration || 1)) * 100}%` }}>
+          <div className="absolute inset-y-0 w-px bg-white/60" />
+          <span className="absolute bottom-full mb-1 -translate-x-1/2 px-1.5 py-0.5 rounded bg-gray-900 text-white text-xs font-mono whitespace-nowrap">
+            {formatTime(hoverTime)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaveformSeekBar;
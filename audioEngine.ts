@@ -0,0 +1,674 @@
+import { Song, CrossfadeCurve, CrossfadeSettings, EqualizerCurve, EffectsSettings } from './types';
+import { getSongAlbumId } from './replayGain';
+import { getCurveFilters } from './equalizer';
+import { EffectsRack, createEffectsRack, DEFAULT_EFFECTS_SETTINGS } from './effects';
+import { PitchShifter, createPitchShifter } from './pitchShifter';
+
+export type AudioTrack = Pick<Song, 'id' | 'url' | 'gapless' | 'album' | 'artist' | 'albumArtist' | 'duration' | 'replayGain' | 'loudness'>;
+
+// Events of the playing element that are passed on to the engine's listeners. "ended" is
+// handled separately, it only gets through when there is nothing to take over.
+const FORWARDED_EVENTS = ['loadedmetadata', 'timeupdate', 'play', 'pause'];
+// How long before the end of a track (or its crossfade) the switch to the next one gets scheduled, in seconds
+const HANDOFF_LOOKAHEAD = 1;
+// Without a crossfade, the start of the next song is decoded ahead and played from memory on
+// the audio clock, so it begins on the sample the previous one ends. Its element then catches
+// up, muted, and takes over. Songs longer than this aren't decoded and start on a timer.
+const HEAD_DURATION = 6;
+const MAX_HEAD_DECODE_DURATION = 15 * 60;
+// How much faster or slower the muted element runs while it catches up
+const CATCH_UP_SPEED = 0.25;
+// Close enough for the element to take over from the decoded start, in seconds
+const TAKEOVER_TOLERANCE = 0.003;
+const TAKEOVER_FADE = 0.01;
+// Play, pause and seek fade in and out this quickly, just enough not to click
+const CLICK_FADE = 0.03;
+const FADE_CURVE_STEPS = 64;
+// Time constant of the glide to a new track gain when the settings change, in seconds
+const TRACK_GAIN_SMOOTHING = 0.05;
+// Same for equalizer changes, short enough that dragging a band feels immediate
+const EQUALIZER_SMOOTHING = 0.02;
+
+interface Deck {
+  element: HTMLAudioElement;
+  // The element alone, silenced while the decoded start of its track plays instead
+  input: GainNode | null;
+  // Volume normalization of the deck's track, created with the graph
+  level: GainNode | null;
+  // Fades the deck in and out during a crossfade, created with the graph
+  gain: GainNode | null;
+  track: AudioTrack | null;
+  // Where playback starts once the track has loaded
+  startTime: number;
+  // Encoder delay and padding left out of playback, known once the duration is
+  delay: number;
+  padding: number;
+  // The start of the track from its first sample after the delay, null while it's decoding
+  head: { track: AudioTrack; buffer: AudioBuffer | null } | null;
+}
+
+interface AudioGraph {
+  context: AudioContext;
+  // Play, pause and seek fades, for both decks
+  fader: GainNode;
+  pitch: PitchShifter;
+  // The equalizer's filters between the pitch shifter and the effects, none while it's off
+  filters: BiquadFilterNode[];
+  effects: EffectsRack;
+  analyser: AnalyserNode;
+}
+
+// Plays songs like an <audio> element, but through two of them: while one plays, the other
+// loads the next song and waits at its first sample, then takes over the moment the playing
+// one reaches its last, or crossfades into it. Both go through a Web Audio graph, whose
+// analyser feeds the visualizer, and whose clock times the switch.
+export interface AudioEngine {
+  readonly src: string;
+  readonly duration: number;
+  readonly paused: boolean;
+  currentTime: number;
+  playbackRate: number;
+  // Whether the browser keeps the pitch when the rate changes
+  preservesPitch: boolean;
+  // Semitones up or down, independent of the rate
+  pitchShift: number;
+  volume: number;
+  loop: boolean;
+  crossfade: CrossfadeSettings;
+  // While set, playback jumps back to `start` on reaching `end`, emitting "segmentrepeat",
+  // and never moves on to the next song
+  segment: { start: number; end: number } | null;
+  // The gain each track plays at, for volume normalization
+  trackGain: (track: AudioTrack) => number;
+  // Null bypasses the equalizer
+  equalizer: EqualizerCurve | null;
+  effects: EffectsSettings;
+  // Created on the first play, browsers only allow audio after a user gesture
+  readonly analyser: AnalyserNode | null;
+  // Does nothing for the song that is already playing, which is the case after a handoff
+  load: (track: AudioTrack, startTime?: number) => void;
+  // The song to continue with, or null when playback should stop at the end of this one
+  preload: (track: AudioTrack | null) => void;
+  play: () => Promise<void>;
+  pause: () => void;
+  addEventListener: (type: string, listener: () => void) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+}
+
+// Browsers that read the same headers already leave the delay and padding out of the duration
+function getTrim(duration: number, track: AudioTrack | null): { delay: number; padding: number } {
+  const gapless = track?.gapless;
+  if (!gapless || !isFinite(duration)) return { delay: 0, padding: 0 };
+  const untrimmed = gapless.delay + gapless.length + gapless.padding;
+  if (Math.abs(duration - gapless.length) < Math.abs(duration - untrimmed)) return { delay: 0, padding: 0 };
+  return { delay: gapless.delay, padding: gapless.padding };
+}
+
+function getFadeCurve(curve: CrossfadeCurve, fadeIn: boolean): Float32Array {
+  return Float32Array.from({ length: FADE_CURVE_STEPS }, (_, i) => {
+    const progress = i / (FADE_CURVE_STEPS - 1);
+    const level = fadeIn ? progress : 1 - progress;
+    return curve === 'equalPower' ? Math.sin(level * Math.PI / 2) : level;
+  });
+}
+
+const isSameAlbum = (a: AudioTrack, b: AudioTrack) => getSongAlbumId(a) === getSongAlbumId(b);
+
+// Up to `duration` seconds of `buffer` from `start` on
+function sliceBuffer(context: BaseAudioContext, buffer: AudioBuffer, start: number, duration: number): AudioBuffer {
+  const from = Math.min(buffer.length - 1, Math.round(start * buffer.sampleRate));
+  const length = Math.min(buffer.length - from, Math.round(duration * buffer.sampleRate));
+  const slice = context.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    slice.copyToChannel(buffer.getChannelData(channel).subarray(from, from + length), channel);
+  }
+  return slice;
+}
+
+// Calls back at `time` on the audio clock. Unlike a timer, it isn't held back in background
+// tabs. Returns a function that cancels it.
+function callAt(context: BaseAudioContext, time: number, callback: () => void): () => void {
+  const clock = context.createConstantSource();
+  clock.offset.value = 0;
+  clock.connect(context.destination);
+  clock.onended = () => {
+    clock.disconnect();
+    callback();
+  };
+  clock.start();
+  clock.stop(Math.max(time, context.currentTime));
+  return () => {
+    clock.onended = null;
+    clock.stop();
+    clock.disconnect();
+  };
+}
+
+export function createAudioEngine(): AudioEngine {
+  const events = new EventTarget();
+  const emit = (type: string) => events.dispatchEvent(new Event(type));
+  let graph: AudioGraph | null = null;
+  let crossfade: CrossfadeSettings = { duration: 0, curve: 'equalPower' };
+  let trackGain = (_track: AudioTrack) => 1;
+  let equalizer: EqualizerCurve | null = null;
+  let effects = DEFAULT_EFFECTS_SETTINGS;
+  let pitchShift = 0;
+  // The elements' rate, apart from while one catches up with a decoded start
+  let rate = 1;
+  let segment: { start: number; end: number } | null = null;
+  let handoffTimer: number | null = null;
+  let segmentTimer: number | null = null;
+  let pauseTimer: number | null = null;
+  let seekTimer: number | null = null;
+  let pendingSeek: number | null = null;
+  // While the previous song fades out on the standby deck, preloading waits for it.
+  // `pendingPreload` is undefined when nothing is waiting.
+  let fadeOutTimer: number | null = null;
+  let pendingPreload: AudioTrack | null | undefined;
+  // The decoded start of the next song, lined up on the standby deck to begin when the playing
+  // one ends, then playing on the active deck until its element takes over
+  let head: { deck: Deck; source: AudioBufferSourceNode; gain: GainNode; start: number } | null = null;
+  let cancelHeadClock = () => {};
+
+  const createDeck = (): Deck => {
+    const element = new Audio();
+    element.preload = 'auto';
+    return { element, input: null, level: null, gain: null, track: null, startTime: 0, delay: 0, padding: 0, head: null };
+  };
+  let active = createDeck();
+  let standby = createDeck();
+  const decks = [active, standby];
+
+  const clearTimer = (timer: number | null) => {
+    if (timer !== null) clearTimeout(timer);
+    return null;
+  };
+  const clearSegmentRepeat = () => { segmentTimer = clearTimer(segmentTimer); };
+
+  const setDeckGain = (deck: Deck, value: number) => {
+    if (!graph || !deck.gain) return;
+    deck.gain.gain.cancelScheduledValues(0);
+    deck.gain.gain.setValueAtTime(value, graph.context.currentTime);
+  };
+
+  // Drops the decoded start of `deck`'s track and lets its element be heard. While it's only
+  // lined up, the playing song goes on to its end as if it never was.
+  const stopHead = (deck: Deck) => {
+    if (!graph || !head || head.deck !== deck) return;
+    cancelHeadClock();
+    cancelHeadClock = () => {};
+    head.source.stop();
+    head.source.disconnect();
+    head.gain.disconnect();
+    head = null;
+    deck.element.playbackRate = rate;
+    deck.input!.gain.cancelScheduledValues(0);
+    deck.input!.gain.setValueAtTime(1, graph.context.currentTime);
+    if (deck === standby) setDeckGain(active, 1);
+  };
+
+  const clearHandoff = () => {
+    handoffTimer = clearTimer(handoffTimer);
+    stopHead(standby);
+  };
+
+  // Decodes the start of the deck's track, for it to follow the previous one on the audio clock
+  const decodeHead = (deck: Deck) => {
+    const { track } = deck;
+    if (!graph || !track || deck.head?.track === track || !(track.duration <= MAX_HEAD_DECODE_DURATION)) return;
+    const { context } = graph;
+    const decoding: Deck['head'] = { track, buffer: null };
+    deck.head = decoding;
+    fetch(track.url)
+      .then(response => response.arrayBuffer())
+      .then(data => context.decodeAudioData(data))
+      .then(buffer => {
+        decoding.buffer = sliceBuffer(context, buffer, getTrim(buffer.duration, track).delay, HEAD_DURATION);
+      })
+      .catch(error => console.warn("Could not decode the start of the next song, it will start on a timer:", error));
+  };
+
+  // Jumps straight to the track's gain while the deck is silent, glides there while it plays
+  const applyTrackGain = (deck: Deck, smooth = false) => {
+    if (!graph || !deck.level) return;
+    const value = deck.track ? trackGain(deck.track) : 1;
+    const { gain } = deck.level;
+    gain.cancelScheduledValues(0);
+    if (smooth) {
+      gain.setTargetAtTime(value, graph.context.currentTime, TRACK_GAIN_SMOOTHING);
+    } else {
+      gain.setValueAtTime(value, graph.context.currentTime);
+    }
+  };
+
+  // Filters are only added and removed when the number of bands changes, otherwise they glide to their new settings
+  const applyEqualizer = () => {
+    if (!graph) return;
+    const { context, pitch } = graph;
+    const specs = equalizer ? getCurveFilters(equalizer) : [];
+    const rebuild = specs.length !== graph.filters.length;
+    if (rebuild) {
+      pitch.output.disconnect();
+      graph.filters.forEach(filter => filter.disconnect());
+      graph.filters = specs.map(() => context.createBiquadFilter());
+      const last = graph.filters.reduce<AudioNode>((previous, filter) => previous.connect(filter), pitch.output);
+      last.connect(graph.effects.input);
+    }
+    const now = context.currentTime;
+    const set = (param: AudioParam, value: number) => {
+      if (rebuild) {
+        param.value = value;
+      } else {
+        param.setTargetAtTime(value, now, EQUALIZER_SMOOTHING);
+      }
+    };
+    specs.forEach(({ type, frequency, gain, q }, i) => {
+      const filter = graph!.filters[i];
+      filter.type = type;
+      set(filter.frequency, frequency);
+      set(filter.gain, gain);
+      set(filter.Q, q);
+    });
+  };
+
+  const fadeDeck = (deck: Deck, fadeIn: boolean, duration: number) => {
+    if (!graph || !deck.gain) return;
+    deck.gain.gain.cancelScheduledValues(0);
+    deck.gain.gain.setValueCurveAtTime(getFadeCurve(crossfade.curve, fadeIn), graph.context.currentTime, duration);
+  };
+
+  // Ramps the fader from where it is, or from `from`, to `value`
+  const fadeTo = (value: number, from?: number) => {
+    if (!graph) return;
+    const { gain } = graph.fader;
+    const now = graph.context.currentTime;
+    gain.cancelScheduledValues(0);
+    gain.setValueAtTime(from ?? gain.value, now);
+    gain.linearRampToValueAtTime(value, now + CLICK_FADE);
+  };
+
+  const loadDeck = (deck: Deck, track: AudioTrack | null, startTime: number) => {
+    deck.track = track;
+    deck.startTime = startTime;
+    deck.delay = 0;
+    deck.padding = 0;
+    deck.head = null;
+    setDeckGain(deck, 1);
+    applyTrackGain(deck);
+    if (track) {
+      deck.element.src = track.url;
+    } else {
+      deck.element.removeAttribute('src');
+    }
+    deck.element.load();
+    if (deck === standby) decodeHead(deck);
+  };
+
+  // Ends the fade out early when it's cut short, and loads the next song once it's over
+  const finishFadeOut = () => {
+    if (fadeOutTimer === null) return;
+    fadeOutTimer = clearTimer(fadeOutTimer);
+    standby.element.pause();
+    setDeckGain(standby, 1);
+    setDeckGain(active, 1);
+    if (pendingPreload !== undefined) {
+      loadDeck(standby, pendingPreload, 0);
+      pendingPreload = undefined;
+    }
+  };
+
+  // The next song is loaded and waiting at its start
+  const isNextReady = () =>
+    fadeOutTimer === null
+    && standby.track !== null
+    && standby.element.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA
+    && !standby.element.seeking;
+
+  // No crossfade within an album, whose songs often run into each other, nor for longer than half of either song
+  const getCrossfadeDuration = () => {
+    if (!graph || crossfade.duration <= 0 || !active.track || !standby.track || isSameAlbum(active.track, standby.track)) return 0;
+    const longest = Math.min(active.element.duration, standby.element.duration) / 2 / active.element.playbackRate;
+    return Math.min(crossfade.duration, longest) || 0;
+  };
+
+  // Lines the muted element up with the decoded start playing in its place, by running it
+  // faster or slower for a moment, then fades over to it. Takes over as it is when the
+  // decoded start is about to run out.
+  const catchUp = () => {
+    cancelHeadClock();
+    cancelHeadClock = () => {};
+    if (!graph || !head || head.deck !== active) return;
+    const { context } = graph;
+    const { element, input } = active;
+    const now = context.currentTime;
+    const position = now - head.start;
+    const drift = element.currentTime - active.delay - position;
+    const catchUpTime = Math.abs(drift) / CATCH_UP_SPEED;
+    if (Math.abs(drift) > TAKEOVER_TOLERANCE && position + catchUpTime + TAKEOVER_FADE < head.source.buffer!.duration) {
+      element.playbackRate = rate - Math.sign(drift) * CATCH_UP_SPEED;
+      cancelHeadClock = callAt(context, now + catchUpTime, () => {
+        element.playbackRate = rate;
+        catchUp();
+      });
+      return;
+    }
+    const { source, gain } = head;
+    head = null;
+    input!.gain.cancelScheduledValues(0);
+    input!.gain.setValueAtTime(0, now);
+    input!.gain.linearRampToValueAtTime(1, now + TAKEOVER_FADE);
+    gain.gain.setValueAtTime(1, now);
+    gain.gain.linearRampToValueAtTime(0, now + TAKEOVER_FADE);
+    source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
+    };
+    source.stop(now + TAKEOVER_FADE);
+  };
+
+  // Starts the decoded start of the next song on the sample the playing one ends, `remaining`
+  // seconds from now, and silences the playing one from then on
+  const lineUpHead = (remaining: number) => {
+    const buffer = standby.head?.buffer;
+    if (!graph || !buffer || !standby.input || !standby.level || !active.gain) return;
+    const { context } = graph;
+    const start = context.currentTime + remaining;
+    const gain = context.createGain();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain).connect(standby.level);
+    source.start(start);
+    standby.input.gain.cancelScheduledValues(0);
+    standby.input.gain.setValueAtTime(0, context.currentTime);
+    active.gain.gain.cancelScheduledValues(0);
+    active.gain.gain.setValueAtTime(1, context.currentTime);
+    active.gain.gain.setValueAtTime(0, start);
+    head = { deck: standby, source, gain, start };
+    cancelHeadClock = callAt(context, start, () => handOff(false));
+  };
+
+  const handOff = (canCrossfade = true) => {
+    handoffTimer = clearTimer(handoffTimer);
+    if (!isNextReady()) {
+      stopHead(standby);
+      return;
+    }
+    const finished = active;
+    const next = standby;
+    const linedUp = head?.deck === next;
+    if (linedUp) {
+      cancelHeadClock();
+      cancelHeadClock = () => {};
+    }
+    const fade = canCrossfade && !linedUp ? getCrossfadeDuration() : 0;
+    if (fade > 0) {
+      fadeDeck(finished, false, fade);
+      fadeDeck(next, true, fade);
+    }
+    next.element.play()
+      .then(() => {
+        if (linedUp) catchUp();
+      })
+      .catch(error => {
+        stopHead(next);
+        if (error.name !== 'AbortError') console.error("Error playing audio:", error);
+      });
+    // Listeners handle the end while the finished song is still the current one
+    emit('ended');
+    active = next;
+    standby = finished;
+    if (fade > 0) {
+      fadeOutTimer = window.setTimeout(finishFadeOut, fade * 1000);
+    } else {
+      // All that is left of it is padding
+      finished.element.pause();
+      if (linedUp) setDeckGain(finished, 1);
+    }
+  };
+
+  // Timeupdate fires a few times a second, too coarse to switch on. Without a crossfade, the
+  // decoded start of the next song is lined up on the audio clock, otherwise the switch is timed.
+  const scheduleHandoff = () => {
+    const { element, padding } = active;
+    const remaining = (element.duration - padding - element.currentTime) / element.playbackRate;
+    const fade = getCrossfadeDuration();
+    const isDue = remaining < fade + HANDOFF_LOOKAHEAD && !element.paused && !element.loop && !segment && isNextReady();
+    // Once lined up, the decoded start stays where it is
+    if (isDue && head?.deck === standby) return;
+    clearHandoff();
+    if (!isDue) return;
+    if (fade === 0 && !head && standby.head?.buffer && rate === 1) {
+      lineUpHead(Math.max(0, remaining));
+    } else {
+      handoffTimer = window.setTimeout(() => handOff(), Math.max(0, (remaining - fade) * 1000));
+    }
+  };
+
+  // Dips out, jumps, and comes back in. Seeks made while dipping only move the target.
+  const seek = (time: number) => {
+    if (!graph || active.element.paused) {
+      active.element.currentTime = time;
+      return;
+    }
+    pendingSeek = time;
+    if (seekTimer !== null) return;
+    fadeTo(0);
+    seekTimer = window.setTimeout(() => {
+      seekTimer = null;
+      if (pendingSeek !== null) active.element.currentTime = pendingSeek;
+      pendingSeek = null;
+      fadeTo(1);
+    }, CLICK_FADE * 1000);
+  };
+
+  const repeatSegment = () => {
+    clearSegmentRepeat();
+    if (!segment) return;
+    seek(segment.start);
+    emit('segmentrepeat');
+  };
+
+  // Timed the same way as the handoff. A seek past the end counts as reaching it.
+  const scheduleSegmentRepeat = () => {
+    clearSegmentRepeat();
+    const { element } = active;
+    if (!segment || element.paused) return;
+    const remaining = (segment.end - (pendingSeek ?? element.currentTime)) / element.playbackRate;
+    if (remaining <= 0) {
+      repeatSegment();
+    } else if (remaining < HANDOFF_LOOKAHEAD) {
+      segmentTimer = window.setTimeout(repeatSegment, remaining * 1000);
+    }
+  };
+
+  for (const deck of decks) {
+    const { element } = deck;
+    // Registered before the forwarding below, so listeners see the position it starts at
+    element.addEventListener('loadedmetadata', () => {
+      Object.assign(deck, getTrim(element.duration, deck.track));
+      element.currentTime = Math.max(deck.startTime, deck.delay);
+    });
+    for (const type of FORWARDED_EVENTS) {
+      element.addEventListener(type, () => {
+        if (deck === active) emit(type);
+      });
+    }
+    element.addEventListener('timeupdate', () => {
+      if (deck !== active) return;
+      scheduleHandoff();
+      scheduleSegmentRepeat();
+    });
+    element.addEventListener('seeking', () => {
+      if (deck !== active) return;
+      clearHandoff();
+      stopHead(active);
+      clearSegmentRepeat();
+    });
+    element.addEventListener('ended', () => {
+      if (deck !== active) return;
+      // The segment runs to the end of the song
+      if (segment) {
+        repeatSegment();
+        element.play().catch(error => console.error("Error playing audio:", error));
+        return;
+      }
+      // The timer didn't get to it in time, take over now. Too late to crossfade.
+      if (isNextReady()) {
+        handOff(false);
+      } else {
+        emit('ended');
+      }
+    });
+  }
+
+  const connect = () => {
+    if (!graph) {
+      const context = new AudioContext();
+      const fader = context.createGain();
+      const analyser = context.createAnalyser();
+      // Enough bins for the visualizers to tell apart the low notes on a log scale
+      analyser.fftSize = 2048;
+      const pitch = createPitchShifter(context);
+      const rack = createEffectsRack(context);
+      rack.output.connect(analyser);
+      analyser.connect(context.destination);
+      for (const deck of decks) {
+        deck.input = context.createGain();
+        deck.level = context.createGain();
+        deck.gain = context.createGain();
+        context.createMediaElementSource(deck.element).connect(deck.input);
+        deck.input.connect(deck.level);
+        deck.level.connect(deck.gain);
+        deck.gain.connect(fader);
+      }
+      fader.connect(pitch.input);
+      pitch.output.connect(rack.input);
+      graph = { context, fader, pitch, filters: [], effects: rack, analyser };
+      decks.forEach(deck => applyTrackGain(deck));
+      decodeHead(standby);
+      applyEqualizer();
+      rack.update(effects);
+      pitch.setShift(pitchShift);
+    }
+    if (graph.context.state === 'suspended') {
+      graph.context.resume();
+    }
+  };
+
+  return {
+    get src() { return active.track?.url ?? ''; },
+    get duration() { return active.element.duration; },
+    get paused() { return active.element.paused; },
+    get currentTime() { return pendingSeek ?? active.element.currentTime; },
+    set currentTime(time) { seek(time); },
+    get playbackRate() { return rate; },
+    // Loading a song resets the rate to the default one
+    set playbackRate(value) {
+      if (value !== rate) {
+        // The decoded start only plays at the normal rate
+        clearHandoff();
+        stopHead(active);
+      }
+      rate = value;
+      decks.forEach(({ element }) => { element.defaultPlaybackRate = element.playbackRate = rate; });
+    },
+    get preservesPitch() { return active.element.preservesPitch; },
+    set preservesPitch(preserve) { decks.forEach(({ element }) => { element.preservesPitch = preserve; }); },
+    get pitchShift() { return pitchShift; },
+    set pitchShift(semitones) {
+      pitchShift = semitones;
+      graph?.pitch.setShift(semitones);
+    },
+    get volume() { return active.element.volume; },
+    set volume(volume) { decks.forEach(({ element }) => { element.volume = volume; }); },
+    get loop() { return active.element.loop; },
+    set loop(loop) {
+      decks.forEach(({ element }) => { element.loop = loop; });
+      if (loop) clearHandoff();
+    },
+    get crossfade() { return crossfade; },
+    set crossfade(settings) { crossfade = settings; },
+    get segment() { return segment; },
+    set segment(range) {
+      segment = range;
+      clearHandoff();
+      scheduleHandoff();
+      scheduleSegmentRepeat();
+    },
+    get trackGain() { return trackGain; },
+    set trackGain(resolver) {
+      trackGain = resolver;
+      decks.forEach(deck => applyTrackGain(deck, true));
+    },
+    get equalizer() { return equalizer; },
+    set equalizer(curve) {
+      equalizer = curve;
+      applyEqualizer();
+    },
+    get effects() { return effects; },
+    set effects(settings) {
+      effects = settings;
+      graph?.effects.update(settings);
+    },
+    get analyser() { return graph?.analyser ?? null; },
+
+    load: (track, startTime = 0) => {
+      if (active.track?.url === track.url) return;
+      clearHandoff();
+      stopHead(active);
+      finishFadeOut();
+      // The segment was part of the previous song
+      segment = null;
+      clearSegmentRepeat();
+      seekTimer = clearTimer(seekTimer);
+      pendingSeek = null;
+      // Skipping to the preloaded song, it's ready to go
+      if (standby.track?.url === track.url && standby.element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        active.element.pause();
+        [active, standby] = [standby, active];
+        active.element.currentTime = Math.max(startTime, active.delay);
+        emit('loadedmetadata');
+        return;
+      }
+      loadDeck(active, track, startTime);
+    },
+
+    preload: (track) => {
+      if (fadeOutTimer !== null) {
+        pendingPreload = track;
+        return;
+      }
+      if (standby.track?.url === track?.url) return;
+      clearHandoff();
+      standby.element.pause();
+      loadDeck(standby, track, 0);
+    },
+
+    play: () => {
+      connect();
+      pauseTimer = clearTimer(pauseTimer);
+      fadeTo(1, active.element.paused ? 0 : undefined);
+      return active.element.play();
+    },
+
+    pause: () => {
+      clearHandoff();
+      stopHead(active);
+      clearSegmentRepeat();
+      finishFadeOut();
+      if (!graph || active.element.paused) {
+        active.element.pause();
+        return;
+      }
+      fadeTo(0);
+      clearTimer(pauseTimer);
+      pauseTimer = window.setTimeout(() => {
+        pauseTimer = null;
+        active.element.pause();
+      }, CLICK_FADE * 1000);
+    },
+
+    addEventListener: (type, listener) => events.addEventListener(type, listener),
+    removeEventListener: (type, listener) => events.removeEventListener(type, listener),
+  };
+}
@@ -0,0 +1,65 @@
+import { CrossfadeSettings, ReplayGainSettings, ReplayGainMode, EqualizerSettings, EffectsSettings, PitchSettings, ResumeSettings } from './types';
+import { DEFAULT_EQUALIZER_SETTINGS, sanitizeEqualizerSettings } from './equalizer';
+import { DEFAULT_EFFECTS_SETTINGS, sanitizeEffectsSettings } from './effects';
+import { MAX_PITCH_SHIFT } from './pitchShifter';
+import { MAX_RESUME_MIN_DURATION } from './bookmarks';
+
+const AUDIO_SETTINGS_KEY = 'musicPlayerAudioSettings';
+
+export const MAX_CROSSFADE_DURATION = 12;
+// The preamp goes this many dB either way
+export const MAX_PREAMP = 15;
+const REPLAY_GAIN_MODES: ReplayGainMode[] = ['off', 'track', 'album'];
+
+// How playback sounds, kept apart from the playback state since it applies to every song
+export interface AudioSettings {
+  crossfade: CrossfadeSettings;
+  replayGain: ReplayGainSettings;
+  equalizer: EqualizerSettings;
+  effects: EffectsSettings;
+  pitch: PitchSettings;
+  resume: ResumeSettings;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  crossfade: { duration: 0, curve: 'equalPower' },
+  replayGain: { mode: 'track', preamp: 0, preventClipping: true },
+  equalizer: DEFAULT_EQUALIZER_SETTINGS,
+  effects: DEFAULT_EFFECTS_SETTINGS,
+  pitch: { preservePitch: true, semitones: 0 },
+  resume: { enabled: true, minDuration: 20 },
+};
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUDIO_SETTINGS_KEY) ?? '{}');
+    const crossfade = { ...DEFAULT_AUDIO_SETTINGS.crossfade, ...saved.crossfade };
+    crossfade.duration = Math.min(MAX_CROSSFADE_DURATION, Math.max(0, Number(crossfade.duration) || 0));
+    const replayGain = { ...DEFAULT_AUDIO_SETTINGS.replayGain, ...saved.replayGain };
+    if (!REPLAY_GAIN_MODES.includes(replayGain.mode)) replayGain.mode = DEFAULT_AUDIO_SETTINGS.replayGain.mode;
+    replayGain.preamp = Math.min(MAX_PREAMP, Math.max(-MAX_PREAMP, Number(replayGain.preamp) || 0));
+    replayGain.preventClipping = replayGain.preventClipping !== false;
+    const pitch = { ...DEFAULT_AUDIO_SETTINGS.pitch, ...saved.pitch };
+    pitch.preservePitch = pitch.preservePitch !== false;
+    pitch.semitones = Math.min(MAX_PITCH_SHIFT, Math.max(-MAX_PITCH_SHIFT, Math.round(Number(pitch.semitones) || 0)));
+    const resume = { ...DEFAULT_AUDIO_SETTINGS.resume, ...saved.resume };
+    resume.enabled = resume.enabled !== false;
+    resume.minDuration = Math.min(MAX_RESUME_MIN_DURATION, Math.max(0, Number(resume.minDuration) || 0));
+    return {
+      crossfade,
+      replayGain,
+      equalizer: sanitizeEqualizerSettings(saved.equalizer),
+      effects: sanitizeEffectsSettings(saved.effects),
+      pitch,
+      resume,
+    };
+  } catch (e) {
+    console.error("Failed to load audio settings from localStorage:", e);
+    localStorage.removeItem(AUDIO_SETTINGS_KEY);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(settings));
+}
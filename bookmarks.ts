@@ -0,0 +1,108 @@
+import { Song, Bookmark, ResumeSettings } from './types';
+import { Chapter } from './metadata/index';
+import { getContentHashFromId } from './library';
+
+const BOOKMARKS_KEY = 'musicPlayerBookmarks';
+const RESUME_POSITIONS_KEY = 'musicPlayerResumePositions';
+
+export const MAX_RESUME_MIN_DURATION = 120;
+// Positions of the tracks played least recently are dropped beyond this many
+const MAX_RESUME_POSITIONS = 200;
+// A track stopped this close to its end counts as finished, and starts over next time
+const FINISHED_MARGIN = 15;
+// Going to the previous chapter this far into one restarts it instead
+const CHAPTER_RESTART_THRESHOLD = 3;
+
+// Bookmarks by content hash, so they stay with a track that's moved or renamed
+export type SavedBookmarks = Record<string, Bookmark[]>;
+
+interface ResumePosition {
+  position: number;
+  savedAt: number;
+}
+
+function loadRecord<T>(key: string, label: string): Record<string, T> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) ?? '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch (e) {
+    console.error(`Failed to load ${label} from localStorage:`, e);
+    localStorage.removeItem(key);
+    return {};
+  }
+}
+
+export const loadBookmarks = (): SavedBookmarks => loadRecord<Bookmark[]>(BOOKMARKS_KEY, 'bookmarks');
+
+export function saveBookmarks(bookmarks: SavedBookmarks) {
+  localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(bookmarks));
+}
+
+export const getSongBookmarks = (bookmarks: SavedBookmarks, song: Song) => bookmarks[getContentHashFromId(song.id)] ?? [];
+
+// Kept in order of position
+export function addBookmark(bookmarks: SavedBookmarks, song: Song, position: number, note = ''): SavedBookmarks {
+  const bookmark: Bookmark = { id: crypto.randomUUID(), position, note, createdAt: Date.now() };
+  const songBookmarks = [...getSongBookmarks(bookmarks, song), bookmark].sort((a, b) => a.position - b.position);
+  return { ...bookmarks, [getContentHashFromId(song.id)]: songBookmarks };
+}
+
+export function updateBookmarkNote(bookmarks: SavedBookmarks, song: Song, id: string, note: string): SavedBookmarks {
+  const songBookmarks = getSongBookmarks(bookmarks, song).map(bookmark => (bookmark.id === id ? { ...bookmark, note } : bookmark));
+  return { ...bookmarks, [getContentHashFromId(song.id)]: songBookmarks };
+}
+
+export function removeBookmark(bookmarks: SavedBookmarks, song: Song, id: string): SavedBookmarks {
+  const hash = getContentHashFromId(song.id);
+  const { [hash]: songBookmarks = [], ...rest } = bookmarks;
+  const remaining = songBookmarks.filter(bookmark => bookmark.id !== id);
+  return remaining.length > 0 ? { ...rest, [hash]: remaining } : rest;
+}
+
+export const isResumable = (song: Song, settings: ResumeSettings) =>
+  settings.enabled && song.duration >= settings.minDuration * 60;
+
+// Where the song left off, or 0 to start from the beginning
+export function getResumePosition(song: Song, settings: ResumeSettings): number {
+  if (!isResumable(song, settings)) return 0;
+  const saved = loadRecord<ResumePosition>(RESUME_POSITIONS_KEY, 'resume positions')[getContentHashFromId(song.id)];
+  return saved && isFinite(saved.position) ? saved.position : 0;
+}
+
+// Remembers the position of a long song, or forgets it once the song is (nearly) over.
+// Saved straight to localStorage, it's called every few seconds while playing.
+export function saveResumePosition(song: Song, position: number) {
+  const positions = loadRecord<ResumePosition>(RESUME_POSITIONS_KEY, 'resume positions');
+  const hash = getContentHashFromId(song.id);
+  delete positions[hash];
+  if (position > 0 && position < song.duration - FINISHED_MARGIN) {
+    positions[hash] = { position, savedAt: Date.now() };
+  }
+  const kept = Object.entries(positions)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_RESUME_POSITIONS);
+  localStorage.setItem(RESUME_POSITIONS_KEY, JSON.stringify(Object.fromEntries(kept)));
+}
+
+export const clearResumePosition = (song: Song) => saveResumePosition(song, 0);
+
+// The index of the chapter playing at `time`, -1 before the first one
+export function getChapterIndex(chapters: Chapter[], time: number): number {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.start <= time) index = i;
+  });
+  return index;
+}
+
+// Like the previous track button: back to the start of the chapter, or to the one before it right after it started
+export function getPreviousChapterStart(chapters: Chapter[], time: number): number {
+  const index = getChapterIndex(chapters, time);
+  if (index < 0) return 0;
+  if (time - chapters[index].start > CHAPTER_RESTART_THRESHOLD || index === 0) return chapters[index].start;
+  return chapters[index - 1].start;
+}
+
+export function getNextChapterStart(chapters: Chapter[], time: number): number | null {
+  return chapters[getChapterIndex(chapters, time) + 1]?.start ?? null;
+}
@@ -0,0 +1,130 @@
+import { Song } from './types';
+import { getAlbumId } from './db';
+
+export type BrowseView = 'songs' | 'artists' | 'albums' | 'genres' | 'years' | 'folders' | 'history' | 'stats';
+
+// A set of songs shown together, e.g. an album or everything by one artist
+export interface BrowseGroup {
+  id: string;
+  name: string;
+  subtitle?: string;
+  coverArt?: string;
+  songIndices: number[];
+}
+
+export interface FolderNode {
+  name: string;
+  path: string[];
+  folders: FolderNode[];
+  // Songs directly in this folder, in file name order
+  songIndices: number[];
+}
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+
+// Disc and track order, falling back to the file name for untagged tracks
+export const compareTrackOrder = (a: Song, b: Song) =>
+  (a.discNumber ?? 0) - (b.discNumber ?? 0) ||
+  (a.trackNumber ?? 0) - (b.trackNumber ?? 0) ||
+  compareText(a.path[a.path.length - 1], b.path[b.path.length - 1]);
+
+// Album by album, each in track order
+const compareAlbumOrder = (a: Song, b: Song) =>
+  (a.year ?? 0) - (b.year ?? 0) || compareText(a.album, b.album) || compareTrackOrder(a, b);
+
+const compareArtistOrder = (a: Song, b: Song) =>
+  compareText(a.albumArtist || a.artist, b.albumArtist || b.artist) || compareAlbumOrder(a, b);
+
+function groupSongs(songs: Song[], getKey: (song: Song) => string | undefined, compareSongs: (a: Song, b: Song) => number): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  songs.forEach((song, index) => {
+    const key = getKey(song);
+    if (key === undefined) return;
+    const group = groups.get(key);
+    if (group) group.push(index);
+    else groups.set(key, [index]);
+  });
+  groups.forEach(indices => indices.sort((a, b) => compareSongs(songs[a], songs[b])));
+  return groups;
+}
+
+const countSongs = (count: number) => `${count} ${count === 1 ? 'song' : 'songs'}`;
+
+export function groupByArtist(songs: Song[]): BrowseGroup[] {
+  return [...groupSongs(songs, song => song.artist, compareAlbumOrder)]
+    .map(([artist, songIndices]) => ({
+      id: artist,
+      name: artist,
+      subtitle: countSongs(songIndices.length),
+      coverArt: songIndices.map(index => songs[index].coverArt).find(Boolean),
+      songIndices,
+    }))
+    .sort((a, b) => compareText(a.name, b.name));
+}
+
+export function groupByAlbum(songs: Song[]): BrowseGroup[] {
+  return [...groupSongs(songs, song => getAlbumId(song.album, song.albumArtist || song.artist), compareTrackOrder)]
+    .map(([id, songIndices]) => {
+      const first = songs[songIndices[0]];
+      const year = songIndices.map(index => songs[index].year).find(Boolean);
+      return {
+        id,
+        name: first.album,
+        subtitle: year ? `${first.albumArtist || first.artist} · ${year}` : first.albumArtist || first.artist,
+        coverArt: songIndices.map(index => songs[index].coverArt).find(Boolean),
+        songIndices,
+      };
+    })
+    .sort((a, b) => compareText(a.name, b.name) || compareText(a.subtitle, b.subtitle));
+}
+
+export function groupByGenre(songs: Song[]): BrowseGroup[] {
+  return [...groupSongs(songs, song => song.genre || 'Unknown Genre', compareArtistOrder)]
+    .map(([genre, songIndices]) => ({ id: genre, name: genre, subtitle: countSongs(songIndices.length), songIndices }))
+    .sort((a, b) => compareText(a.name, b.name));
+}
+
+// Newest first, songs without a year last
+export function groupByYear(songs: Song[]): BrowseGroup[] {
+  return [...groupSongs(songs, song => (song.year ? String(song.year) : 'Unknown Year'), compareArtistOrder)]
+    .map(([year, songIndices]) => ({ id: year, name: year, subtitle: countSongs(songIndices.length), songIndices }))
+    .sort((a, b) => (Number(b.id) || 0) - (Number(a.id) || 0));
+}
+
+export function buildFolderTree(songs: Song[]): FolderNode {
+  const root: FolderNode = { name: 'Library', path: [], folders: [], songIndices: [] };
+  songs.forEach((song, index) => {
+    let node = root;
+    for (const name of song.path.slice(0, -1)) {
+      let child = node.folders.find(folder => folder.name === name);
+      if (!child) {
+        child = { name, path: [...node.path, name], folders: [], songIndices: [] };
+        node.folders.push(child);
+      }
+      node = child;
+    }
+    node.songIndices.push(index);
+  });
+
+  const sortNode = (node: FolderNode) => {
+    node.folders.sort((a, b) => compareText(a.name, b.name));
+    node.songIndices.sort((a, b) => compareText(songs[a].path[songs[a].path.length - 1], songs[b].path[songs[b].path.length - 1]));
+    node.folders.forEach(sortNode);
+  };
+  sortNode(root);
+  return root;
+}
+
+// All songs in a folder and its subfolders
+export function getFolderSongs(node: FolderNode): number[] {
+  return [...node.songIndices, ...node.folders.flatMap(getFolderSongs)];
+}
+
+export function findFolder(root: FolderNode, path: string[]): FolderNode | undefined {
+  let node: FolderNode | undefined = root;
+  for (const name of path) {
+    node = node.folders.find(folder => folder.name === name);
+    if (!node) return undefined;
+  }
+  return node;
+}
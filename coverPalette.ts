@@ -0,0 +1,82 @@
+export type Rgb = [number, number, number];
+
+// Two colors to draw with, taken from the cover art
+export interface Palette {
+  primary: Rgb;
+  secondary: Rgb;
+}
+
+// Purple, as the app used before covers had a say
+export const DEFAULT_PALETTE: Palette = {
+  primary: [192, 132, 252],
+  secondary: [124, 58, 237],
+};
+
+// The cover is scaled down to this many pixels a side before its colors are counted
+const SAMPLE_SIZE = 32;
+const HUE_BUCKETS = 12;
+// Near-black and near-white pixels say little about a cover's color
+const MIN_LIGHTNESS = 0.15;
+const MAX_LIGHTNESS = 0.9;
+// Colors are lightened to at least this much, so they show on the dark player
+const MIN_DRAW_LIGHTNESS = 0.55;
+
+export const toRgba = ([r, g, b]: Rgb, alpha = 1) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+export const mixColors = (from: Rgb, to: Rgb, amount: number): Rgb =>
+  from.map((value, i) => Math.round(value + (to[i] - value) * amount)) as Rgb;
+
+const getLightness = ([r, g, b]: Rgb) => (Math.max(r, g, b) + Math.min(r, g, b)) / 2 / 255;
+
+const brighten = (color: Rgb): Rgb => {
+  const lightness = getLightness(color);
+  return lightness >= MIN_DRAW_LIGHTNESS ? color : mixColors(color, [255, 255, 255], (MIN_DRAW_LIGHTNESS - lightness) / (1 - lightness));
+};
+
+// Pixels are grouped by hue and weighted by saturation, so the cover's most vivid common color
+// becomes the primary one and the strongest clearly different hue the secondary one. Covers
+// without much color, or that can't be read, get the default palette.
+export async function extractPalette(url: string): Promise<Palette> {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return DEFAULT_PALETTE;
+  ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  // Throws for covers from other origins
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const buckets = Array.from({ length: HUE_BUCKETS }, () => ({ weight: 0, sum: [0, 0, 0] as Rgb }));
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255, g = data[i + 1] / 255, b = data[i + 2] / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const lightness = (max + min) / 2;
+    if (max === min || lightness < MIN_LIGHTNESS || lightness > MAX_LIGHTNESS) continue;
+    const saturation = (max - min) / (1 - Math.abs(2 * lightness - 1));
+    const hue = max === r ? ((g - b) / (max - min) + 6) % 6 : max === g ? (b - r) / (max - min) + 2 : (r - g) / (max - min) + 4;
+    const bucket = buckets[Math.floor((hue / 6) * HUE_BUCKETS) % HUE_BUCKETS];
+    bucket.weight += saturation;
+    bucket.sum[0] += data[i] * saturation;
+    bucket.sum[1] += data[i + 1] * saturation;
+    bucket.sum[2] += data[i + 2] * saturation;
+  }
+
+  const ranked = buckets.map((bucket, index) => ({ ...bucket, index })).sort((a, b) => b.weight - a.weight);
+  const [first] = ranked;
+  // A handful of colored pixels don't make a colored cover
+  if (first.weight < SAMPLE_SIZE) return DEFAULT_PALETTE;
+  const average = ({ weight, sum }: { weight: number; sum: Rgb }) => sum.map(value => Math.round(value / weight)) as Rgb;
+  const primary = brighten(average(first));
+  // At least 60° around the color wheel from the primary hue
+  const second = ranked.find(bucket => {
+    const distance = Math.abs(bucket.index - first.index);
+    return bucket.weight > 0 && Math.min(distance, HUE_BUCKETS - distance) >= 2;
+  });
+  const secondary = second && second.weight >= first.weight / 10
+    ? brighten(average(second))
+    : mixColors(primary, [0, 0, 0], 0.4);
+  return { primary, secondary };
+}
@@ -1,17 +1,97 @@
-
 import { openDB, IDBPDatabase } from 'idb';
+import { Playlist, PlayRecord, TrackLoudness } from './types';
+import { Chapter, GaplessInfo, ReplayGainInfo } from './metadata/index';
 
 const DB_NAME = 'music-player-db';
+const DB_VERSION = 11;
 const STORE_NAME = 'file-handles';
 const KEY = 'directory-handle';
 
+// Library catalog stores (added in version 2)
+const TRACKS_STORE = 'tracks';
+const ALBUMS_STORE = 'albums';
+const ARTISTS_STORE = 'artists';
+const COVER_ART_STORE = 'cover-art';
+// User playlists (added in version 5)
+const PLAYLISTS_STORE = 'playlists';
+// Listening history, one record per play (added in version 7)
+const PLAYS_STORE = 'plays';
+// Waveform seek bar peaks by content hash (added in version 11)
+const WAVEFORMS_STORE = 'waveforms';
+
+// A cached track. `path` is the relative path joined with '/', and together with
+// `size` and `lastModified` it tells us whether the file on disk has changed.
+// `contentHash` identifies the file's content wherever it lives.
+export interface CatalogTrack {
+  path: string;
+  size: number;
+  lastModified: number;
+  contentHash: string;
+  name: string;
+  artist: string;
+  album: string;
+  albumArtist?: string;
+  composer?: string;
+  genre?: string;
+  year?: number;
+  trackNumber?: number;
+  discNumber?: number;
+  rating?: number;
+  duration: number;
+  gapless?: GaplessInfo;
+  replayGain?: ReplayGainInfo;
+  chapters?: Chapter[];
+  // Measured during the scan, for tracks without ReplayGain tags
+  loudness?: TrackLoudness;
+  coverArtId?: string;
+  // When the track was first added to the catalog, kept when the file changes or moves
+  addedAt: number;
+}
+
+export interface CatalogAlbum {
+  id: string;
+  name: string;
+  artist: string;
+  coverArtId?: string;
+  trackPaths: string[];
+}
+
+export interface CatalogArtist {
+  name: string;
+  albumIds: string[];
+  trackCount: number;
+}
+
 let dbPromise: Promise<IDBPDatabase<unknown>> | null = null;
 
 function getDb() {
   if (!dbPromise) {
-    dbPromise = openDB(DB_NAME, 1, {
-      upgrade(db) {
-        db.createObjectStore(STORE_NAME);
+    dbPromise = openDB(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion, _newVersion, transaction) {
+        if (oldVersion < 1) {
+          db.createObjectStore(STORE_NAME);
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore(TRACKS_STORE, { keyPath: 'path' });
+          db.createObjectStore(ALBUMS_STORE, { keyPath: 'id' });
+          db.createObjectStore(ARTISTS_STORE, { keyPath: 'name' });
+          db.createObjectStore(COVER_ART_STORE);
+        }
+        if (oldVersion >= 2 && oldVersion <= 9) {
+          // Tracks cached before version 10 lack some tags (the chapters, before version 9 the
+          // ReplayGain tags, before version 8 the gapless info, before version 6 the rating, and
+          // before version 4 the extended tags and content hash), so have them read again
+          transaction.objectStore(TRACKS_STORE).clear();
+        }
+        if (oldVersion < 5) {
+          db.createObjectStore(PLAYLISTS_STORE, { keyPath: 'id' });
+        }
+        if (oldVersion < 7) {
+          db.createObjectStore(PLAYS_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (oldVersion < 11) {
+          db.createObjectStore(WAVEFORMS_STORE);
+        }
       },
     });
   }
@@ -27,3 +107,163 @@ export async function getDirectoryHandle(): Promise<FileSystemDirectoryHandle |
   const db = await getDb();
   return db.get(STORE_NAME, KEY);
 }
+
+export const getAlbumId = (album: string, artist: string) => `${artist}\u0000${album}`;
+
+export async function getCatalogTracks(): Promise<CatalogTrack[]> {
+  const db = await getDb();
+  return db.getAll(TRACKS_STORE);
+}
+
+export async function getCatalogAlbums(): Promise<CatalogAlbum[]> {
+  const db = await getDb();
+  return db.getAll(ALBUMS_STORE);
+}
+
+export async function getCatalogArtists(): Promise<CatalogArtist[]> {
+  const db = await getDb();
+  return db.getAll(ARTISTS_STORE);
+}
+
+export async function getCoverArt(id: string): Promise<Blob | undefined> {
+  const db = await getDb();
+  return db.get(COVER_ART_STORE, id);
+}
+
+// Replaces the whole catalog with `tracks`, storing any new cover art and rebuilding
+// the album and artist indexes. Cover art and waveforms no longer belonging to a track are dropped.
+export async function saveCatalog(tracks: CatalogTrack[], newCoverArt: Map<string, Blob>): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction([TRACKS_STORE, ALBUMS_STORE, ARTISTS_STORE, COVER_ART_STORE, WAVEFORMS_STORE], 'readwrite');
+
+  const albums = new Map<string, CatalogAlbum>();
+  const artists = new Map<string, CatalogArtist>();
+  for (const track of tracks) {
+    const albumId = getAlbumId(track.album, track.artist);
+    let album = albums.get(albumId);
+    if (!album) {
+      album = { id: albumId, name: track.album, artist: track.artist, trackPaths: [] };
+      albums.set(albumId, album);
+    }
+    album.trackPaths.push(track.path);
+    album.coverArtId ??= track.coverArtId;
+
+    let artist = artists.get(track.artist);
+    if (!artist) {
+      artist = { name: track.artist, albumIds: [], trackCount: 0 };
+      artists.set(track.artist, artist);
+    }
+    if (!artist.albumIds.includes(albumId)) artist.albumIds.push(albumId);
+    artist.trackCount++;
+  }
+
+  const usedCoverArt = new Set(tracks.map(t => t.coverArtId).filter(Boolean) as string[]);
+  const coverArtStore = tx.objectStore(COVER_ART_STORE);
+  const existingCoverArt = await coverArtStore.getAllKeys();
+  const contentHashes = new Set(tracks.map(t => t.contentHash));
+  const waveformStore = tx.objectStore(WAVEFORMS_STORE);
+  const existingWaveforms = await waveformStore.getAllKeys();
+  // Tracks are updated in place rather than rewritten, so loudness measured while the
+  // library was being scanned isn't lost, even for files that moved meanwhile
+  const trackStore = tx.objectStore(TRACKS_STORE);
+  const existingTracks = new Map((await trackStore.getAll() as CatalogTrack[]).map(track => [track.path, track]));
+  const measuredLoudness = new Map([...existingTracks.values()].filter(t => t.loudness).map(t => [t.contentHash, t.loudness!]));
+  const paths = new Set(tracks.map(t => t.path));
+
+  await Promise.all([
+    ...[...existingTracks.keys()].filter(path => !paths.has(path)).map(path => trackStore.delete(path)),
+    tx.objectStore(ALBUMS_STORE).clear(),
+    tx.objectStore(ARTISTS_STORE).clear(),
+    ...existingCoverArt.filter(key => !usedCoverArt.has(key as string)).map(key => coverArtStore.delete(key)),
+    ...existingWaveforms.filter(key => !contentHashes.has(key as string)).map(key => waveformStore.delete(key)),
+  ]);
+  await Promise.all([
+    ...tracks.map(track => {
+      const loudness = track.loudness ?? measuredLoudness.get(track.contentHash);
+      return trackStore.put(loudness ? { ...track, loudness } : track);
+    }),
+    ...[...albums.values()].map(album => tx.objectStore(ALBUMS_STORE).put(album)),
+    ...[...artists.values()].map(artist => tx.objectStore(ARTISTS_STORE).put(artist)),
+    ...[...newCoverArt].filter(([id]) => usedCoverArt.has(id)).map(([id, blob]) => coverArtStore.put(blob, id)),
+  ]);
+  await tx.done;
+}
+
+// Caches the measured loudness of a track, unless it was removed or changed since
+export async function saveTrackLoudness(path: string, contentHash: string, loudness: TrackLoudness): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(TRACKS_STORE, 'readwrite');
+  const track: CatalogTrack | undefined = await tx.store.get(path);
+  if (track && track.contentHash === contentHash) await tx.store.put({ ...track, loudness });
+  await tx.done;
+}
+
+export async function getWaveform(contentHash: string): Promise<Float32Array | undefined> {
+  const db = await getDb();
+  return db.get(WAVEFORMS_STORE, contentHash);
+}
+
+export async function saveWaveform(contentHash: string, peaks: Float32Array): Promise<void> {
+  const db = await getDb();
+  await db.put(WAVEFORMS_STORE, peaks, contentHash);
+}
+
+export async function clearCatalog(): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction([TRACKS_STORE, ALBUMS_STORE, ARTISTS_STORE, COVER_ART_STORE, WAVEFORMS_STORE], 'readwrite');
+  await Promise.all([
+    tx.objectStore(TRACKS_STORE).clear(),
+    tx.objectStore(ALBUMS_STORE).clear(),
+    tx.objectStore(ARTISTS_STORE).clear(),
+    tx.objectStore(COVER_ART_STORE).clear(),
+    tx.objectStore(WAVEFORMS_STORE).clear(),
+    tx.done,
+  ]);
+}
+
+export async function getPlaylists(): Promise<Playlist[]> {
+  const db = await getDb();
+  const playlists: Playlist[] = await db.getAll(PLAYLISTS_STORE);
+  return playlists.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function savePlaylist(playlist: Playlist): Promise<void> {
+  const db = await getDb();
+  await db.put(PLAYLISTS_STORE, playlist);
+}
+
+export async function deletePlaylist(id: string): Promise<void> {
+  const db = await getDb();
+  await db.delete(PLAYLISTS_STORE, id);
+}
+
+// Every play ever recorded, oldest first
+export async function getPlays(): Promise<PlayRecord[]> {
+  const db = await getDb();
+  return db.getAll(PLAYS_STORE);
+}
+
+// Stores a play and returns its ID
+export async function addPlay(play: PlayRecord): Promise<number> {
+  const db = await getDb();
+  return db.add(PLAYS_STORE, play) as Promise<number>;
+}
+
+// Points plays of moved songs at their new song IDs
+export async function updatePlaySongIds(newIds: Map<string, string>): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(PLAYS_STORE, 'readwrite');
+  let cursor = await tx.store.openCursor();
+  while (cursor) {
+    const play: PlayRecord = cursor.value;
+    const newId = newIds.get(play.songId);
+    if (newId) await cursor.update({ ...play, songId: newId });
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+}
+
+export async function clearPlays(): Promise<void> {
+  const db = await getDb();
+  await db.clear(PLAYS_STORE);
+}
@@ -0,0 +1,252 @@
+import { EffectsSettings, ReverbImpulse } from './types';
+import { createRandom } from './shuffle';
+import { clamp } from './equalizer';
+
+export type EffectId = keyof EffectsSettings;
+
+// The order the effects are chained in. Reverb comes before the stereo effects so that
+// mono downmix and balance apply to it too, and the compressor last to catch everything.
+export const EFFECT_ORDER: EffectId[] = ['bassBoost', 'reverb', 'width', 'mono', 'balance', 'compressor'];
+
+export const MAX_BASS_BOOST = 12;
+export const MAX_WIDTH = 2;
+export const MAX_MAKEUP_GAIN = 12;
+const BASS_BOOST_FREQUENCY = 100;
+// Time constant of parameter changes while playing, quick enough to follow a slider
+const EFFECT_SMOOTHING = 0.02;
+
+export const DEFAULT_EFFECTS_SETTINGS: EffectsSettings = {
+  bassBoost: { enabled: false, gain: 6 },
+  reverb: { enabled: false, impulse: 'room', mix: 0.25 },
+  width: { enabled: false, amount: 1.5 },
+  mono: { enabled: false },
+  balance: { enabled: false, pan: 0 },
+  compressor: { enabled: false, threshold: -30, ratio: 4, makeup: 6 },
+};
+
+// The bundled impulse responses are generated rather than recorded: decaying noise whose
+// high frequencies die out faster, the way a room absorbs them
+interface ImpulseShape {
+  label: string;
+  duration: number;
+  // How steeply the tail falls off
+  decay: number;
+  // 0 keeps the tail bright, towards 1 it gets darker as it decays
+  damping: number;
+  preDelay: number;
+}
+
+export const REVERB_IMPULSES: Record<ReverbImpulse, ImpulseShape> = {
+  room: { label: 'Room', duration: 0.8, decay: 3, damping: 0.6, preDelay: 0.005 },
+  hall: { label: 'Hall', duration: 3, decay: 2.5, damping: 0.7, preDelay: 0.025 },
+  plate: { label: 'Plate', duration: 1.6, decay: 3.5, damping: 0.2, preDelay: 0 },
+};
+
+function createImpulseResponse(context: BaseAudioContext, { duration, decay, damping, preDelay }: ImpulseShape): AudioBuffer {
+  const { sampleRate } = context;
+  const length = Math.round((duration + preDelay) * sampleRate);
+  const start = Math.round(preDelay * sampleRate);
+  const buffer = context.createBuffer(2, length, sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    // Seeded, so an impulse sounds the same every time
+    const random = createRandom(channel + 1);
+    const samples = buffer.getChannelData(channel);
+    let filtered = 0;
+    for (let i = start; i < length; i++) {
+      const progress = (i - start) / (length - start);
+      // A one-pole low pass that closes as the tail goes on
+      filtered += (random() * 2 - 1 - filtered) * (1 - damping * progress);
+      samples[i] = filtered * Math.pow(1 - progress, decay);
+    }
+  }
+  return buffer;
+}
+
+interface Effect {
+  input: AudioNode;
+  output: AudioNode;
+  // `smooth` glides to the new settings instead of jumping, for changes while playing
+  update: (settings: EffectsSettings, smooth: boolean) => void;
+}
+
+type EffectFactory = (context: BaseAudioContext, setParam: (param: AudioParam, value: number, smooth: boolean) => void) => Effect;
+
+const createBassBoost: EffectFactory = (context, setParam) => {
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowshelf';
+  filter.frequency.value = BASS_BOOST_FREQUENCY;
+  return {
+    input: filter,
+    output: filter,
+    update: ({ bassBoost }, smooth) => setParam(filter.gain, bassBoost.gain, smooth),
+  };
+};
+
+// Dry and wet are mixed at equal power, so the overall level holds as the mix changes
+const createReverb: EffectFactory = (context, setParam) => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  const convolver = context.createConvolver();
+  input.connect(dry).connect(output);
+  input.connect(convolver).connect(wet).connect(output);
+  const impulses = new Map<ReverbImpulse, AudioBuffer>();
+  return {
+    input,
+    output,
+    update: ({ reverb }, smooth) => {
+      if (!impulses.has(reverb.impulse)) impulses.set(reverb.impulse, createImpulseResponse(context, REVERB_IMPULSES[reverb.impulse]));
+      const impulse = impulses.get(reverb.impulse)!;
+      if (convolver.buffer !== impulse) convolver.buffer = impulse;
+      setParam(dry.gain, Math.cos((reverb.mix * Math.PI) / 2), smooth);
+      setParam(wet.gain, Math.sin((reverb.mix * Math.PI) / 2), smooth);
+    },
+  };
+};
+
+// Each output channel gets (1 + amount) / 2 of its own side and (1 - amount) / 2 of the
+// other, which scales the difference between the channels by `amount` and keeps their sum
+const createStereoWidth: EffectFactory = (context, setParam) => {
+  // A splitter always splits discretely, so mono songs are first spread over both channels
+  // here rather than left on the first
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = 'explicit';
+  input.channelInterpretation = 'speakers';
+  const splitter = context.createChannelSplitter(2);
+  input.connect(splitter);
+  const merger = context.createChannelMerger(2);
+  const same = [context.createGain(), context.createGain()];
+  const cross = [context.createGain(), context.createGain()];
+  for (const channel of [0, 1]) {
+    splitter.connect(same[channel], channel).connect(merger, 0, channel);
+    splitter.connect(cross[channel], channel).connect(merger, 0, 1 - channel);
+  }
+  return {
+    input,
+    output: merger,
+    update: ({ width }, smooth) => {
+      same.forEach(gain => setParam(gain.gain, (1 + width.amount) / 2, smooth));
+      cross.forEach(gain => setParam(gain.gain, (1 - width.amount) / 2, smooth));
+    },
+  };
+};
+
+// A node limited to one channel mixes its input down to it, and the next node spreads it back over both
+const createMonoDownmix: EffectFactory = (context) => {
+  const mix = context.createGain();
+  mix.channelCount = 1;
+  mix.channelCountMode = 'explicit';
+  mix.channelInterpretation = 'speakers';
+  return { input: mix, output: mix, update: () => {} };
+};
+
+const createBalance: EffectFactory = (context, setParam) => {
+  const panner = context.createStereoPanner();
+  return {
+    input: panner,
+    output: panner,
+    update: ({ balance }, smooth) => setParam(panner.pan, balance.pan, smooth),
+  };
+};
+
+// Gentle settings for listening at night: quiet parts come up with the makeup gain, loud ones are held down
+const createCompressor: EffectFactory = (context, setParam) => {
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+  compressor.knee.value = 10;
+  compressor.attack.value = 0.01;
+  compressor.release.value = 0.25;
+  compressor.connect(makeup);
+  return {
+    input: compressor,
+    output: makeup,
+    update: ({ compressor: settings }, smooth) => {
+      setParam(compressor.threshold, settings.threshold, smooth);
+      setParam(compressor.ratio, settings.ratio, smooth);
+      setParam(makeup.gain, Math.pow(10, settings.makeup / 20), smooth);
+    },
+  };
+};
+
+const EFFECT_FACTORIES: Record<EffectId, EffectFactory> = {
+  bassBoost: createBassBoost,
+  reverb: createReverb,
+  width: createStereoWidth,
+  mono: createMonoDownmix,
+  balance: createBalance,
+  compressor: createCompressor,
+};
+
+export interface EffectsRack {
+  input: AudioNode;
+  output: AudioNode;
+  update: (settings: EffectsSettings) => void;
+}
+
+// Chains the enabled effects between `input` and `output`. Effects are created the first time
+// they're turned on, and the chain is only rewired when one is turned on or off.
+export function createEffectsRack(context: BaseAudioContext): EffectsRack {
+  const input = context.createGain();
+  const output = context.createGain();
+  const effects = new Map<EffectId, Effect>();
+  let chain: EffectId[] | null = null;
+
+  const setParam = (param: AudioParam, value: number, smooth: boolean) => {
+    if (smooth) {
+      param.setTargetAtTime(value, context.currentTime, EFFECT_SMOOTHING);
+    } else {
+      param.value = value;
+    }
+  };
+
+  return {
+    input,
+    output,
+    update: (settings) => {
+      const enabled = EFFECT_ORDER.filter(id => settings[id].enabled);
+      const rewire = chain === null || enabled.join() !== chain.join();
+      for (const id of enabled) {
+        let effect = effects.get(id);
+        const isNew = !effect;
+        if (!effect) effects.set(id, (effect = EFFECT_FACTORIES[id](context, setParam)));
+        effect.update(settings, !isNew);
+      }
+      if (!rewire) return;
+      input.disconnect();
+      effects.forEach(effect => effect.output.disconnect());
+      const last = enabled.reduce<AudioNode>((previous, id) => {
+        const effect = effects.get(id)!;
+        previous.connect(effect.input);
+        return effect.output;
+      }, input);
+      last.connect(output);
+      chain = enabled;
+    },
+  };
+}
+
+// Settings saved by an older version or edited by hand are brought back in range
+export function sanitizeEffectsSettings(saved: Partial<EffectsSettings> | undefined): EffectsSettings {
+  const merged = Object.fromEntries(EFFECT_ORDER.map(id => [id, { ...DEFAULT_EFFECTS_SETTINGS[id], ...saved?.[id] }])) as unknown as EffectsSettings;
+  const { bassBoost, reverb, width, mono, balance, compressor } = merged;
+  const defaults = DEFAULT_EFFECTS_SETTINGS;
+  return {
+    bassBoost: { enabled: bassBoost.enabled === true, gain: clamp(bassBoost.gain, 0, MAX_BASS_BOOST, defaults.bassBoost.gain) },
+    reverb: {
+      enabled: reverb.enabled === true,
+      impulse: reverb.impulse in REVERB_IMPULSES ? reverb.impulse : defaults.reverb.impulse,
+      mix: clamp(reverb.mix, 0, 1, defaults.reverb.mix),
+    },
+    width: { enabled: width.enabled === true, amount: clamp(width.amount, 0, MAX_WIDTH, defaults.width.amount) },
+    mono: { enabled: mono.enabled === true },
+    balance: { enabled: balance.enabled === true, pan: clamp(balance.pan, -1, 1, 0) },
+    compressor: {
+      enabled: compressor.enabled === true,
+      threshold: clamp(compressor.threshold, -60, 0, defaults.compressor.threshold),
+      ratio: clamp(compressor.ratio, 1, 20, defaults.compressor.ratio),
+      makeup: clamp(compressor.makeup, 0, MAX_MAKEUP_GAIN, defaults.compressor.makeup),
+    },
+  };
+}
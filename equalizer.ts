@@ -0,0 +1,156 @@
+import { Song, EqualizerCurve, EqualizerPreset, EqualizerSettings, ParametricBand, ParametricFilterType } from './types';
+import { getSongAlbumId } from './replayGain';
+
+// Center frequencies of the graphic bands, an octave apart
+export const GRAPHIC_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+// About an octave wide, so neighbouring bands blend into each other
+const GRAPHIC_Q = 1.41;
+export const MAX_EQ_GAIN = 12;
+export const MIN_FREQUENCY = 20;
+export const MAX_FREQUENCY = 20000;
+export const MIN_Q = 0.1;
+export const MAX_Q = 10;
+export const MAX_PARAMETRIC_BANDS = 6;
+
+export const PARAMETRIC_FILTER_TYPES: { type: ParametricFilterType; label: string }[] = [
+  { type: 'peaking', label: 'Peak' },
+  { type: 'lowshelf', label: 'Low shelf' },
+  { type: 'highshelf', label: 'High shelf' },
+  { type: 'lowpass', label: 'Low pass' },
+  { type: 'highpass', label: 'High pass' },
+  { type: 'notch', label: 'Notch' },
+];
+
+// Only these filter types boost or cut, the others shape by frequency alone
+export const hasGain = (type: ParametricFilterType) => type === 'peaking' || type === 'lowshelf' || type === 'highshelf';
+
+export const FLAT_CURVE: EqualizerCurve = { gains: GRAPHIC_FREQUENCIES.map(() => 0), bands: [] };
+
+export const BUILT_IN_PRESETS: EqualizerPreset[] = [
+  { id: 'flat', name: 'Flat', ...FLAT_CURVE },
+  { id: 'rock', name: 'Rock', gains: [5, 4, 3, 1, -1, -1, 1, 3, 4, 5], bands: [] },
+  { id: 'vocal', name: 'Vocal', gains: [-3, -2, -1, 1, 3, 4, 3, 1, 0, -1], bands: [] },
+  { id: 'bassBoost', name: 'Bass boost', gains: [7, 6, 5, 3, 1, 0, 0, 0, 0, 0], bands: [] },
+];
+
+export const DEFAULT_EQUALIZER_SETTINGS: EqualizerSettings = {
+  enabled: false,
+  curve: FLAT_CURVE,
+  presetId: 'flat',
+  userPresets: [],
+  albumPresets: {},
+  genrePresets: {},
+};
+
+export const createBand = (): ParametricBand => ({ id: crypto.randomUUID(), type: 'peaking', frequency: 1000, gain: 0, q: 1 });
+
+export const getPresets = (settings: EqualizerSettings) => [...BUILT_IN_PRESETS, ...settings.userPresets];
+
+export const findPreset = (settings: EqualizerSettings, id: string | undefined) =>
+  id === undefined ? undefined : getPresets(settings).find(preset => preset.id === id);
+
+export const getGenreKey = (genre: string) => genre.trim().toLowerCase();
+
+// The preset assigned to the song's album, or else to its genre
+export function getAutoPreset(settings: EqualizerSettings, song: Song | null): { preset: EqualizerPreset; source: 'album' | 'genre' } | null {
+  if (!song) return null;
+  const albumPreset = findPreset(settings, settings.albumPresets[getSongAlbumId(song)]);
+  if (albumPreset) return { preset: albumPreset, source: 'album' };
+  const genrePreset = song.genre ? findPreset(settings, settings.genrePresets[getGenreKey(song.genre)]) : undefined;
+  return genrePreset ? { preset: genrePreset, source: 'genre' } : null;
+}
+
+// What the equalizer should do for `song`, or null when it's off
+export function getActiveCurve(settings: EqualizerSettings, song: Song | null): EqualizerCurve | null {
+  if (!settings.enabled) return null;
+  return getAutoPreset(settings, song)?.preset ?? settings.curve;
+}
+
+export interface FilterSpec {
+  type: BiquadFilterType;
+  frequency: number;
+  gain: number;
+  q: number;
+}
+
+// The filters making up `curve`, graphic bands first
+export function getCurveFilters(curve: EqualizerCurve): FilterSpec[] {
+  return [
+    ...GRAPHIC_FREQUENCIES.map((frequency, i) => ({ type: 'peaking' as const, frequency, gain: curve.gains[i] ?? 0, q: GRAPHIC_Q })),
+    ...curve.bands.map(({ type, frequency, gain, q }) => ({ type, frequency, gain: hasGain(type) ? gain : 0, q })),
+  ];
+}
+
+// Deleting a preset also drops the albums and genres it was picked for
+export function removePreset(settings: EqualizerSettings, id: string): EqualizerSettings {
+  const keep = (assignments: Record<string, string>) =>
+    Object.fromEntries(Object.entries(assignments).filter(([, presetId]) => presetId !== id));
+  return {
+    ...settings,
+    presetId: settings.presetId === id ? null : settings.presetId,
+    userPresets: settings.userPresets.filter(preset => preset.id !== id),
+    albumPresets: keep(settings.albumPresets),
+    genrePresets: keep(settings.genrePresets),
+  };
+}
+
+// Brings a saved setting back in range, or to `fallback` if it isn't a number
+export const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const number = Number(value);
+  return isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+};
+
+function sanitizeCurve(curve: Partial<EqualizerCurve> | undefined): EqualizerCurve {
+  const types = PARAMETRIC_FILTER_TYPES.map(({ type }) => type);
+  return {
+    gains: GRAPHIC_FREQUENCIES.map((_, i) => clamp(curve?.gains?.[i], -MAX_EQ_GAIN, MAX_EQ_GAIN, 0)),
+    bands: (Array.isArray(curve?.bands) ? curve!.bands : [])
+      .filter(band => types.includes(band.type))
+      .slice(0, MAX_PARAMETRIC_BANDS)
+      .map(band => ({
+        id: String(band.id),
+        type: band.type,
+        frequency: clamp(band.frequency, MIN_FREQUENCY, MAX_FREQUENCY, 1000),
+        gain: clamp(band.gain, -MAX_EQ_GAIN, MAX_EQ_GAIN, 0),
+        q: clamp(band.q, MIN_Q, MAX_Q, 1),
+      })),
+  };
+}
+
+// Settings saved by an older version or edited by hand are brought back in range
+export function sanitizeEqualizerSettings(saved: Partial<EqualizerSettings> | undefined): EqualizerSettings {
+  const settings = { ...DEFAULT_EQUALIZER_SETTINGS, ...saved };
+  return {
+    enabled: settings.enabled === true,
+    curve: sanitizeCurve(settings.curve),
+    presetId: typeof settings.presetId === 'string' ? settings.presetId : null,
+    userPresets: (Array.isArray(settings.userPresets) ? settings.userPresets : [])
+      .map(preset => ({ id: String(preset.id), name: String(preset.name), ...sanitizeCurve(preset) })),
+    albumPresets: { ...settings.albumPresets },
+    genrePresets: { ...settings.genrePresets },
+  };
+}
+
+// Frequencies spread evenly on a log scale, for drawing the response
+export const getLogFrequencies = (count: number) =>
+  Float32Array.from({ length: count }, (_, i) => MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, i / (count - 1)));
+
+let responseContext: OfflineAudioContext | null = null;
+
+// The combined gain in dB of every filter of `curve` at each frequency, as the browser's own filters compute it
+export function getCurveResponse(curve: EqualizerCurve, frequencies: Float32Array): Float32Array {
+  responseContext ??= new OfflineAudioContext(1, 1, 44100);
+  const total = new Float32Array(frequencies.length);
+  const magnitude = new Float32Array(frequencies.length);
+  const phase = new Float32Array(frequencies.length);
+  for (const { type, frequency, gain, q } of getCurveFilters(curve)) {
+    const filter = responseContext.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.gain.value = gain;
+    filter.Q.value = q;
+    filter.getFrequencyResponse(frequencies, magnitude, phase);
+    magnitude.forEach((value, i) => { total[i] += 20 * Math.log10(Math.max(value, 1e-6)); });
+  }
+  return total;
+}
@@ -0,0 +1,299 @@
+import { CatalogTrack, getCoverArt } from './db';
+import { measureLoudness } from './loudness';
+import { LoudnessInput } from './loudnessWorker';
+import { readSongTags, SongTags } from './songTags';
+import { TrackLoudness } from './types';
+import { createWorkerRunner } from './workerRunner';
+
+export interface LibraryFileEntry {
+  file: File;
+  path: string[];
+}
+
+export interface ScannedTrack {
+  track: CatalogTrack;
+  picture?: Blob;
+}
+
+export interface ScanProgress {
+  scanned: number;
+  total: number;
+  currentFolder: string;
+}
+
+export interface ScanOptions {
+  // Maximum number of files being read at the same time
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+export const DEFAULT_SCAN_CONCURRENCY = Math.min(4, navigator.hardwareConcurrency || 2);
+
+export interface LibraryDiff {
+  added: LibraryFileEntry[];
+  removed: CatalogTrack[];
+  modified: LibraryFileEntry[];
+  moved: { from: CatalogTrack; to: LibraryFileEntry }[];
+}
+
+export const getTrackKey = (path: string[]) => path.join('/');
+
+const PLAYLIST_FILE_PATTERN = /\.(m3u8?|pls)$/i;
+
+// A recursive function to get all files from a directory handle. Playlist files are
+// collected into `playlistFiles` when given.
+export async function getFilesRecursively(directoryHandle: FileSystemDirectoryHandle, currentPath: string[] = [], playlistFiles?: LibraryFileEntry[]): Promise<LibraryFileEntry[]> {
+  const files: LibraryFileEntry[] = [];
+  for await (const entry of directoryHandle.values()) {
+    if (entry.kind === 'file') {
+      // Playlist files may report an audio MIME type (audio/x-mpegurl), so check them first
+      if (PLAYLIST_FILE_PATTERN.test(entry.name)) {
+        playlistFiles?.push({ file: await entry.getFile(), path: [...currentPath, entry.name] });
+        continue;
+      }
+      const file = await entry.getFile();
+      if (file.type.startsWith('audio/')) {
+        files.push({ file, path: [...currentPath, entry.name] });
+      }
+    } else if (entry.kind === 'directory') {
+      files.push(...await getFilesRecursively(entry, [...currentPath, entry.name], playlistFiles));
+    }
+  }
+  return files;
+}
+
+// Opens the catalog's files at their saved paths without walking the folder, so a cached
+// library can be shown right away. Files that are gone are left out.
+export async function getCatalogEntries(root: FileSystemDirectoryHandle, tracks: CatalogTrack[]): Promise<{ entry: LibraryFileEntry; track: CatalogTrack }[]> {
+  const directories = new Map<string, Promise<FileSystemDirectoryHandle>>();
+  const getDirectory = (path: string[]): Promise<FileSystemDirectoryHandle> => {
+    if (path.length === 0) return Promise.resolve(root);
+    const key = getTrackKey(path);
+    if (!directories.has(key)) {
+      directories.set(key, getDirectory(path.slice(0, -1)).then(parent => parent.getDirectoryHandle(path[path.length - 1])));
+    }
+    return directories.get(key)!;
+  };
+  const entries = await Promise.all(tracks.map(async track => {
+    const path = track.path.split('/');
+    try {
+      const directory = await getDirectory(path.slice(0, -1));
+      const file = await (await directory.getFileHandle(path[path.length - 1])).getFile();
+      return { entry: { file, path }, track };
+    } catch (e) {
+      if ((e as DOMException).name === 'NotFoundError') return null;
+      throw e;
+    }
+  }));
+  return entries.filter((entry): entry is { entry: LibraryFileEntry; track: CatalogTrack } => entry !== null);
+}
+
+// Cover art is stored once per unique image, keyed by a hash of its bytes
+async function getCoverArtId(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Bytes hashed from each end of a file to identify its content
+const CONTENT_HASH_SAMPLE_SIZE = 64 * 1024;
+
+// Hashes the size and the first and last 64 KB of the file. This tells files apart
+// without reading them whole, and survives renames and moves.
+async function getContentHash(file: File): Promise<string> {
+  const head = await file.slice(0, CONTENT_HASH_SAMPLE_SIZE).arrayBuffer();
+  const tail = await file.slice(Math.max(CONTENT_HASH_SAMPLE_SIZE, file.size - CONTENT_HASH_SAMPLE_SIZE)).arrayBuffer();
+  const size = new TextEncoder().encode(String(file.size));
+  const digest = await crypto.subtle.digest('SHA-1', await new Blob([size, head, tail]).arrayBuffer());
+  return Array.from(new Uint8Array(digest).subarray(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 32-bit FNV-1a, used to keep path-derived IDs short
+function hashString(value: string): string {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// A song's ID combines its content hash with its relative path, so identical files in
+// different folders stay distinct. Use `getContentHashFromId` to follow a moved file.
+export const getSongId = (contentHash: string, path: string[]) => `${contentHash}-${hashString(getTrackKey(path))}`;
+
+export const getContentHashFromId = (id: string) => id.split('-')[0];
+
+// Reads tags in a dedicated worker, or on the main thread if the worker can't be started or fails
+const createTagReader = () => createWorkerRunner<File, SongTags>({
+  name: 'Metadata',
+  createWorker: () => new Worker(new URL('./metadataWorker.ts', import.meta.url), { type: 'module' }),
+  runOnMainThread: readSongTags,
+});
+
+// Decoded audio takes about 21 MB per stereo minute, longer songs aren't measured
+export const MAX_LOUDNESS_DURATION = 15 * 60;
+const LOUDNESS_SAMPLE_RATE = 44100;
+
+// Measures in a dedicated worker, or on the main thread if the worker can't be started or fails
+export const createLoudnessMeter = () => createWorkerRunner<LoudnessInput, TrackLoudness | null>({
+  name: 'Loudness',
+  createWorker: () => new Worker(new URL('./loudnessWorker.ts', import.meta.url), { type: 'module' }),
+  runOnMainThread: ({ channels, sampleRate }) => measureLoudness(channels, sampleRate),
+  getTransfer: ({ channels }) => channels.map(samples => samples.buffer),
+});
+
+// Decodes the audio here, as workers have no OfflineAudioContext, and has `measure` work out its loudness
+export async function measureAudioLoudness(data: ArrayBuffer, measure: (input: LoudnessInput) => Promise<TrackLoudness | null>): Promise<TrackLoudness | null> {
+  const buffer = await new OfflineAudioContext(1, 1, LOUDNESS_SAMPLE_RATE).decodeAudioData(data);
+  // Copied so they can be handed over to the worker
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel).slice());
+  return measure({ channels, sampleRate: buffer.sampleRate });
+}
+
+// Reads the tags and duration of a single file into a catalog entry. With `measure`, the
+// loudness of files without ReplayGain tags is measured too.
+export async function readTrack({ file, path }: LibraryFileEntry, readTags: (file: File) => Promise<SongTags> = readSongTags, measure?: (file: File) => Promise<TrackLoudness | null>): Promise<ScannedTrack> {
+  const { picture, ...tags } = await readTags(file);
+  let loudness: TrackLoudness | undefined;
+  if (measure && tags.replayGain?.trackGain === undefined && tags.duration <= MAX_LOUDNESS_DURATION) {
+    try {
+      loudness = await measure(file) ?? undefined;
+    } catch (e) {
+      if ((e as DOMException).name === 'AbortError') throw e;
+      console.warn(`Could not analyze the loudness of ${getTrackKey(path)}:`, e);
+    }
+  }
+  return {
+    track: {
+      ...tags,
+      loudness,
+      path: getTrackKey(path),
+      size: file.size,
+      lastModified: file.lastModified,
+      contentHash: await getContentHash(file),
+      addedAt: Date.now(),
+      coverArtId: picture ? await getCoverArtId(picture) : undefined,
+    },
+    picture,
+  };
+}
+
+// Reads every entry with at most `concurrency` files in flight, each slot owning one
+// tag worker. Loudness is measured one file at a time whatever the concurrency, as each
+// decoded file takes tens of megabytes. Results keep the order of `entries`. Rejects with
+// an AbortError when `signal` is aborted.
+export async function scanTracks(entries: LibraryFileEntry[], { concurrency = DEFAULT_SCAN_CONCURRENCY, signal, onProgress }: ScanOptions = {}): Promise<ScannedTrack[]> {
+  const results: ScannedTrack[] = new Array(entries.length);
+  const readers: ReturnType<typeof createTagReader>[] = [];
+  const meter = createLoudnessMeter();
+  let measuring: Promise<unknown> = Promise.resolve();
+  let nextIndex = 0;
+  let scanned = 0;
+
+  const measure = (file: File) => {
+    const result = measuring.then(async () => {
+      signal?.throwIfAborted();
+      return measureAudioLoudness(await file.arrayBuffer(), meter.run);
+    });
+    measuring = result.catch(() => {});
+    return result;
+  };
+
+  const report = (entry: LibraryFileEntry) => onProgress?.({
+    scanned,
+    total: entries.length,
+    currentFolder: entry.path.slice(0, -1).join('/'),
+  });
+
+  const runSlot = async () => {
+    const reader = createTagReader();
+    readers.push(reader);
+    while (nextIndex < entries.length) {
+      signal?.throwIfAborted();
+      const index = nextIndex++;
+      report(entries[index]);
+      results[index] = await readTrack(entries[index], reader.run, measure);
+      scanned++;
+    }
+  };
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new DOMException('Scan cancelled', 'AbortError'));
+    signal?.addEventListener('abort', onAbort);
+  });
+
+  try {
+    signal?.throwIfAborted();
+    const slots = Array.from({ length: Math.min(Math.max(1, concurrency), entries.length) }, runSlot);
+    await Promise.race([Promise.all(slots), aborted]);
+    if (entries.length > 0) report(entries[entries.length - 1]);
+    return results;
+  } finally {
+    signal?.removeEventListener('abort', onAbort!);
+    readers.forEach(reader => reader.terminate());
+    meter.terminate();
+  }
+}
+
+export const isTrackUpToDate = (track: CatalogTrack, file: File) =>
+  track.size === file.size && track.lastModified === file.lastModified;
+
+// Returns a resolver that creates one object URL per cover art image, so every song
+// of an album shares the same URL. `pending` holds art not yet written to the catalog.
+export function createCoverArtResolver(pending: Map<string, Blob>) {
+  const urls = new Map<string, Promise<string | undefined>>();
+  return (id: string | undefined): Promise<string | undefined> => {
+    if (!id) return Promise.resolve(undefined);
+    if (!urls.has(id)) {
+      urls.set(id, (async () => {
+        const blob = pending.get(id) ?? await getCoverArt(id);
+        return blob ? URL.createObjectURL(blob) : undefined;
+      })());
+    }
+    return urls.get(id)!;
+  };
+}
+
+// Compares the files currently on disk with the previous catalog. A file that disappeared
+// from one path and appeared at another with the same content hash is reported as moved
+// rather than as a removal plus an addition. Only files with the same size and modification
+// time are hashed, as others can't be the same file.
+export async function diffLibrary(previous: CatalogTrack[], current: LibraryFileEntry[]): Promise<LibraryDiff> {
+  const previousByPath = new Map(previous.map(track => [track.path, track]));
+  const currentPaths = new Set(current.map(entry => getTrackKey(entry.path)));
+
+  const added: LibraryFileEntry[] = [];
+  const modified: LibraryFileEntry[] = [];
+  for (const entry of current) {
+    const track = previousByPath.get(getTrackKey(entry.path));
+    if (!track) {
+      added.push(entry);
+    } else if (!isTrackUpToDate(track, entry.file)) {
+      modified.push(entry);
+    }
+  }
+
+  const removed = previous.filter(track => !currentPaths.has(track.path));
+  const moved: LibraryDiff['moved'] = [];
+  const addedHashes = new Map<LibraryFileEntry, Promise<string>>();
+  const getAddedHash = (entry: LibraryFileEntry) => {
+    if (!addedHashes.has(entry)) addedHashes.set(entry, getContentHash(entry.file));
+    return addedHashes.get(entry)!;
+  };
+  for (let i = removed.length - 1; i >= 0; i--) {
+    const from = removed[i];
+    let addedIndex = -1;
+    for (let j = 0; j < added.length && addedIndex === -1; j++) {
+      if (isTrackUpToDate(from, added[j].file) && await getAddedHash(added[j]) === from.contentHash) addedIndex = j;
+    }
+    if (addedIndex !== -1) {
+      moved.push({ from, to: added[addedIndex] });
+      added.splice(addedIndex, 1);
+      removed.splice(i, 1);
+    }
+  }
+
+  return { added, removed, modified, moved };
+}
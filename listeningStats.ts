@@ -0,0 +1,188 @@
+import { PlayRecord } from './types';
+import { getAlbumId } from './db';
+
+// Everything here is computed from the play history in IndexedDB, nothing leaves the device
+
+export type StatsRange = 'week' | 'month' | 'year' | 'all';
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+const DAY = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<Exclude<StatsRange, 'all'>, number> = { week: 7, month: 30, year: 365 };
+
+// A play counts as a listen once it finished or went on for 30 seconds
+const MIN_LISTEN_SECONDS = 30;
+export const isListen = (play: PlayRecord) => play.completed || play.listened >= MIN_LISTEN_SECONDS;
+
+export function filterPlaysByRange(plays: PlayRecord[], range: StatsRange, now = Date.now()): PlayRecord[] {
+  if (range === 'all') return plays;
+  const since = now - RANGE_DAYS[range] * DAY;
+  return plays.filter(play => play.startedAt >= since);
+}
+
+export const getTotalListened = (plays: PlayRecord[]) => plays.reduce((sum, play) => sum + play.listened, 0);
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+// Weeks start on Monday
+function startOfPeriod(time: number, period: StatsPeriod): Date {
+  const date = startOfDay(time);
+  if (period === 'week') date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  if (period === 'month') date.setDate(1);
+  return date;
+}
+
+function addPeriods(date: Date, period: StatsPeriod, count: number): Date {
+  const result = new Date(date);
+  if (period === 'day') result.setDate(result.getDate() + count);
+  if (period === 'week') result.setDate(result.getDate() + count * 7);
+  if (period === 'month') result.setMonth(result.getMonth() + count);
+  return result;
+}
+
+export interface ListeningBucket {
+  start: number;
+  label: string;
+  seconds: number;
+}
+
+// Seconds listened in each of the last `count` days, weeks or months, oldest first
+export function getListeningTimeSeries(plays: PlayRecord[], period: StatsPeriod, count: number, now = Date.now()): ListeningBucket[] {
+  const first = addPeriods(startOfPeriod(now, period), period, -(count - 1));
+  const buckets: ListeningBucket[] = Array.from({ length: count }, (_, i) => {
+    const start = addPeriods(first, period, i);
+    const label = period === 'month'
+      ? start.toLocaleDateString(undefined, { month: 'short' })
+      : start.toLocaleDateString(undefined, { month: 'numeric', day: 'numeric' });
+    return { start: start.getTime(), label, seconds: 0 };
+  });
+  const starts = buckets.map(bucket => bucket.start);
+  for (const play of plays) {
+    if (play.startedAt < starts[0]) continue;
+    const periodStart = startOfPeriod(play.startedAt, period).getTime();
+    const index = starts.indexOf(periodStart);
+    if (index !== -1) buckets[index].seconds += play.listened;
+  }
+  return buckets;
+}
+
+export interface TopEntry {
+  key: string;
+  name: string;
+  // The artist, for albums and tracks
+  subtitle?: string;
+  listens: number;
+  seconds: number;
+}
+
+function getTop(plays: PlayRecord[], limit: number, getEntry: (play: PlayRecord) => Omit<TopEntry, 'listens' | 'seconds'>): TopEntry[] {
+  const entries = new Map<string, TopEntry>();
+  for (const play of plays) {
+    const { key, name, subtitle } = getEntry(play);
+    let entry = entries.get(key);
+    if (!entry) entries.set(key, (entry = { key, name, subtitle, listens: 0, seconds: 0 }));
+    if (isListen(play)) entry.listens++;
+    entry.seconds += play.listened;
+  }
+  return [...entries.values()]
+    .filter(entry => entry.listens > 0)
+    .sort((a, b) => b.listens - a.listens || b.seconds - a.seconds)
+    .slice(0, limit);
+}
+
+export const getTopArtists = (plays: PlayRecord[], limit: number) =>
+  getTop(plays, limit, play => ({ key: play.artist, name: play.artist }));
+
+export const getTopAlbums = (plays: PlayRecord[], limit: number) =>
+  getTop(plays, limit, play => ({ key: getAlbumId(play.album, play.artist), name: play.album, subtitle: play.artist }));
+
+export const getTopTracks = (plays: PlayRecord[], limit: number) =>
+  getTop(plays, limit, play => ({ key: play.songId, name: play.name, subtitle: play.artist }));
+
+// Seconds listened by day of the week (Monday first) and hour of the day
+export function getHourHeatmap(plays: PlayRecord[]): number[][] {
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (const play of plays) {
+    const date = new Date(play.startedAt);
+    heatmap[(date.getDay() + 6) % 7][date.getHours()] += play.listened;
+  }
+  return heatmap;
+}
+
+// Years with any plays, newest first
+export function getPlayYears(plays: PlayRecord[]): number[] {
+  return [...new Set(plays.map(play => new Date(play.startedAt).getFullYear()))].sort((a, b) => b - a);
+}
+
+export interface YearRecap {
+  year: number;
+  seconds: number;
+  listens: number;
+  songCount: number;
+  artistCount: number;
+  topArtists: TopEntry[];
+  topAlbums: TopEntry[];
+  topTracks: TopEntry[];
+  // The day with the most listening
+  busiestDay?: { date: number; seconds: number };
+  // Hour of the day with the most listening, 0-23
+  favoriteHour?: number;
+  // Most days in a row with something played
+  longestStreak: number;
+}
+
+export function getYearRecap(plays: PlayRecord[], year: number): YearRecap {
+  const yearPlays = plays.filter(play => new Date(play.startedAt).getFullYear() === year);
+
+  const days = new Map<number, number>();
+  const hours = new Array<number>(24).fill(0);
+  for (const play of yearPlays) {
+    const day = startOfDay(play.startedAt).getTime();
+    days.set(day, (days.get(day) ?? 0) + play.listened);
+    hours[new Date(play.startedAt).getHours()] += play.listened;
+  }
+
+  let busiestDay: YearRecap['busiestDay'];
+  days.forEach((seconds, date) => {
+    if (!busiestDay || seconds > busiestDay.seconds) busiestDay = { date, seconds };
+  });
+
+  // Consecutive calendar days, stepping by date rather than 24 hours to survive DST changes
+  let longestStreak = 0;
+  let streak = 0;
+  let previous: number | null = null;
+  for (const day of [...days.keys()].sort((a, b) => a - b)) {
+    const date = new Date(day);
+    date.setDate(date.getDate() - 1);
+    streak = previous !== null && date.getTime() === previous ? streak + 1 : 1;
+    longestStreak = Math.max(longestStreak, streak);
+    previous = day;
+  }
+
+  const maxHour = Math.max(...hours);
+  return {
+    year,
+    seconds: getTotalListened(yearPlays),
+    listens: yearPlays.filter(isListen).length,
+    songCount: new Set(yearPlays.map(play => play.songId)).size,
+    artistCount: new Set(yearPlays.map(play => play.artist)).size,
+    topArtists: getTopArtists(yearPlays, 5),
+    topAlbums: getTopAlbums(yearPlays, 5),
+    topTracks: getTopTracks(yearPlays, 5),
+    busiestDay,
+    favoriteHour: maxHour > 0 ? hours.indexOf(maxHour) : undefined,
+    longestStreak,
+  };
+}
+
+// "3 h 12 min", "45 min" or "30 s"
+export function formatListeningTime(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+}
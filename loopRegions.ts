@@ -0,0 +1,56 @@
+import { Song, LoopRegion, PracticeSettings } from './types';
+import { getContentHashFromId } from './library';
+
+const LOOP_REGIONS_KEY = 'musicPlayerLoopRegions';
+
+// Shortest segment that can be looped, anything shorter just stutters
+export const MIN_LOOP_LENGTH = 0.5;
+export const MAX_LOOP_COUNT = 50;
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  count: 0,
+  speedUp: false,
+  speedStep: 0.05,
+  targetRate: 1,
+};
+
+// Saved regions by content hash, so they stay with a track that's moved or renamed
+export type SavedLoopRegions = Record<string, LoopRegion[]>;
+
+export function loadLoopRegions(): SavedLoopRegions {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOOP_REGIONS_KEY) ?? '{}');
+    return Object.fromEntries(Object.entries(saved && typeof saved === 'object' ? saved : {})
+      .filter((entry): entry is [string, LoopRegion[]] => Array.isArray(entry[1]))
+      .map(([hash, regions]) => [hash, regions.filter(region => isFinite(region.start) && region.end - region.start >= MIN_LOOP_LENGTH)]));
+  } catch (e) {
+    console.error("Failed to load loop regions from localStorage:", e);
+    localStorage.removeItem(LOOP_REGIONS_KEY);
+    return {};
+  }
+}
+
+export function saveLoopRegions(regions: SavedLoopRegions) {
+  localStorage.setItem(LOOP_REGIONS_KEY, JSON.stringify(regions));
+}
+
+export const getSongRegions = (regions: SavedLoopRegions, song: Song) => regions[getContentHashFromId(song.id)] ?? [];
+
+// Kept in order of where they start
+export function addRegion(regions: SavedLoopRegions, song: Song, region: Omit<LoopRegion, 'id'>): SavedLoopRegions {
+  const songRegions = [...getSongRegions(regions, song), { ...region, id: crypto.randomUUID() }].sort((a, b) => a.start - b.start);
+  return { ...regions, [getContentHashFromId(song.id)]: songRegions };
+}
+
+export function removeRegion(regions: SavedLoopRegions, song: Song, id: string): SavedLoopRegions {
+  const hash = getContentHashFromId(song.id);
+  const { [hash]: songRegions = [], ...rest } = regions;
+  const remaining = songRegions.filter(region => region.id !== id);
+  return remaining.length > 0 ? { ...rest, [hash]: remaining } : rest;
+}
+
+// The speed of a pass, counting from 0 for the first one
+export function getPassRate(settings: PracticeSettings, startRate: number, pass: number): number {
+  if (!settings.speedUp || settings.targetRate <= startRate) return startRate;
+  return Math.min(settings.targetRate, Number((startRate + pass * settings.speedStep).toFixed(2)));
+}
@@ -0,0 +1,89 @@
+import { TrackLoudness } from './types';
+
+// Integrated loudness as specified by ITU-R BS.1770 and EBU R128: the audio goes through
+// the K-weighting filter, its mean square is taken over 400 ms blocks overlapping by 75%,
+// and the blocks left after an absolute gate at -70 LUFS and a relative one 10 LU below
+// their average are averaged.
+
+const BLOCK_SECONDS = 0.4;
+// Blocks start every 100 ms, so each is made of four steps
+const STEPS_PER_BLOCK = 4;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+type Biquad = { b: [number, number, number]; a: [number, number] };
+
+// The two K-weighting stages, a high shelf modelling the head and a high pass, worked out for
+// any sample rate the same way libebur128 does (the standard only lists 48 kHz coefficients)
+function getKWeightingFilters(sampleRate: number): Biquad[] {
+  let k = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+    a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0],
+  };
+  k = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = { b: [1, -2, 1], a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0] };
+  return [shelf, highPass];
+}
+
+// Surround channels count for a bit more, the LFE channel not at all. Anything
+// other than 5.1 (in WAV order: L, R, C, LFE, Ls, Rs) weighs every channel the same.
+const getChannelWeight = (channel: number, channelCount: number) =>
+  channelCount === 6 ? [1, 1, 1, 0, 1.41, 1.41][channel] : 1;
+
+const toLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Returns null when the audio is shorter than one block or silent throughout
+export function measureLoudness(channels: Float32Array[], sampleRate: number): TrackLoudness | null {
+  const stepLength = Math.round((sampleRate * BLOCK_SECONDS) / STEPS_PER_BLOCK);
+  const stepCount = Math.floor((channels[0]?.length ?? 0) / stepLength);
+  if (stepCount < STEPS_PER_BLOCK) return null;
+
+  // Weighted sum of squares of each 100 ms step, over all channels
+  const steps = new Float64Array(stepCount);
+  const filters = getKWeightingFilters(sampleRate);
+  let peak = 0;
+  channels.forEach((samples, channel) => {
+    const weight = getChannelWeight(channel, channels.length);
+    const state = filters.map(() => [0, 0, 0, 0]);
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      for (let i = step * stepLength, end = i + stepLength; i < end; i++) {
+        let value = samples[i];
+        peak = Math.max(peak, Math.abs(value));
+        // Direct form I, keeping the last two inputs and outputs of each stage
+        filters.forEach(({ b, a }, stage) => {
+          const s = state[stage];
+          const output = b[0] * value + b[1] * s[0] + b[2] * s[1] - a[0] * s[2] - a[1] * s[3];
+          s[1] = s[0];
+          s[0] = value;
+          s[3] = s[2];
+          s[2] = output;
+          value = output;
+        });
+        sum += value * value;
+      }
+      steps[step] += weight * sum;
+    }
+  });
+
+  const blocks: number[] = [];
+  for (let step = 0; step + STEPS_PER_BLOCK <= stepCount; step++) {
+    let sum = 0;
+    for (let i = step; i < step + STEPS_PER_BLOCK; i++) sum += steps[i];
+    const meanSquare = sum / (stepLength * STEPS_PER_BLOCK);
+    if (meanSquare > 0 && toLoudness(meanSquare) > ABSOLUTE_GATE) blocks.push(meanSquare);
+  }
+  if (blocks.length === 0) return null;
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const threshold = toLoudness(average(blocks)) + RELATIVE_GATE;
+  const gated = blocks.filter(meanSquare => toLoudness(meanSquare) > threshold);
+  return { integrated: toLoudness(average(gated)), peak };
+}
@@ -0,0 +1,17 @@
+// Web Worker that measures loudness off the main thread. Workers have no OfflineAudioContext,
+// so decoding happens on the main thread, which sends the decoded samples.
+
+import { measureLoudness } from './loudness';
+import { TrackLoudness } from './types';
+import { WorkerRequest, WorkerResponse } from './workerRunner';
+
+export interface LoudnessInput {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest<LoudnessInput>>) => {
+  const { id, input: { channels, sampleRate } } = event.data;
+  const response: WorkerResponse<TrackLoudness | null> = { id, output: measureLoudness(channels, sampleRate) };
+  self.postMessage(response);
+};
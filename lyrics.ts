@@ -0,0 +1,93 @@
+import { Song } from './types';
+import { readMetadata, parseLyrics, LyricLine } from './metadata/index';
+
+// Where the lyrics on screen came from: an .lrc file next to the track, or the track's own tags
+export type LyricsSource = 'lrc' | 'tags';
+
+export interface SongLyrics {
+  lines: LyricLine[];
+  source: LyricsSource;
+}
+
+export const isSynced = (lines: LyricLine[]) => lines.some(line => line.time !== undefined);
+
+// The index of the line being sung at `time`, -1 before the first one or for plain lyrics
+export function getCurrentLineIndex(lines: LyricLine[], time: number): number {
+  let index = -1;
+  lines.forEach((line, i) => {
+    if (line.time !== undefined && line.time <= time) index = i;
+  });
+  return index;
+}
+
+// [mm:ss.xx], to the hundredth of a second as most players write it
+export function formatLrcTime(time: number): string {
+  const hundredths = Math.round(time * 100);
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = Math.floor((hundredths % 6000) / 100);
+  return `[${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${(hundredths % 100).toString().padStart(2, '0')}]`;
+}
+
+// Lines that haven't been timed yet are written as they are, LRC readers show them as plain text
+export function serializeLrc(lines: LyricLine[], song: Song): string {
+  const header = [`[ti:${song.name}]`, `[ar:${song.artist}]`, `[al:${song.album}]`];
+  const body = lines.map(line => (line.time !== undefined ? `${formatLrcTime(line.time)}${line.text}` : line.text));
+  return [...header, ...body].join('\n') + '\n';
+}
+
+// "Song.mp3" has its lyrics in "Song.lrc"
+export const getLrcName = (song: Song) => song.path[song.path.length - 1].replace(/\.[^/.]+$/, '') + '.lrc';
+
+async function getSongDirectory(root: FileSystemDirectoryHandle, song: Song): Promise<FileSystemDirectoryHandle> {
+  let directory = root;
+  for (const name of song.path.slice(0, -1)) {
+    directory = await directory.getDirectoryHandle(name);
+  }
+  return directory;
+}
+
+export async function readLrcFile(root: FileSystemDirectoryHandle, song: Song): Promise<LyricLine[] | null> {
+  try {
+    const directory = await getSongDirectory(root, song);
+    const file = await (await directory.getFileHandle(getLrcName(song))).getFile();
+    const lines = parseLyrics(await file.text());
+    return lines.length > 0 ? lines : null;
+  } catch (e) {
+    if ((e as DOMException).name !== 'NotFoundError') console.error(`Failed to read the lyrics of ${song.name}:`, e);
+    return null;
+  }
+}
+
+export async function writeLrcFile(root: FileSystemDirectoryHandle, song: Song, lines: LyricLine[]): Promise<void> {
+  const directory = await getSongDirectory(root, song);
+  const fileHandle = await directory.getFileHandle(getLrcName(song), { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(serializeLrc(lines, song));
+  await writable.close();
+}
+
+// Tags are read again from the file, the catalog doesn't keep lyrics
+async function readEmbeddedLyrics(song: Song): Promise<LyricLine[] | null> {
+  try {
+    const blob = await (await fetch(song.url)).blob();
+    const { lyrics } = await readMetadata(blob);
+    return lyrics && lyrics.length > 0 ? lyrics : null;
+  } catch (e) {
+    console.error(`Failed to read the lyrics tags of ${song.name}:`, e);
+    return null;
+  }
+}
+
+// An .lrc file wins over the tags, it's usually synchronized and it's what the editor saves
+export async function loadLyrics(song: Song, root: FileSystemDirectoryHandle | null): Promise<SongLyrics | null> {
+  const lrc = root ? await readLrcFile(root, song) : null;
+  if (lrc) return { lines: lrc, source: 'lrc' };
+  const embedded = await readEmbeddedLyrics(song);
+  return embedded ? { lines: embedded, source: 'tags' } : null;
+}
+
+// Reads the editor's text line by line, keeping the order and lines not timed yet
+export const parseLrcDraft = (text: string): LyricLine[] => text.split('\n').flatMap(row => parseLyrics(row));
+
+export const formatLrcDraft = (lines: LyricLine[]): string =>
+  lines.map(line => (line.time !== undefined ? formatLrcTime(line.time) : '') + line.text).join('\n');
@@ -0,0 +1,85 @@
+import { ReplayGainInfo } from './types';
+
+// Helpers for reading binary tag data. Files are only ever read in slices so that
+// parsing a tag never loads the whole audio file into memory.
+
+export async function readSlice(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(Math.max(0, start), Math.min(blob.size, end)).arrayBuffer());
+}
+
+export const readUint16BE = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+
+export const readUint24BE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+
+export const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+export const readUint32LE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset + 3] << 24) | (bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset]) >>> 0;
+
+export const readUint64BE = (bytes: Uint8Array, offset: number) =>
+  readUint32BE(bytes, offset) * 2 ** 32 + readUint32BE(bytes, offset + 4);
+
+export const readUint64LE = (bytes: Uint8Array, offset: number) =>
+  readUint32LE(bytes, offset + 4) * 2 ** 32 + readUint32LE(bytes, offset);
+
+// ID3v2 sizes store 7 bits per byte so they never contain a frame sync
+export const readSyncSafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+export const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const decoders: Record<string, TextDecoder> = {};
+
+export function decodeText(bytes: Uint8Array, encoding: 'latin1' | 'utf-8' | 'utf-16' | 'utf-16be' = 'utf-8'): string {
+  decoders[encoding] ??= new TextDecoder(encoding);
+  return decoders[encoding].decode(bytes);
+}
+
+// Returns the index of `pattern` in `bytes` at or after `from`, or -1
+export function indexOfBytes(bytes: Uint8Array, pattern: number[], from = 0): number {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// Parses "3" or "3/12" style numbers used by track and disc fields
+export function parseNumberPair(value: string | undefined): [number | undefined, number | undefined] {
+  if (!value) return [undefined, undefined];
+  const [no, of] = value.split('/').map(part => parseInt(part, 10));
+  return [isNaN(no) ? undefined : no, isNaN(of) ? undefined : of];
+}
+
+export function parseYear(value: string | undefined): number | undefined {
+  const match = value?.match(/\d{4}/);
+  return match ? Number(match[0]) : undefined;
+}
+
+// Turns a rating out of `scale` into 1 to 5 stars, in half star steps. Zero means unrated.
+export function parseRating(value: string | number | undefined, scale: number): number | undefined {
+  const number = Number(value);
+  if (value === undefined || value === '' || !(number > 0)) return undefined;
+  return Math.min(5, Math.max(0.5, Math.round((number / scale) * 10) / 2));
+}
+
+// Reads the REPLAYGAIN_TRACK_GAIN style fields through `get`. Gains are written as "-6.48 dB"
+// and peaks as plain numbers, so parseFloat copes with both.
+export function parseReplayGain(get: (key: string) => string | undefined): ReplayGainInfo | undefined {
+  const number = (key: string) => {
+    const value = parseFloat(get(key) ?? '');
+    return isFinite(value) ? value : undefined;
+  };
+  const info: ReplayGainInfo = {
+    trackGain: number('REPLAYGAIN_TRACK_GAIN'),
+    trackPeak: number('REPLAYGAIN_TRACK_PEAK'),
+    albumGain: number('REPLAYGAIN_ALBUM_GAIN'),
+    albumPeak: number('REPLAYGAIN_ALBUM_PEAK'),
+  };
+  return info.trackGain !== undefined || info.albumGain !== undefined ? info : undefined;
+}
@@ -0,0 +1,307 @@
+import { AudioMetadata, AudioPicture, Chapter, LyricLine } from './types';
+import { parseLyrics } from './lyrics';
+import { decodeText, parseNumberPair, parseRating, parseReplayGain, parseYear, readAscii, readSyncSafe, readUint24BE, readUint32BE } from './bytes';
+
+export const ID3V2_HEADER_SIZE = 10;
+export const ID3V1_SIZE = 128;
+
+// ID3v1 genre indexes, including the Winamp extensions
+const GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+  'Folk', 'Folk-Rock', 'National Folk', 'Swing', 'Fast Fusion', 'Bebop', 'Latin', 'Revival', 'Celtic', 'Bluegrass',
+  'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock', 'Symphonic Rock', 'Slow Rock', 'Big Band', 'Chorus', 'Easy Listening', 'Acoustic',
+  'Humour', 'Speech', 'Chanson', 'Opera', 'Chamber Music', 'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove',
+  'Satire', 'Slow Jam', 'Club', 'Tango', 'Samba', 'Folklore', 'Ballad', 'Power Ballad', 'Rhythmic Soul', 'Freestyle',
+  'Duet', 'Punk Rock', 'Drum Solo', 'A Cappella', 'Euro-House', 'Dance Hall',
+];
+
+export const getGenreName = (index: number) => GENRES[index];
+
+// ID3v2.2 uses three character frame IDs
+const V22_FRAME_IDS: Record<string, string> = {
+  TT2: 'TIT2', TP1: 'TPE1', TP2: 'TPE2', TAL: 'TALB', TCM: 'TCOM', TCO: 'TCON',
+  TRK: 'TRCK', TPA: 'TPOS', TYE: 'TYER', TLE: 'TLEN', PIC: 'APIC', POP: 'POPM', TXX: 'TXXX',
+};
+
+export interface Id3v2Header {
+  version: number;
+  flags: number;
+  // Size of the whole tag including its header and footer
+  size: number;
+}
+
+export function parseId3v2Header(bytes: Uint8Array): Id3v2Header | null {
+  if (bytes.length < ID3V2_HEADER_SIZE || readAscii(bytes, 0, 3) !== 'ID3') return null;
+  const version = bytes[3];
+  const flags = bytes[5];
+  const hasFooter = version === 4 && (flags & 0x10) !== 0;
+  return { version, flags, size: ID3V2_HEADER_SIZE + readSyncSafe(bytes, 6) + (hasFooter ? ID3V2_HEADER_SIZE : 0) };
+}
+
+// Removes the 0x00 byte the encoder inserted after every 0xFF
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    out[length++] = bytes[i];
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, length);
+}
+
+// Decodes an ID3v2 string in the given text encoding, honouring the byte order mark for UTF-16
+function decodeId3Text(bytes: Uint8Array, encoding: number): string {
+  switch (encoding) {
+    case 1:
+      if (bytes[0] === 0xFE && bytes[1] === 0xFF) return decodeText(bytes.subarray(2), 'utf-16be');
+      return decodeText(bytes, 'utf-16');
+    case 2: return decodeText(bytes, 'utf-16be');
+    case 3: return decodeText(bytes, 'utf-8');
+    default: return decodeText(bytes, 'latin1');
+  }
+}
+
+// Returns the end of a null-terminated string, which is two zero bytes for UTF-16
+function findTerminator(bytes: Uint8Array, offset: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+}
+
+function parseTextFrame(data: Uint8Array): string {
+  // Version 2.4 separates multiple values with null characters
+  return decodeId3Text(data.subarray(1), data[0])
+    .split('\u0000')
+    .map(value => value.trim())
+    .filter(Boolean)
+    .join('; ');
+}
+
+function parsePictureFrame(data: Uint8Array, isV22: boolean): AudioPicture {
+  const encoding = data[0];
+  let offset = 1;
+  let format: string;
+  if (isV22) {
+    const imageFormat = readAscii(data, offset, 3).toUpperCase();
+    format = imageFormat === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset += 3;
+  } else {
+    const mimeEnd = findTerminator(data, offset, 0);
+    format = decodeText(data.subarray(offset, mimeEnd), 'latin1') || 'image/jpeg';
+    offset = mimeEnd + 1;
+  }
+  const type = data[offset++];
+  const descriptionEnd = findTerminator(data, offset, encoding);
+  const description = decodeId3Text(data.subarray(offset, descriptionEnd), encoding);
+  offset = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  // "image/jpg" is a common mistake in taggers
+  return { type, format: format === 'image/jpg' ? 'image/jpeg' : format, description, data: data.slice(offset) };
+}
+
+// POPM holds an email, a 0-255 rating and a play count. Players disagree on how stars map
+// to bytes (Windows uses 1, 64, 128, 196, 255), so each star covers a range of values.
+function parsePopularimeterFrame(data: Uint8Array): number | undefined {
+  const emailEnd = findTerminator(data, 0, 0);
+  const rating = data[emailEnd + 1];
+  if (!rating) return undefined;
+  return rating < 32 ? 1 : rating < 96 ? 2 : rating < 160 ? 3 : rating < 224 ? 4 : 5;
+}
+
+// ID3v2 genres may be a plain name, a v1 index such as "(17)" or just "17"
+function parseGenre(value: string): string {
+  const match = value.match(/^\((\d+)\)(.*)$/) ?? value.match(/^(\d+)()$/);
+  if (!match) return value;
+  return match[2].trim() || getGenreName(Number(match[1])) || value;
+}
+
+export interface Id3v2Frames {
+  frames: Map<string, Uint8Array[]>;
+  version: number;
+  isV22: boolean;
+}
+
+// Splits the tag into its frames, keyed by (v2.3 style) frame ID. `bytes` holds the whole tag.
+export function readId3v2Frames(bytes: Uint8Array): Id3v2Frames | null {
+  const header = parseId3v2Header(bytes);
+  if (!header || header.version < 2 || header.version > 4) return null;
+
+  const { version, flags } = header;
+  const isV22 = version === 2;
+  let body = bytes.subarray(ID3V2_HEADER_SIZE, ID3V2_HEADER_SIZE + readSyncSafe(bytes, 6));
+  // Version 2.4 applies unsynchronisation per frame instead
+  if (flags & 0x80 && version < 4) body = removeUnsynchronisation(body);
+
+  let offset = 0;
+  if (flags & 0x40 && !isV22) {
+    offset = version === 3 ? readUint32BE(body, 0) + 4 : readSyncSafe(body, 0);
+  }
+  return { frames: readFrames(body, offset, version), version, isV22 };
+}
+
+// Reads the frames from `offset` to the end of `body`, which is also how CHAP and CTOC frames store theirs
+function readFrames(body: Uint8Array, offset: number, version: number): Map<string, Uint8Array[]> {
+  const isV22 = version === 2;
+  const frameHeaderSize = isV22 ? 6 : 10;
+  const frames = new Map<string, Uint8Array[]>();
+  while (offset + frameHeaderSize <= body.length) {
+    let id = readAscii(body, offset, isV22 ? 3 : 4);
+    // Padding
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    const size = isV22 ? readUint24BE(body, offset + 3)
+      : version === 4 ? readSyncSafe(body, offset + 4)
+      : readUint32BE(body, offset + 4);
+    const formatFlags = isV22 ? 0 : body[offset + 9];
+    let data = body.subarray(offset + frameHeaderSize, offset + frameHeaderSize + size);
+    offset += frameHeaderSize + size;
+
+    if (isV22) {
+      id = V22_FRAME_IDS[id] ?? id;
+    } else if (version === 4) {
+      if (formatFlags & 0x0C) continue; // Compressed or encrypted
+      if (formatFlags & 0x01) data = data.subarray(4); // Data length indicator
+      if (formatFlags & 0x02) data = removeUnsynchronisation(data);
+    } else if (formatFlags & 0xC0) {
+      continue; // Compressed or encrypted
+    }
+
+    if (!frames.has(id)) frames.set(id, []);
+    frames.get(id)!.push(data);
+  }
+  return frames;
+}
+
+// USLT holds an encoding, a language, a description and the text. SYLT has the same header with
+// a time format and content type before the description, followed by lines of text, each with
+// its time. Only times in milliseconds are read, the other format counts MPEG frames.
+function parseLyricsFrames(frames: Map<string, Uint8Array[]>): LyricLine[] | undefined {
+  for (const data of frames.get('SYLT') ?? []) {
+    const encoding = data[0];
+    const width = encoding === 1 || encoding === 2 ? 2 : 1;
+    if (data[4] !== 2) continue;
+    let offset = findTerminator(data, 6, encoding) + width;
+    const lines: LyricLine[] = [];
+    while (offset < data.length) {
+      const end = findTerminator(data, offset, encoding);
+      if (end + width + 4 > data.length) break;
+      // Lines often start with the line break that ends the one before
+      const text = decodeId3Text(data.subarray(offset, end), encoding).trim();
+      lines.push({ time: readUint32BE(data, end + width) / 1000, text });
+      offset = end + width + 4;
+    }
+    if (lines.length > 0) return lines.sort((a, b) => a.time! - b.time!);
+  }
+  const data = frames.get('USLT')?.[0];
+  if (!data || data.length < 5) return undefined;
+  const textStart = findTerminator(data, 4, data[0]) + (data[0] === 1 || data[0] === 2 ? 2 : 1);
+  const text = decodeId3Text(data.subarray(textStart), data[0]);
+  return text.trim() ? parseLyrics(text) : undefined;
+}
+
+// CHAP frames hold an element ID, start and end times in milliseconds, byte offsets and
+// sub-frames with the title. A top-level CTOC frame may list the chapters in order.
+function parseChapters(frames: Map<string, Uint8Array[]>, version: number): Chapter[] | undefined {
+  const chapters = new Map<string, Chapter>();
+  (frames.get('CHAP') ?? []).forEach((data, i) => {
+    const idEnd = findTerminator(data, 0, 0);
+    const offset = idEnd + 1;
+    if (offset + 16 > data.length) return;
+    const title = readFrames(data, offset + 16, version).get('TIT2')?.[0];
+    chapters.set(decodeText(data.subarray(0, idEnd), 'latin1'), {
+      title: (title && title.length > 1 ? parseTextFrame(title) : '') || `Chapter ${i + 1}`,
+      start: readUint32BE(data, offset) / 1000,
+    });
+  });
+  if (chapters.size === 0) return undefined;
+
+  for (const data of frames.get('CTOC') ?? []) {
+    let offset = findTerminator(data, 0, 0) + 1;
+    const flags = data[offset];
+    const count = data[offset + 1];
+    offset += 2;
+    // Only a top-level table lists the chapters of the whole file
+    if (!(flags & 0x01)) continue;
+    const ordered: Chapter[] = [];
+    for (let i = 0; i < count && offset < data.length; i++) {
+      const end = findTerminator(data, offset, 0);
+      const chapter = chapters.get(decodeText(data.subarray(offset, end), 'latin1'));
+      if (chapter) ordered.push(chapter);
+      offset = end + 1;
+    }
+    if (ordered.length > 0) return ordered;
+  }
+  return [...chapters.values()].sort((a, b) => a.start - b.start);
+}
+
+export function parseId3v2(bytes: Uint8Array): Partial<AudioMetadata> {
+  const tag = readId3v2Frames(bytes);
+  if (!tag) return {};
+  const { frames, version, isV22 } = tag;
+  const text = (id: string) => {
+    const data = frames.get(id)?.[0];
+    return data && data.length > 1 ? parseTextFrame(data) || undefined : undefined;
+  };
+
+  const [trackNumber, trackTotal] = parseNumberPair(text('TRCK'));
+  const [discNumber, discTotal] = parseNumberPair(text('TPOS'));
+  const genre = text('TCON');
+  const length = Number(text('TLEN'));
+  const ratings = (frames.get('POPM') ?? []).map(parsePopularimeterFrame).filter(Boolean);
+  // TXXX frames hold a description and a value, keyed here by the upper case description
+  const userText = new Map<string, string>();
+  for (const data of frames.get('TXXX') ?? []) {
+    const [description, value] = decodeId3Text(data.subarray(1), data[0]).split('\u0000');
+    if (value !== undefined && !userText.has(description.toUpperCase())) userText.set(description.toUpperCase(), value.trim());
+  }
+  // Some taggers use a TXXX:RATING frame instead, 0 to 100
+  const userRating = userText.get('RATING');
+
+  return {
+    title: text('TIT2'),
+    artist: text('TPE1'),
+    album: text('TALB'),
+    albumArtist: text('TPE2'),
+    composer: text('TCOM'),
+    genre: genre ? parseGenre(genre) : undefined,
+    year: parseYear(text('TDRC') ?? text('TYER') ?? text('TDOR')),
+    trackNumber,
+    trackTotal,
+    discNumber,
+    discTotal,
+    rating: ratings[0] ?? parseRating(userRating, 100),
+    duration: length > 0 ? length / 1000 : 0,
+    replayGain: parseReplayGain(key => userText.get(key)),
+    chapters: parseChapters(frames, version),
+    lyrics: parseLyricsFrames(frames),
+    pictures: (frames.get('APIC') ?? []).map(data => parsePictureFrame(data, isV22)),
+  };
+}
+
+// `bytes` holds the last 128 bytes of the file
+export function parseId3v1(bytes: Uint8Array): Partial<AudioMetadata> {
+  if (bytes.length !== ID3V1_SIZE || readAscii(bytes, 0, 3) !== 'TAG') return {};
+  const field = (offset: number, length: number) => {
+    const value = bytes.subarray(offset, offset + length);
+    const end = value.indexOf(0);
+    return decodeText(end === -1 ? value : value.subarray(0, end), 'latin1').trim() || undefined;
+  };
+  // ID3v1.1 stores the track number in the last byte of the comment
+  const hasTrack = bytes[125] === 0 && bytes[126] !== 0;
+  return {
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: parseYear(field(93, 4)),
+    trackNumber: hasTrack ? bytes[126] : undefined,
+    genre: getGenreName(bytes[127]),
+  };
+}
@@ -0,0 +1,78 @@
+import { AudioMetadata, FRONT_COVER } from './types';
+import { readAscii, readSlice, readUint32LE } from './bytes';
+import { ID3V1_SIZE, parseId3v1, parseId3v2, parseId3v2Header } from './id3';
+import { getMpegDuration, getMpegGapless } from './mpeg';
+import { parseFlac, parseOgg } from './vorbis';
+import { parseMp4 } from './mp4';
+
+export type { AudioMetadata, AudioPicture, Chapter, GaplessInfo, LyricLine, ReplayGainInfo } from './types';
+export { parseLyrics } from './lyrics';
+export { FRONT_COVER } from './types';
+
+// How much audio data to search for the first MPEG frame
+const MPEG_SCAN_SIZE = 64 * 1024;
+
+// Fills fields missing from `primary` with those of `fallback`
+function mergeMetadata(primary: Partial<AudioMetadata>, fallback: Partial<AudioMetadata>): Partial<AudioMetadata> {
+  const merged: Partial<AudioMetadata> = { ...fallback };
+  for (const [key, value] of Object.entries(primary) as [keyof AudioMetadata, unknown][]) {
+    if (value !== undefined && value !== '') (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
+
+// Duration of a PCM WAV file from its "fmt " and "data" chunks
+async function getWavDuration(file: Blob): Promise<number> {
+  let offset = 12;
+  let byteRate = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readSlice(file, offset, offset + 20);
+    const id = readAscii(header, 0, 4);
+    const size = readUint32LE(header, 4);
+    if (id === 'fmt ') byteRate = readUint32LE(header, 16);
+    if (id === 'data') return byteRate > 0 ? size / byteRate : 0;
+    offset += 8 + size + (size & 1);
+  }
+  return 0;
+}
+
+async function parseMpeg(file: Blob, tagSize: number, tagBytes: Uint8Array | null): Promise<Partial<AudioMetadata>> {
+  const id3v1 = parseId3v1(await readSlice(file, file.size - ID3V1_SIZE, file.size));
+  const hasId3v1 = Object.keys(id3v1).length > 0;
+  const audio = await readSlice(file, tagSize, tagSize + MPEG_SCAN_SIZE);
+  const audioSize = file.size - tagSize - (hasId3v1 ? ID3V1_SIZE : 0);
+  const id3v2 = tagBytes ? parseId3v2(tagBytes) : {};
+  const duration = getMpegDuration(audio, audioSize) || id3v2.duration || 0;
+  return { ...mergeMetadata(id3v2, id3v1), duration, gapless: getMpegGapless(audio) };
+}
+
+// Reads tags, embedded pictures and duration from MP3, FLAC, Ogg Vorbis/Opus, MP4/M4A and WAV files
+export async function readMetadata(file: Blob): Promise<AudioMetadata> {
+  const head = await readSlice(file, 0, 16);
+
+  // Skip a leading ID3v2 tag, which some FLAC files have too
+  const id3Header = parseId3v2Header(head);
+  const tagSize = id3Header?.size ?? 0;
+  const tagBytes = id3Header ? await readSlice(file, 0, tagSize) : null;
+  const start = tagSize ? await readSlice(file, tagSize, tagSize + 16) : head;
+
+  let metadata: Partial<AudioMetadata>;
+  if (readAscii(start, 0, 4) === 'fLaC') {
+    metadata = await parseFlac(file, tagSize);
+  } else if (readAscii(start, 0, 4) === 'OggS') {
+    metadata = await parseOgg(file, tagSize);
+  } else if (readAscii(start, 4, 4) === 'ftyp') {
+    metadata = await parseMp4(file);
+  } else if (readAscii(start, 0, 4) === 'RIFF' && readAscii(start, 8, 4) === 'WAVE') {
+    metadata = { duration: await getWavDuration(file) };
+  } else {
+    metadata = await parseMpeg(file, tagSize, tagBytes);
+  }
+
+  return { ...metadata, duration: metadata.duration ?? 0, pictures: metadata.pictures ?? [] };
+}
+
+// The front cover if there is one, otherwise whichever picture comes first
+export function getCoverPicture(metadata: AudioMetadata) {
+  return metadata.pictures.find(picture => picture.type === FRONT_COVER) ?? metadata.pictures[0];
+}
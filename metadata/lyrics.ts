@@ -0,0 +1,43 @@
+import { LyricLine } from './types';
+
+// [mm:ss], [mm:ss.xx] or [mm:ss:xx] at the start of a line, possibly several for a repeated line
+const TIMESTAMP = /^\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+const OFFSET_TAG = /^\[offset:\s*([+-]?\d+)\]$/i;
+// ID tags such as [ar:Artist], which aren't lyrics
+const ID_TAG = /^\[[a-z#]+:.*\]$/i;
+// Per-word timings of enhanced LRC, which are left out
+const WORD_TIMESTAMP = /<\d+:\d{1,2}(?:[.:]\d{1,3})?>/g;
+
+// Reads lyrics from an LRC file or a tag. Text with timestamps comes back as synchronized
+// lines in order of time, text without them as plain lines.
+export function parseLyrics(text: string): LyricLine[] {
+  const rows = text.replace(/\r\n?/g, '\n').split('\n');
+  let offset = 0;
+  const synced: LyricLine[] = [];
+  for (const row of rows) {
+    const trimmed = row.trim();
+    const offsetMatch = trimmed.match(OFFSET_TAG);
+    // A positive offset makes the lyrics come sooner
+    if (offsetMatch) offset = Number(offsetMatch[1]) / 1000;
+    let rest = trimmed;
+    const times: number[] = [];
+    for (let match = rest.match(TIMESTAMP); match; match = rest.match(TIMESTAMP)) {
+      const fraction = match[3] ? Number(match[3]) / 10 ** match[3].length : 0;
+      times.push(Number(match[1]) * 60 + Number(match[2]) + fraction);
+      rest = rest.slice(match[0].length);
+    }
+    const lineText = rest.replace(WORD_TIMESTAMP, '').trim();
+    times.forEach(time => synced.push({ time, text: lineText }));
+  }
+  if (synced.length > 0) {
+    return synced
+      .map(line => ({ ...line, time: Math.max(0, line.time! - offset) }))
+      .sort((a, b) => a.time - b.time);
+  }
+  return rows
+    .map(row => row.trim())
+    .filter(row => !ID_TAG.test(row))
+    .map(row => ({ text: row }))
+    // Blank lines between verses are kept, but not at the ends
+    .filter((line, i, lines) => line.text || (i > 0 && i < lines.length - 1));
+}
@@ -0,0 +1,271 @@
+import { AudioMetadata, AudioPicture, Chapter, FRONT_COVER, GaplessInfo } from './types';
+import { getGenreName } from './id3';
+import { parseLyrics } from './lyrics';
+import { decodeText, parseRating, parseReplayGain, parseYear, readAscii, readSlice, readUint16BE, readUint32BE, readUint64BE } from './bytes';
+
+export interface Mp4Atom {
+  type: string;
+  // Offset of the atom's payload and the end of the atom, relative to the enclosing buffer
+  start: number;
+  end: number;
+}
+
+// "data" atom well-known type for PNG images, anything else in "covr" is treated as JPEG
+const DATA_TYPE_PNG = 14;
+// Nero chapter start times are in units of 100 ns
+const NERO_TIMESCALE = 10_000_000;
+// More chapter titles than this aren't read from a chapter track
+const MAX_CHAPTERS = 1000;
+
+function readAtomHeader(bytes: Uint8Array, offset: number, limit: number): Mp4Atom | null {
+  if (offset + 8 > limit) return null;
+  let size = readUint32BE(bytes, offset);
+  const type = decodeText(bytes.subarray(offset + 4, offset + 8), 'latin1');
+  let headerSize = 8;
+  if (size === 1) {
+    size = readUint64BE(bytes, offset + 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+  if (size < headerSize) return null;
+  return { type, start: offset + headerSize, end: Math.min(offset + size, limit) };
+}
+
+export function readChildAtoms(bytes: Uint8Array, start: number, end: number): Mp4Atom[] {
+  const atoms: Mp4Atom[] = [];
+  for (let atom = readAtomHeader(bytes, start, end); atom; atom = readAtomHeader(bytes, atom.end, end)) {
+    atoms.push(atom);
+  }
+  return atoms;
+}
+
+export function findAtom(bytes: Uint8Array, parent: Mp4Atom, path: string[]): Mp4Atom | null {
+  let current: Mp4Atom | null = parent;
+  for (const type of path) {
+    // "meta" is a full atom with four bytes of version and flags before its children,
+    // except in some QuickTime files where it is a plain container
+    let start = current.start;
+    if (current.type === 'meta' && readAscii(bytes, start + 4, 4) !== 'hdlr') start += 4;
+    current = readChildAtoms(bytes, start, current.end).find(atom => atom.type === type) ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+// Reads the "moov" atom, which may be stored either before or after the media data
+export async function readMoovAtom(file: Blob): Promise<{ bytes: Uint8Array; moov: Mp4Atom } | null> {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readSlice(file, offset, offset + 16);
+    const atom = readAtomHeader(header, 0, file.size - offset);
+    if (!atom) return null;
+    if (atom.type === 'moov') {
+      const bytes = await readSlice(file, offset, offset + atom.end);
+      return { bytes, moov: { type: 'moov', start: atom.start, end: bytes.length } };
+    }
+    offset += atom.end;
+  }
+  return null;
+}
+
+export function getIlstItems(bytes: Uint8Array, moov: Mp4Atom): Map<string, Mp4Atom[]> {
+  const items = new Map<string, Mp4Atom[]>();
+  const ilst = findAtom(bytes, moov, ['udta', 'meta', 'ilst']);
+  if (!ilst) return items;
+  for (const item of readChildAtoms(bytes, ilst.start, ilst.end)) {
+    items.set(item.type, readChildAtoms(bytes, item.start, item.end));
+  }
+  return items;
+}
+
+// Returns the payload of the item's "data" atoms together with their type
+function getItemData(bytes: Uint8Array, children: Mp4Atom[] | undefined): { type: number; data: Uint8Array }[] {
+  return (children ?? [])
+    .filter(atom => atom.type === 'data')
+    .map(atom => ({ type: readUint32BE(bytes, atom.start) & 0xFFFFFF, data: bytes.subarray(atom.start + 8, atom.end) }));
+}
+
+// Freeform "----" items are told apart by their "name" atom, such as "iTunSMPB"
+function getFreeformText(bytes: Uint8Array, moov: Mp4Atom, name: string): string | undefined {
+  const ilst = findAtom(bytes, moov, ['udta', 'meta', 'ilst']);
+  if (!ilst) return undefined;
+  for (const item of readChildAtoms(bytes, ilst.start, ilst.end)) {
+    if (item.type !== '----') continue;
+    const children = readChildAtoms(bytes, item.start, item.end);
+    // "name" is a full atom, its text follows four bytes of version and flags
+    const nameAtom = children.find(atom => atom.type === 'name');
+    if (!nameAtom || decodeText(bytes.subarray(nameAtom.start + 4, nameAtom.end), 'latin1') !== name) continue;
+    const [data] = getItemData(bytes, children);
+    return data ? decodeText(data.data).trim() || undefined : undefined;
+  }
+  return undefined;
+}
+
+// iTunSMPB holds hexadecimal numbers: zero, the encoder delay, the padding and the number of samples in between
+function parseITunSmpb(value: string | undefined, sampleRate: number): GaplessInfo | undefined {
+  const fields = value?.split(/\s+/).map(field => parseInt(field, 16));
+  if (!fields || fields.length < 4 || !(sampleRate > 0) || !(fields[3] > 0)) return undefined;
+  const [, delay, padding, length] = fields;
+  return { delay: delay / sampleRate, padding: padding / sampleRate, length: length / sampleRate };
+}
+
+// The Nero "chpl" atom: version and flags, four more bytes in version 1, a count, and for
+// each chapter a 64-bit start time followed by a title prefixed with its length
+function parseNeroChapters(bytes: Uint8Array, moov: Mp4Atom): Chapter[] | undefined {
+  const chpl = findAtom(bytes, moov, ['udta', 'chpl']);
+  if (!chpl) return undefined;
+  let offset = chpl.start + (bytes[chpl.start] === 1 ? 8 : 4);
+  const count = bytes[offset++];
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < count && offset + 9 <= chpl.end; i++) {
+    const start = readUint64BE(bytes, offset) / NERO_TIMESCALE;
+    const length = bytes[offset + 8];
+    const title = decodeText(bytes.subarray(offset + 9, offset + 9 + length)).trim();
+    chapters.push({ title: title || `Chapter ${i + 1}`, start });
+    offset += 9 + length;
+  }
+  return chapters.length > 0 ? chapters : undefined;
+}
+
+// Where a full atom's payload starts, after its version and flags
+const fullAtomStart = (atom: Mp4Atom) => atom.start + 4;
+
+// QuickTime chapters, as iTunes writes them: the audio track references a text track through
+// "tref/chap", whose samples are the titles and whose sample durations time the chapters.
+// The samples live in the media data, so they are read from the file one by one.
+async function parseChapterTrack(file: Blob, bytes: Uint8Array, moov: Mp4Atom): Promise<Chapter[] | undefined> {
+  const tracks = readChildAtoms(bytes, moov.start, moov.end).filter(atom => atom.type === 'trak');
+  const getTrackId = (trak: Mp4Atom) => {
+    const tkhd = findAtom(bytes, trak, ['tkhd']);
+    return tkhd ? readUint32BE(bytes, fullAtomStart(tkhd) + (bytes[tkhd.start] === 1 ? 16 : 8)) : undefined;
+  };
+  const chap = tracks.map(trak => findAtom(bytes, trak, ['tref', 'chap'])).find(Boolean);
+  if (!chap || chap.end - chap.start < 4) return undefined;
+  const chapterTrackId = readUint32BE(bytes, chap.start);
+  const trak = tracks.find(trak => getTrackId(trak) === chapterTrackId);
+  const mdhd = trak && findAtom(bytes, trak, ['mdia', 'mdhd']);
+  const stbl = trak && findAtom(bytes, trak, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return undefined;
+  const timescale = readUint32BE(bytes, mdhd.start + (bytes[mdhd.start] === 1 ? 20 : 12));
+  const stts = findAtom(bytes, stbl, ['stts']);
+  const stsz = findAtom(bytes, stbl, ['stsz']);
+  const stsc = findAtom(bytes, stbl, ['stsc']);
+  const stco = findAtom(bytes, stbl, ['stco']) ?? findAtom(bytes, stbl, ['co64']);
+  if (!(timescale > 0) || !stts || !stsz || !stsc || !stco) return undefined;
+
+  // Start times from the run-length encoded sample durations
+  const starts: number[] = [];
+  let time = 0;
+  const entryCount = readUint32BE(bytes, fullAtomStart(stts));
+  for (let i = 0; i < entryCount; i++) {
+    const offset = fullAtomStart(stts) + 4 + i * 8;
+    if (offset + 8 > stts.end) break;
+    const count = readUint32BE(bytes, offset);
+    const delta = readUint32BE(bytes, offset + 4);
+    for (let j = 0; j < count && starts.length < MAX_CHAPTERS; j++, time += delta) starts.push(time / timescale);
+  }
+
+  const fixedSize = readUint32BE(bytes, fullAtomStart(stsz));
+  const sampleCount = Math.min(readUint32BE(bytes, fullAtomStart(stsz) + 4), starts.length);
+  const sizeOf = (sample: number) => fixedSize || readUint32BE(bytes, fullAtomStart(stsz) + 8 + sample * 4);
+  const is64 = stco.type === 'co64';
+  const chunkCount = readUint32BE(bytes, fullAtomStart(stco));
+  const chunkOffset = (chunk: number) => is64
+    ? readUint64BE(bytes, fullAtomStart(stco) + 4 + chunk * 8)
+    : readUint32BE(bytes, fullAtomStart(stco) + 4 + chunk * 4);
+  // Runs of chunks with the same number of samples, by their first chunk counting from 1
+  const runs = Array.from({ length: readUint32BE(bytes, fullAtomStart(stsc)) }, (_, i) => ({
+    firstChunk: readUint32BE(bytes, fullAtomStart(stsc) + 4 + i * 12),
+    samples: readUint32BE(bytes, fullAtomStart(stsc) + 8 + i * 12),
+  })).filter(run => run.samples > 0);
+
+  // Each text sample is a 16-bit length followed by the title
+  const chapters: Chapter[] = [];
+  let sample = 0;
+  for (let chunk = 0; chunk < chunkCount && sample < sampleCount; chunk++) {
+    const run = [...runs].reverse().find(run => run.firstChunk <= chunk + 1);
+    if (!run) break;
+    let offset = chunkOffset(chunk);
+    for (let i = 0; i < run.samples && sample < sampleCount; i++, sample++) {
+      const size = sizeOf(sample);
+      const data = await readSlice(file, offset, offset + Math.min(size, 2 + 1024));
+      const title = data.length >= 2 ? decodeText(data.subarray(2, 2 + readUint16BE(data, 0))).trim() : '';
+      chapters.push({ title: title || `Chapter ${sample + 1}`, start: starts[sample] });
+      offset += size;
+    }
+  }
+  return chapters.length > 0 ? chapters : undefined;
+}
+
+export async function parseMp4(file: Blob): Promise<Partial<AudioMetadata>> {
+  const result = await readMoovAtom(file);
+  if (!result) return {};
+  const { bytes, moov } = result;
+
+  let duration = 0;
+  const mvhd = findAtom(bytes, moov, ['mvhd']);
+  if (mvhd) {
+    const version = bytes[mvhd.start];
+    const timescale = readUint32BE(bytes, mvhd.start + (version === 1 ? 20 : 12));
+    const length = version === 1 ? readUint64BE(bytes, mvhd.start + 24) : readUint32BE(bytes, mvhd.start + 16);
+    if (timescale > 0) duration = length / timescale;
+  }
+
+  // The audio track's timescale is its sample rate
+  let sampleRate = 0;
+  const mdhd = findAtom(bytes, moov, ['trak', 'mdia', 'mdhd']);
+  if (mdhd) sampleRate = readUint32BE(bytes, mdhd.start + (bytes[mdhd.start] === 1 ? 20 : 12));
+
+  const items = getIlstItems(bytes, moov);
+  const text = (type: string) => {
+    const [item] = getItemData(bytes, items.get(type));
+    return item ? decodeText(item.data).trim() || undefined : undefined;
+  };
+  const numberPair = (type: string): [number | undefined, number | undefined] => {
+    const [item] = getItemData(bytes, items.get(type));
+    if (!item || item.data.length < 6) return [undefined, undefined];
+    return [readUint16BE(item.data, 2) || undefined, readUint16BE(item.data, 4) || undefined];
+  };
+
+  let genre = text('©gen');
+  if (!genre) {
+    const [item] = getItemData(bytes, items.get('gnre'));
+    // Stored as the ID3v1 genre index plus one
+    if (item && item.data.length >= 2) genre = getGenreName(readUint16BE(item.data, 0) - 1);
+  }
+
+  const lyrics = text('©lyr');
+  const [trackNumber, trackTotal] = numberPair('trkn');
+  const [discNumber, discTotal] = numberPair('disk');
+  const pictures: AudioPicture[] = getItemData(bytes, items.get('covr')).map(({ type, data }) => ({
+    type: FRONT_COVER,
+    format: type === DATA_TYPE_PNG ? 'image/png' : 'image/jpeg',
+    description: '',
+    data: data.slice(),
+  }));
+
+  return {
+    title: text('©nam'),
+    artist: text('©ART'),
+    album: text('©alb'),
+    albumArtist: text('aART'),
+    composer: text('©wrt'),
+    genre,
+    year: parseYear(text('©day')),
+    trackNumber,
+    trackTotal,
+    discNumber,
+    discTotal,
+    // Written by MediaMonkey and others as text from 0 to 100
+    rating: parseRating(text('rate'), 100),
+    duration,
+    gapless: parseITunSmpb(getFreeformText(bytes, moov, 'iTunSMPB'), sampleRate),
+    // foobar2000 and others write lower case names, some taggers upper case
+    replayGain: parseReplayGain(key => getFreeformText(bytes, moov, key.toLowerCase()) ?? getFreeformText(bytes, moov, key)),
+    // Nero chapters are quicker to read, iTunes audiobooks only have the chapter track
+    chapters: parseNeroChapters(bytes, moov) ?? await parseChapterTrack(file, bytes, moov),
+    lyrics: lyrics ? parseLyrics(lyrics) : undefined,
+    pictures,
+  };
+}
@@ -0,0 +1,137 @@
+import { GaplessInfo } from './types';
+import { readAscii, readUint24BE, readUint32BE } from './bytes';
+
+// Bitrates in kbps, indexed by [MPEG 1 ? 0 : 1][layer - 1][bitrate index]
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000],  // MPEG 2.5
+};
+
+export interface MpegFrameHeader {
+  isMpeg1: boolean;
+  layer: number;
+  bitrate: number;
+  sampleRate: number;
+  samplesPerFrame: number;
+  isMono: boolean;
+  frameLength: number;
+}
+
+export function parseFrameHeader(bytes: Uint8Array, offset: number): MpegFrameHeader | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xFF || (bytes[offset + 1] & 0xE0) !== 0xE0) return null;
+
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const bitrate = BITRATES[isMpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152;
+  const frameLength = layer === 1
+    ? (Math.floor(12 * bitrate / sampleRate) + padding) * 4
+    : Math.floor(samplesPerFrame / 8 * bitrate / sampleRate) + padding;
+
+  return {
+    isMpeg1,
+    layer,
+    bitrate,
+    sampleRate,
+    samplesPerFrame,
+    isMono: (bytes[offset + 3] >> 6) === 3,
+    frameLength,
+  };
+}
+
+// Finds the first frame whose successor is also a valid frame, to avoid false syncs in garbage data
+export function findFirstFrame(bytes: Uint8Array): { offset: number; header: MpegFrameHeader } | null {
+  for (let offset = 0; offset + 4 <= bytes.length; offset++) {
+    const header = parseFrameHeader(bytes, offset);
+    if (!header) continue;
+    const next = offset + header.frameLength;
+    if (next + 4 > bytes.length || parseFrameHeader(bytes, next)) return { offset, header };
+  }
+  return null;
+}
+
+// Offset of the Xing/Info header from the start of the frame: frame header plus side information
+export const getXingOffset = (header: MpegFrameHeader) =>
+  4 + (header.isMpeg1 ? (header.isMono ? 17 : 32) : (header.isMono ? 9 : 17));
+
+// Counts frames from the Xing/Info (LAME) or VBRI header in the first frame, if present
+function getFrameCount(bytes: Uint8Array, offset: number, header: MpegFrameHeader): number | null {
+  const xing = offset + getXingOffset(header);
+  const xingId = readAscii(bytes, xing, 4);
+  if ((xingId === 'Xing' || xingId === 'Info') && readUint32BE(bytes, xing + 4) & 0x01) {
+    return readUint32BE(bytes, xing + 8);
+  }
+  const vbri = offset + 36;
+  if (readAscii(bytes, vbri, 4) === 'VBRI') {
+    return readUint32BE(bytes, vbri + 14);
+  }
+  return null;
+}
+
+// Samples of delay the MP3 decoder itself adds, on top of the encoder delay
+const DECODER_DELAY = 529;
+
+// Reads the encoder delay and padding that LAME (and FFmpeg, which writes the same header)
+// stores after the Xing/Info header. The decoder delay is moved from the padding to the delay.
+export function getMpegGapless(bytes: Uint8Array): GaplessInfo | undefined {
+  const frame = findFirstFrame(bytes);
+  if (!frame) return undefined;
+  const { offset, header } = frame;
+  const xing = offset + getXingOffset(header);
+  const xingId = readAscii(bytes, xing, 4);
+  const flags = readUint32BE(bytes, xing + 4);
+  if ((xingId !== 'Xing' && xingId !== 'Info') || !(flags & 0x01)) return undefined;
+
+  // The LAME header follows the optional frame count, byte count, seek table and quality fields
+  let lame = xing + 8;
+  if (flags & 0x01) lame += 4;
+  if (flags & 0x02) lame += 4;
+  if (flags & 0x04) lame += 100;
+  if (flags & 0x08) lame += 4;
+  if (!['LAME', 'Lavc', 'Lavf'].includes(readAscii(bytes, lame, 4)) || lame + 24 > bytes.length) return undefined;
+
+  // Twelve bits each, after the encoder version, VBR method, lowpass, ReplayGain, flags and bitrate
+  const delayAndPadding = readUint24BE(bytes, lame + 21);
+  const delay = (delayAndPadding >> 12) + DECODER_DELAY;
+  const padding = Math.max(0, (delayAndPadding & 0xFFF) - DECODER_DELAY);
+  const length = readUint32BE(bytes, xing + 8) * header.samplesPerFrame - delay - padding;
+  if (length <= 0) return undefined;
+  return { delay: delay / header.sampleRate, padding: padding / header.sampleRate, length: length / header.sampleRate };
+}
+
+// `bytes` starts where the audio starts (after any ID3v2 tag), `audioSize` is the size of the
+// audio data excluding trailing tags. Without a VBR header the stream is assumed to be CBR.
+export function getMpegDuration(bytes: Uint8Array, audioSize: number): number {
+  const frame = findFirstFrame(bytes);
+  if (!frame) return 0;
+  const { offset, header } = frame;
+  const frameCount = getFrameCount(bytes, offset, header);
+  if (frameCount) {
+    return frameCount * header.samplesPerFrame / header.sampleRate;
+  }
+  return (audioSize - offset) * 8 / header.bitrate;
+}
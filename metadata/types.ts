@@ -0,0 +1,66 @@
+export interface AudioPicture {
+  // Picture type as defined by ID3v2 APIC and FLAC PICTURE, 3 is the front cover
+  type: number;
+  format: string;
+  description: string;
+  data: Uint8Array;
+}
+
+// Silence the encoder added before and after the audio, and the length of the audio in
+// between, all in seconds. Leaving out the first two makes consecutive tracks play gaplessly.
+export interface GaplessInfo {
+  delay: number;
+  padding: number;
+  length: number;
+}
+
+// Gains in dB that bring a track or its whole album to the ReplayGain 2.0 reference of
+// -18 LUFS, with the matching peak sample values where 1 is full scale
+export interface ReplayGainInfo {
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+}
+
+// A named part of a long track, such as an audiobook chapter, starting `start` seconds in.
+// It lasts until the next chapter starts.
+export interface Chapter {
+  title: string;
+  start: number;
+}
+
+// A line of lyrics. Synchronized lyrics give each line the time it's sung at, in seconds.
+export interface LyricLine {
+  time?: number;
+  text: string;
+}
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  composer?: string;
+  genre?: string;
+  year?: number;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  // 0.5 to 5 stars
+  rating?: number;
+  // Duration in seconds computed from the stream headers, 0 when unknown
+  duration: number;
+  // From the LAME header of MP3s and the iTunSMPB tag of MP4s
+  gapless?: GaplessInfo;
+  // From REPLAYGAIN_* tags, or the R128_* gains of Opus files
+  replayGain?: ReplayGainInfo;
+  // From ID3 CHAP frames and MP4 chapter lists, in order
+  chapters?: Chapter[];
+  // From ID3 SYLT or USLT frames, Vorbis LYRICS comments or the MP4 lyrics item
+  lyrics?: LyricLine[];
+  pictures: AudioPicture[];
+}
+
+export const FRONT_COVER = 3;
@@ -0,0 +1,216 @@
+import { AudioMetadata, AudioPicture } from './types';
+import { parseLyrics } from './lyrics';
+import { decodeText, indexOfBytes, parseNumberPair, parseRating, parseReplayGain, parseYear, readAscii, readSlice, readUint24BE, readUint32BE, readUint32LE, readUint64LE } from './bytes';
+
+const FLAC_STREAMINFO = 0;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+// Parses a FLAC PICTURE block, also used base64-encoded in Ogg METADATA_BLOCK_PICTURE comments
+function parseFlacPicture(bytes: Uint8Array): AudioPicture {
+  let offset = 0;
+  const type = readUint32BE(bytes, offset);
+  const formatLength = readUint32BE(bytes, offset + 4);
+  offset += 8;
+  const format = decodeText(bytes.subarray(offset, offset + formatLength), 'latin1');
+  offset += formatLength;
+  const descriptionLength = readUint32BE(bytes, offset);
+  offset += 4;
+  const description = decodeText(bytes.subarray(offset, offset + descriptionLength));
+  // Skip width, height, colour depth and palette size
+  offset += descriptionLength + 16;
+  const dataLength = readUint32BE(bytes, offset);
+  offset += 4;
+  return { type, format, description, data: bytes.slice(offset, offset + dataLength) };
+}
+
+// Parses a Vorbis comment block (without any packet type prefix) into upper-cased field names
+export function readVorbisComments(bytes: Uint8Array): Map<string, string[]> {
+  const comments = new Map<string, string[]>();
+  let offset = 4 + readUint32LE(bytes, 0); // Vendor string
+  const count = readUint32LE(bytes, offset);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset);
+    const comment = decodeText(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    const separator = comment.indexOf('=');
+    if (separator <= 0) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    if (!comments.has(key)) comments.set(key, []);
+    comments.get(key)!.push(comment.slice(separator + 1));
+  }
+  return comments;
+}
+
+export function parseVorbisComments(bytes: Uint8Array): Partial<AudioMetadata> {
+  const comments = readVorbisComments(bytes);
+  const get = (...keys: string[]) => {
+    for (const key of keys) {
+      const values = comments.get(key)?.map(value => value.trim()).filter(Boolean);
+      if (values?.length) return values.join('; ');
+    }
+    return undefined;
+  };
+
+  const [trackNumber, trackOf] = parseNumberPair(get('TRACKNUMBER'));
+  const [discNumber, discOf] = parseNumberPair(get('DISCNUMBER'));
+  const trackTotal = Number(get('TRACKTOTAL', 'TOTALTRACKS')) || trackOf;
+  const discTotal = Number(get('DISCTOTAL', 'TOTALDISCS')) || discOf;
+  // RATING is usually out of 100 but some taggers write stars, FMPS_RATING is 0 to 1
+  const rating = get('RATING');
+  const fmpsRating = get('FMPS_RATING');
+
+  // Opus files carry R128 gains instead, as Q7.8 fixed point dB relative to -23 LUFS,
+  // which is 5 dB quieter than the ReplayGain reference
+  const r128 = (key: string) => {
+    const value = parseInt(get(key) ?? '', 10);
+    return isNaN(value) ? undefined : value / 256 + 5;
+  };
+  const r128TrackGain = r128('R128_TRACK_GAIN');
+  const r128AlbumGain = r128('R128_ALBUM_GAIN');
+  const replayGain = r128TrackGain !== undefined || r128AlbumGain !== undefined
+    ? { trackGain: r128TrackGain, albumGain: r128AlbumGain }
+    : parseReplayGain(key => get(key));
+
+  const pictures: AudioPicture[] = [];
+  for (const value of comments.get('METADATA_BLOCK_PICTURE') ?? []) {
+    try {
+      pictures.push(parseFlacPicture(Uint8Array.from(atob(value), c => c.charCodeAt(0))));
+    } catch {
+      // Ignore malformed pictures
+    }
+  }
+
+  // Either plain text or LRC, kept whole since lines matter
+  const lyrics = comments.get('LYRICS')?.[0] ?? comments.get('UNSYNCEDLYRICS')?.[0];
+
+  return {
+    title: get('TITLE'),
+    artist: get('ARTIST'),
+    album: get('ALBUM'),
+    albumArtist: get('ALBUMARTIST', 'ALBUM ARTIST'),
+    composer: get('COMPOSER'),
+    genre: get('GENRE'),
+    year: parseYear(get('DATE', 'YEAR', 'ORIGINALDATE')),
+    trackNumber,
+    trackTotal,
+    discNumber,
+    discTotal,
+    rating: fmpsRating ? parseRating(fmpsRating, 1) : parseRating(rating, Number(rating) <= 5 ? 5 : 100),
+    replayGain,
+    lyrics: lyrics?.trim() ? parseLyrics(lyrics) : undefined,
+    pictures,
+  };
+}
+
+export interface FlacBlock {
+  type: number;
+  data: Uint8Array;
+}
+
+// Reads the metadata blocks following the "fLaC" marker at `start`
+export async function readFlacBlocks(file: Blob, start: number): Promise<FlacBlock[]> {
+  const blocks: FlacBlock[] = [];
+  let offset = start + 4;
+  while (offset + 4 <= file.size) {
+    const header = await readSlice(file, offset, offset + 4);
+    const length = readUint24BE(header, 1);
+    blocks.push({ type: header[0] & 0x7F, data: await readSlice(file, offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+    if (header[0] & 0x80) break; // Last metadata block
+  }
+  return blocks;
+}
+
+export async function parseFlac(file: Blob, start: number): Promise<Partial<AudioMetadata>> {
+  const blocks = await readFlacBlocks(file, start);
+  let metadata: Partial<AudioMetadata> = {};
+  const pictures: AudioPicture[] = [];
+  let duration = 0;
+
+  for (const { type, data } of blocks) {
+    if (type === FLAC_STREAMINFO && data.length >= 18) {
+      const sampleRate = (data[10] << 12) | (data[11] << 4) | (data[12] >> 4);
+      const totalSamples = (data[13] & 0x0F) * 2 ** 32 + readUint32BE(data, 14);
+      if (sampleRate > 0) duration = totalSamples / sampleRate;
+    } else if (type === FLAC_VORBIS_COMMENT) {
+      metadata = parseVorbisComments(data);
+    } else if (type === FLAC_PICTURE) {
+      pictures.push(parseFlacPicture(data));
+    }
+  }
+
+  return { ...metadata, duration, pictures: [...pictures, ...(metadata.pictures ?? [])] };
+}
+
+const OGG_CAPTURE_PATTERN = [0x4F, 0x67, 0x67, 0x53]; // "OggS"
+const OGG_PAGE_HEADER_SIZE = 27;
+
+// Reads the first `count` packets of the logical stream starting at `start`, page by page
+async function readOggPackets(file: Blob, start: number, count: number): Promise<Uint8Array[]> {
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let offset = start;
+
+  while (packets.length < count && offset + OGG_PAGE_HEADER_SIZE <= file.size) {
+    const header = await readSlice(file, offset, offset + OGG_PAGE_HEADER_SIZE);
+    if (readAscii(header, 0, 4) !== 'OggS') break;
+    const segmentCount = header[26];
+    const segments = await readSlice(file, offset + OGG_PAGE_HEADER_SIZE, offset + OGG_PAGE_HEADER_SIZE + segmentCount);
+    const bodyStart = offset + OGG_PAGE_HEADER_SIZE + segmentCount;
+    const bodyLength = segments.reduce((sum, size) => sum + size, 0);
+    const body = await readSlice(file, bodyStart, bodyStart + bodyLength);
+
+    // A packet ends at the first segment shorter than 255 bytes
+    let position = 0;
+    for (const size of segments) {
+      current.push(body.subarray(position, position + size));
+      position += size;
+      if (size < 255) {
+        const packet = new Uint8Array(current.reduce((sum, part) => sum + part.length, 0));
+        let at = 0;
+        for (const part of current) {
+          packet.set(part, at);
+          at += part.length;
+        }
+        packets.push(packet);
+        current = [];
+        if (packets.length === count) break;
+      }
+    }
+    offset = bodyStart + bodyLength;
+  }
+  return packets;
+}
+
+// The granule position of the last page is the total number of samples in the stream
+async function readLastGranulePosition(file: Blob): Promise<number> {
+  const tail = await readSlice(file, file.size - 65536, file.size);
+  let last = -1;
+  for (let i = indexOfBytes(tail, OGG_CAPTURE_PATTERN); i !== -1; i = indexOfBytes(tail, OGG_CAPTURE_PATTERN, i + 1)) {
+    if (i + OGG_PAGE_HEADER_SIZE <= tail.length) last = i;
+  }
+  return last === -1 ? 0 : readUint64LE(tail, last + 6);
+}
+
+export async function parseOgg(file: Blob, start: number): Promise<Partial<AudioMetadata>> {
+  const [identification, comments] = await readOggPackets(file, start, 2);
+  if (!identification) return {};
+
+  let metadata: Partial<AudioMetadata> = {};
+  let sampleRate = 0;
+  let preSkip = 0;
+  if (readAscii(identification, 1, 6) === 'vorbis') {
+    sampleRate = readUint32LE(identification, 12);
+    if (comments && readAscii(comments, 1, 6) === 'vorbis') metadata = parseVorbisComments(comments.subarray(7));
+  } else if (readAscii(identification, 0, 8) === 'OpusHead') {
+    // Opus granule positions always count 48 kHz samples
+    sampleRate = 48000;
+    preSkip = identification[10] | (identification[11] << 8);
+    if (comments && readAscii(comments, 0, 8) === 'OpusTags') metadata = parseVorbisComments(comments.subarray(8));
+  }
+
+  const granule = sampleRate > 0 ? await readLastGranulePosition(file) : 0;
+  return { ...metadata, duration: granule > preSkip ? (granule - preSkip) / sampleRate : 0 };
+}
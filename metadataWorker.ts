@@ -0,0 +1,11 @@
+// Web Worker that reads tags off the main thread, so scanning a large library
+// doesn't block rendering.
+
+import { readSongTags, SongTags } from './songTags';
+import { WorkerRequest, WorkerResponse } from './workerRunner';
+
+self.onmessage = async (event: MessageEvent<WorkerRequest<File>>) => {
+  const { id, input } = event.data;
+  const response: WorkerResponse<SongTags> = { id, output: await readSongTags(input) };
+  self.postMessage(response);
+};
@@ -0,0 +1,104 @@
+// Shifts pitch without changing speed, using only built-in nodes. Two delay lines have their
+// delay swept in a sawtooth, which plays what goes through them slightly faster or slower, the
+// way a Doppler shift does. Each sweep has to jump back at some point, so the two lines take
+// turns and crossfade over the jumps. This is the delay-based shifter from Chris Wilson's Web
+// Audio demos: it smears transients a little, which is fine for practicing along in another key.
+
+// Length of one sweep in seconds. The lines are half a sweep apart and each fades over half a sweep.
+const GRAIN_TIME = 0.1;
+const FADE_TIME = GRAIN_TIME / 2;
+// Time constant of depth changes, quick enough to follow a slider
+const DEPTH_SMOOTHING = 0.02;
+
+export const MAX_PITCH_SHIFT = 12;
+
+export interface PitchShifter {
+  input: AudioNode;
+  output: AudioNode;
+  // Semitones up or down, 0 leaves the delay lines out
+  setShift: (semitones: number) => void;
+}
+
+function createBuffer(context: BaseAudioContext, sample: (progress: number) => number): AudioBuffer {
+  const length = Math.round(GRAIN_TIME * context.sampleRate);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const samples = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) samples[i] = sample(i / length);
+  return buffer;
+}
+
+interface DelayLine {
+  delay: DelayNode;
+  output: GainNode;
+  // Only one of the sweeps gets through: a falling delay raises the pitch, a rising one lowers it
+  falling: GainNode;
+  rising: GainNode;
+  depth: GainNode;
+}
+
+export function createPitchShifter(context: BaseAudioContext): PitchShifter {
+  const input = context.createGain();
+  const output = context.createGain();
+  input.connect(output);
+
+  // Built the first time the pitch is shifted, their looping sources then run for as long as the context does
+  let lines: DelayLine[] | null = null;
+  let bypassed = true;
+
+  const createLines = (): DelayLine[] => {
+    const fallingBuffer = createBuffer(context, progress => 1 - progress);
+    const risingBuffer = createBuffer(context, progress => progress);
+    // Equal-power fades in and out, so the two lines add up to a steady level
+    const fadeBuffer = createBuffer(context, progress =>
+      Math.sqrt(progress < 0.5 ? progress / 0.5 : (1 - progress) / 0.5));
+    const start = context.currentTime;
+    const loop = (buffer: AudioBuffer, when: number) => {
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.loop = true;
+      source.start(when);
+      return source;
+    };
+    return [start, start + GRAIN_TIME - FADE_TIME].map(when => {
+      const delay = context.createDelay(1);
+      const fade = context.createGain();
+      const falling = context.createGain();
+      const rising = context.createGain();
+      const depth = context.createGain();
+      loop(fallingBuffer, when).connect(falling).connect(depth);
+      loop(risingBuffer, when).connect(rising).connect(depth);
+      depth.connect(delay.delayTime);
+      fade.gain.value = 0;
+      loop(fadeBuffer, when).connect(fade.gain);
+      delay.connect(fade).connect(output);
+      return { delay, output: fade, falling, rising, depth };
+    });
+  };
+
+  return {
+    input,
+    output,
+    setShift: (semitones) => {
+      const bypass = semitones === 0;
+      if (!bypass) {
+        lines ??= createLines();
+        const ratio = Math.pow(2, semitones / 12);
+        // The delay changes by `depth` over each sweep, which changes the speed by depth / GRAIN_TIME
+        const depth = Math.abs(ratio - 1) * GRAIN_TIME;
+        for (const line of lines) {
+          line.falling.gain.value = ratio > 1 ? 1 : 0;
+          line.rising.gain.value = ratio < 1 ? 1 : 0;
+          line.depth.gain.setTargetAtTime(depth, context.currentTime, DEPTH_SMOOTHING);
+        }
+      }
+      if (bypass === bypassed) return;
+      input.disconnect();
+      if (bypass) {
+        input.connect(output);
+      } else {
+        lines!.forEach(line => input.connect(line.delay));
+      }
+      bypassed = bypass;
+    },
+  };
+}
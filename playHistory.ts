@@ -0,0 +1,53 @@
+import { PlayRecord, SongStats } from './types';
+
+// Play and skip counts and the last time each song was played, keyed by song ID
+export function computeSongStats(plays: PlayRecord[]): Map<string, SongStats> {
+  const stats = new Map<string, SongStats>();
+  for (const play of plays) {
+    let songStats = stats.get(play.songId);
+    if (!songStats) stats.set(play.songId, (songStats = { playCount: 0, skipCount: 0 }));
+    if (play.completed) songStats.playCount++;
+    if (play.skipped) songStats.skipCount++;
+    songStats.lastPlayed = Math.max(songStats.lastPlayed ?? 0, play.startedAt);
+  }
+  return stats;
+}
+
+// Song IDs with the most completed plays first
+export function getMostPlayed(stats: Map<string, SongStats>, limit: number): string[] {
+  return [...stats]
+    .filter(([, songStats]) => songStats.playCount > 0)
+    .sort(([, a], [, b]) => b.playCount - a.playCount || (b.lastPlayed ?? 0) - (a.lastPlayed ?? 0))
+    .slice(0, limit)
+    .map(([songId]) => songId);
+}
+
+// Song IDs by when they were last played, most recent first, each song once
+export function getRecentlyPlayed(stats: Map<string, SongStats>, limit: number): string[] {
+  return [...stats]
+    .sort(([, a], [, b]) => (b.lastPlayed ?? 0) - (a.lastPlayed ?? 0))
+    .slice(0, limit)
+    .map(([songId]) => songId);
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// "5 minutes ago", "yesterday", "3 days ago", then the date
+export function formatRelativeTime(timestamp: number, now = Date.now()): string {
+  const elapsed = now - timestamp;
+  if (elapsed < MINUTE) return 'just now';
+  if (elapsed < HOUR) {
+    const minutes = Math.floor(elapsed / MINUTE);
+    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'} ago`;
+  }
+  if (elapsed < DAY) {
+    const hours = Math.floor(elapsed / HOUR);
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
+  }
+  const days = Math.floor(elapsed / DAY);
+  if (days === 1) return 'yesterday';
+  if (days < 7) return `${days} days ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
@@ -0,0 +1,65 @@
+import { Song } from './types';
+import { getContentHashFromId, getTrackKey } from './library';
+
+const PLAYBACK_RATES_KEY = 'musicPlayerPlaybackRates';
+
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 4;
+export const PLAYBACK_RATE_STEP = 0.05;
+
+// What a remembered rate applies to: one track wherever it's moved, or every track in a folder
+export type RateScope = 'track' | 'folder';
+
+// Rates remembered for tracks (by content hash) and folders (by path), used instead of the global rate
+export interface SavedPlaybackRates {
+  tracks: Record<string, number>;
+  folders: Record<string, number>;
+}
+
+export const clampPlaybackRate = (rate: number) => {
+  const stepped = Math.round(rate / PLAYBACK_RATE_STEP) * PLAYBACK_RATE_STEP;
+  return Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, Number(stepped.toFixed(2))));
+};
+
+export const getFolderKey = (song: Song) => getTrackKey(song.path.slice(0, -1));
+
+export function loadPlaybackRates(): SavedPlaybackRates {
+  const validRates = (rates: unknown) => Object.fromEntries(
+    Object.entries(rates && typeof rates === 'object' ? rates : {})
+      .filter(([, rate]) => typeof rate === 'number' && isFinite(rate))
+      .map(([key, rate]) => [key, clampPlaybackRate(rate)]),
+  );
+  try {
+    const saved = JSON.parse(localStorage.getItem(PLAYBACK_RATES_KEY) ?? '{}');
+    return { tracks: validRates(saved.tracks), folders: validRates(saved.folders) };
+  } catch (e) {
+    console.error("Failed to load playback rates from localStorage:", e);
+    localStorage.removeItem(PLAYBACK_RATES_KEY);
+    return { tracks: {}, folders: {} };
+  }
+}
+
+export function savePlaybackRates(rates: SavedPlaybackRates) {
+  localStorage.setItem(PLAYBACK_RATES_KEY, JSON.stringify(rates));
+}
+
+// The track's own rate wins over its folder's
+export function getRememberedRate(rates: SavedPlaybackRates, song: Song | null): { rate: number; scope: RateScope } | null {
+  if (!song) return null;
+  const trackRate = rates.tracks[getContentHashFromId(song.id)];
+  if (trackRate !== undefined) return { rate: trackRate, scope: 'track' };
+  const folderRate = rates.folders[getFolderKey(song)];
+  return folderRate !== undefined ? { rate: folderRate, scope: 'folder' } : null;
+}
+
+// Remembers `rate` for the song's track or folder. A track's own rate is dropped when its
+// folder's is set, so that it takes effect. A null scope forgets both.
+export function rememberRate(rates: SavedPlaybackRates, song: Song, scope: RateScope | null, rate: number): SavedPlaybackRates {
+  const trackKey = getContentHashFromId(song.id);
+  const folderKey = getFolderKey(song);
+  const { [trackKey]: _track, ...tracks } = rates.tracks;
+  const { [folderKey]: _folder, ...folders } = rates.folders;
+  if (scope === 'track') return { tracks: { ...tracks, [trackKey]: rate }, folders: rates.folders };
+  if (scope === 'folder') return { tracks, folders: { ...folders, [folderKey]: rate } };
+  return { tracks, folders };
+}
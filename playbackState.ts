@@ -0,0 +1,144 @@
+import { Song, RepeatMode, ShuffleMode } from './types';
+import { getContentHashFromId } from './library';
+
+export const LOCAL_STORAGE_KEY = 'musicPlayerState';
+
+// A song played before the current one, and whether it was played from Up Next, in which
+// case going back to it leaves the queue position alone
+export interface HistoryEntry {
+  songId: string;
+  fromUpNext?: boolean;
+}
+
+// What is persisted in localStorage. Songs are referenced by their stable ID rather than
+// by index, so the state still applies after files are added or removed. The queue is
+// only stored while shuffled, otherwise it is the library or playlist order.
+export interface SavedPlaybackState {
+  playQueue?: string[];
+  // Set while a playlist or a browsed album, artist etc. is playing, together with its
+  // songs in their unshuffled order
+  playlistId?: string;
+  queueName?: string;
+  originalQueue?: string[];
+  currentSongId: string | null;
+  // The Up Next queue, the song from it that is playing (if any) and what played before
+  upNext?: string[];
+  queuedSongId?: string;
+  // Plain song IDs in states saved before Up Next songs were told apart
+  history?: (HistoryEntry | string)[];
+  isShuffled: boolean;
+  shuffleMode?: ShuffleMode;
+  repeatMode: RepeatMode;
+  playbackRate: number;
+  currentTime: number;
+}
+
+export interface PlaybackStateInput {
+  songs: Song[];
+  playQueue: number[];
+  originalQueue: number[];
+  activePlaylistId: string | null;
+  queueName: string | null;
+  currentSongIndex: number | null;
+  upNext: string[];
+  queuedSongId: string | null;
+  history: HistoryEntry[];
+  isShuffled: boolean;
+  shuffleMode: ShuffleMode;
+  repeatMode: RepeatMode;
+  playbackRate: number;
+}
+
+// Number of played songs remembered for going back
+export const MAX_HISTORY_LENGTH = 100;
+
+export function serializePlaybackState(state: PlaybackStateInput, currentTime: number): SavedPlaybackState {
+  const { songs, playQueue, originalQueue, activePlaylistId, queueName, currentSongIndex, upNext, queuedSongId, history, isShuffled, shuffleMode, repeatMode, playbackRate } = state;
+  const toIds = (queue: number[]) => queue.map(index => songs[index]?.id).filter(Boolean);
+  return {
+    playQueue: isShuffled ? toIds(playQueue) : undefined,
+    playlistId: activePlaylistId ?? undefined,
+    queueName: queueName ?? undefined,
+    originalQueue: activePlaylistId || queueName ? toIds(originalQueue) : undefined,
+    currentSongId: currentSongIndex !== null ? songs[playQueue[currentSongIndex]]?.id ?? null : null,
+    upNext: upNext.length > 0 ? upNext : undefined,
+    queuedSongId: queuedSongId ?? undefined,
+    history: history.length > 0 ? history.slice(-MAX_HISTORY_LENGTH) : undefined,
+    isShuffled,
+    shuffleMode,
+    repeatMode,
+    playbackRate,
+    currentTime,
+  };
+}
+
+export interface RestoredPlaybackState {
+  playQueue: number[];
+  originalQueue: number[];
+  activePlaylistId: string | null;
+  queueName: string | null;
+  currentSongIndex: number;
+  upNext: string[];
+  queuedSongId: string | null;
+  history: HistoryEntry[];
+  isShuffled: boolean;
+  shuffleMode: ShuffleMode;
+  repeatMode: RepeatMode;
+  playbackRate: number;
+  currentTime: number;
+}
+
+// Resolves a saved state against the current library. Songs that no longer exist are
+// dropped from the queue and, unless a playlist or album is playing, new ones are appended to it.
+// A song that moved is found again by its content hash.
+export function restorePlaybackState(songs: Song[], saved: SavedPlaybackState): RestoredPlaybackState | null {
+  if (!saved || !('currentSongId' in saved)) return null;
+
+  const indexById = new Map(songs.map((song, index) => [song.id, index]));
+  const indexByContent = new Map(songs.map((song, index) => [getContentHashFromId(song.id), index]));
+  const findIndex = (id: string) => indexById.get(id) ?? indexByContent.get(getContentHashFromId(id));
+
+  const resolveIds = (ids: string[]) => [...new Set(ids.map(findIndex).filter((index): index is number => index !== undefined))];
+  const isPlaylist = !!saved.playlistId && !!saved.originalQueue;
+  const isNamedQueue = !isPlaylist && !!saved.queueName && !!saved.originalQueue;
+  const originalQueue = isPlaylist || isNamedQueue ? resolveIds(saved.originalQueue!) : songs.map((_, index) => index);
+  let playQueue = originalQueue;
+  if (saved.isShuffled && saved.playQueue) {
+    const restored = resolveIds(saved.playQueue);
+    const queued = new Set(restored);
+    playQueue = [...restored, ...originalQueue.filter(index => !queued.has(index))];
+  }
+  if (playQueue.length === 0) return null;
+
+  const currentIndex = saved.currentSongId ? findIndex(saved.currentSongId) : undefined;
+  const currentSongIndex = currentIndex !== undefined ? playQueue.indexOf(currentIndex) : -1;
+  // Queued songs and history may repeat a song, so they are resolved one by one
+  const resolveSongIds = (ids: string[] = []) => ids
+    .map(findIndex)
+    .filter((index): index is number => index !== undefined)
+    .map(index => songs[index].id);
+  const [queuedSongId = null] = resolveSongIds(saved.queuedSongId ? [saved.queuedSongId] : []);
+  // The playing song is either the queued one or the one in the queue
+  const isSameSong = saved.queuedSongId ? queuedSongId !== null : currentSongIndex !== -1;
+
+  return {
+    playQueue,
+    originalQueue,
+    activePlaylistId: isPlaylist ? saved.playlistId! : null,
+    queueName: isNamedQueue ? saved.queueName! : null,
+    currentSongIndex: Math.max(0, currentSongIndex),
+    upNext: resolveSongIds(saved.upNext),
+    queuedSongId,
+    history: (saved.history ?? []).flatMap(entry => {
+      const { songId, fromUpNext } = typeof entry === 'string' ? { songId: entry } : entry;
+      return resolveSongIds([songId]).map(id => (fromUpNext ? { songId: id, fromUpNext } : { songId: id }));
+    }),
+    isShuffled: !!saved.isShuffled,
+    shuffleMode: saved.shuffleMode ?? ShuffleMode.TRACKS,
+    // The A-B markers aren't saved, so there is no segment to go back to
+    repeatMode: saved.repeatMode === RepeatMode.SEGMENT ? RepeatMode.NONE : saved.repeatMode ?? RepeatMode.NONE,
+    playbackRate: saved.playbackRate || 1,
+    // Only resume mid-song if it is the same song
+    currentTime: isSameSong ? saved.currentTime || 0 : 0,
+  };
+}
@@ -0,0 +1,253 @@
+import { Song, Playlist, PlaylistFormat } from './types';
+import { LibraryFileEntry, getTrackKey } from './library';
+
+// Entries of a playlist file that don't match any song in the library are kept under
+// this prefix in `songIds`, so they are written back unchanged.
+export const UNRESOLVED_ENTRY_PREFIX = 'unresolved:';
+
+const PLAYLIST_EXTENSIONS: Record<string, PlaylistFormat> = { m3u: 'm3u', m3u8: 'm3u8', pls: 'pls' };
+
+export function getPlaylistFormat(fileName: string): PlaylistFormat | undefined {
+  return PLAYLIST_EXTENSIONS[fileName.split('.').pop()?.toLowerCase() ?? ''];
+}
+
+interface PlaylistFileEntry {
+  location: string;
+  title?: string;
+  duration?: number;
+}
+
+function parseM3U(text: string): PlaylistFileEntry[] {
+  const entries: PlaylistFileEntry[] = [];
+  let info: Omit<PlaylistFileEntry, 'location'> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('#EXTINF:')) {
+      const comma = line.indexOf(',');
+      const duration = parseInt(line.slice(8, comma === -1 ? undefined : comma), 10);
+      info = { duration: duration > 0 ? duration : undefined, title: comma === -1 ? undefined : line.slice(comma + 1).trim() };
+    } else if (!line.startsWith('#')) {
+      entries.push({ location: line, ...info });
+      info = {};
+    }
+  }
+  return entries;
+}
+
+function parsePLS(text: string): PlaylistFileEntry[] {
+  const entries = new Map<number, PlaylistFileEntry>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^(File|Title|Length)(\d+)=(.*)$/i);
+    if (!match) continue;
+    const [, key, number, value] = match;
+    const entry = entries.get(Number(number)) ?? { location: '' };
+    if (key.toLowerCase() === 'file') entry.location = value.trim();
+    else if (key.toLowerCase() === 'title') entry.title = value.trim();
+    else if (Number(value) > 0) entry.duration = Number(value);
+    entries.set(Number(number), entry);
+  }
+  return [...entries.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+    .filter(entry => entry.location);
+}
+
+// Resolves "." and ".." segments
+function normalizePath(parts: string[]): string[] {
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved;
+}
+
+// Finds the song an entry points to. Relative entries are resolved against the playlist's
+// folder. Absolute paths (from another machine, say) are matched by their longest suffix
+// that is a path in the library.
+function resolveLocation(location: string, playlistDir: string[], songIdByKey: Map<string, string>): string | undefined {
+  let path = location;
+  if (/^file:\/\//i.test(path)) {
+    path = decodeURIComponent(path.replace(/^file:\/\/(localhost)?/i, ''));
+  } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path)) {
+    return undefined; // Streams and other URLs
+  }
+  const parts = path.replace(/\\/g, '/').split('/');
+  const isAbsolute = path.startsWith('/') || /^[a-z]:$/i.test(parts[0]);
+
+  if (!isAbsolute) {
+    const id = songIdByKey.get(getTrackKey(normalizePath([...playlistDir, ...parts])).toLowerCase());
+    if (id) return id;
+  }
+  const normalized = normalizePath(parts);
+  for (let i = 0; i < normalized.length; i++) {
+    const id = songIdByKey.get(getTrackKey(normalized.slice(i)).toLowerCase());
+    if (id) return id;
+  }
+  return undefined;
+}
+
+// Reads the playlist files found in the music folder, resolving their entries to songs
+export async function readPlaylistFiles(entries: LibraryFileEntry[], songs: Song[]): Promise<Playlist[]> {
+  const songIdByKey = new Map(songs.map(song => [getTrackKey(song.path).toLowerCase(), song.id]));
+  const playlists: Playlist[] = [];
+  for (const { file, path } of entries) {
+    const format = getPlaylistFormat(file.name);
+    if (!format) continue;
+    try {
+      const text = await file.text();
+      const fileEntries = format === 'pls' ? parsePLS(text) : parseM3U(text);
+      const playlistDir = path.slice(0, -1);
+      const name = file.name.replace(/\.[^/.]+$/, "");
+      const locations: Record<string, string> = {};
+      const songIds = fileEntries.map(entry => {
+        const id = resolveLocation(entry.location, playlistDir, songIdByKey);
+        if (!id) return `${UNRESOLVED_ENTRY_PREFIX}${entry.location}`;
+        locations[id] = entry.location;
+        return id;
+      });
+      playlists.push({
+        id: getPlaylistFileId(path),
+        name,
+        songIds,
+        createdAt: file.lastModified,
+        updatedAt: file.lastModified,
+        source: { path, format, name, locations },
+      });
+    } catch (e) {
+      console.error(`Failed to read playlist ${getTrackKey(path)}:`, e);
+    }
+  }
+  return playlists;
+}
+
+// Path of `target` relative to the folder `from`, with '/' separators
+function getRelativePath(from: string[], target: string[]): string {
+  let common = 0;
+  while (common < from.length && common < target.length - 1 && from[common] === target[common]) common++;
+  return [...from.slice(common).map(() => '..'), ...target.slice(common)].join('/');
+}
+
+// The file entries of a playlist, with the location each song was written at. Songs missing
+// from the library keep the location the file had for them, or are left out if it had none.
+function getFileEntries(playlist: Playlist, playlistDir: string[], songsById: Map<string, Song>) {
+  const entries: PlaylistFileEntry[] = [];
+  const locations: Record<string, string> = {};
+  for (const id of playlist.songIds) {
+    if (id.startsWith(UNRESOLVED_ENTRY_PREFIX)) {
+      entries.push({ location: id.slice(UNRESOLVED_ENTRY_PREFIX.length) });
+      continue;
+    }
+    const song = songsById.get(id);
+    if (!song) {
+      const location = playlist.source?.locations[id];
+      if (location === undefined) continue;
+      entries.push({ location });
+      locations[id] = location;
+      continue;
+    }
+    const location = getRelativePath(playlistDir, song.path);
+    entries.push({ location, title: `${song.artist} - ${song.name}`, duration: Math.round(song.duration) });
+    locations[id] = location;
+  }
+  return { entries, locations };
+}
+
+function serializePlaylist(entries: PlaylistFileEntry[], format: PlaylistFormat): string {
+
+  if (format === 'pls') {
+    const lines = ['[playlist]'];
+    entries.forEach((entry, i) => {
+      lines.push(`File${i + 1}=${entry.location}`);
+      if (entry.title) lines.push(`Title${i + 1}=${entry.title}`);
+      lines.push(`Length${i + 1}=${entry.duration || -1}`);
+    });
+    lines.push(`NumberOfEntries=${entries.length}`, 'Version=2');
+    return lines.join('\n') + '\n';
+  }
+
+  const lines = ['#EXTM3U'];
+  for (const entry of entries) {
+    if (entry.title) lines.push(`#EXTINF:${entry.duration || -1},${entry.title}`);
+    lines.push(entry.location);
+  }
+  return lines.join('\n') + '\n';
+}
+
+async function getDirectory(root: FileSystemDirectoryHandle, path: string[]): Promise<FileSystemDirectoryHandle> {
+  let directory = root;
+  for (const name of path) {
+    directory = await directory.getDirectoryHandle(name);
+  }
+  return directory;
+}
+
+// File playlists are known by their path, so the ID changes when the file is renamed
+export const getPlaylistFileId = (path: string[]) => `file:${getTrackKey(path)}`;
+
+const getPlaylistFileName = (name: string, format: PlaylistFormat) => `${name.replace(/[\\/:*?"<>|]/g, '_') || 'Playlist'}.${format}`;
+
+async function fileExists(directory: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await directory.getFileHandle(name);
+    return true;
+  } catch (e) {
+    if ((e as DOMException).name === 'NotFoundError') return false;
+    throw e;
+  }
+}
+
+// A name for the playlist whose file doesn't replace another one: "Name", then "Name (2)" and so on
+async function getFreeName(directory: FileSystemDirectoryHandle, name: string, format: PlaylistFormat): Promise<string> {
+  for (let copy = 1; ; copy++) {
+    const freeName = copy > 1 ? `${name} (${copy})` : name;
+    if (!(await fileExists(directory, getPlaylistFileName(freeName, format)))) return freeName;
+  }
+}
+
+async function writeFile(directory: FileSystemDirectoryHandle, fileName: string, content: string): Promise<void> {
+  const fileHandle = await directory.getFileHandle(fileName, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(content);
+  await writable.close();
+}
+
+// Writes a file-backed playlist to disk. If the playlist was renamed, the file is written
+// under the new name, numbered if another file has it, and the old one removed. Otherwise
+// the file keeps its name exactly as it was. Returns the playlist with its updated name,
+// source and ID.
+export async function writePlaylistFile(root: FileSystemDirectoryHandle, playlist: Playlist, songsById: Map<string, Song>): Promise<Playlist> {
+  if (!playlist.source) return playlist;
+  const { path, format } = playlist.source;
+  const playlistDir = path.slice(0, -1);
+  const oldFileName = path[path.length - 1];
+  const directory = await getDirectory(root, playlistDir);
+
+  const isRenamed = playlist.name !== playlist.source.name;
+  const name = isRenamed ? await getFreeName(directory, playlist.name, format) : playlist.name;
+  const fileName = isRenamed ? getPlaylistFileName(name, format) : oldFileName;
+  const { entries, locations } = getFileEntries(playlist, playlistDir, songsById);
+  await writeFile(directory, fileName, serializePlaylist(entries, format));
+  if (isRenamed) {
+    await directory.removeEntry(oldFileName).catch(() => {});
+  }
+  const newPath = [...playlistDir, fileName];
+  return { ...playlist, id: getPlaylistFileId(newPath), name, source: { path: newPath, format, name, locations } };
+}
+
+// Exports a playlist to a new file at the top of the music folder, never replacing an existing one
+export async function createPlaylistFile(root: FileSystemDirectoryHandle, playlist: Playlist, format: PlaylistFormat, songsById: Map<string, Song>): Promise<Playlist> {
+  const name = await getFreeName(root, playlist.name, format);
+  const fileName = getPlaylistFileName(name, format);
+  const { entries, locations } = getFileEntries(playlist, [], songsById);
+  await writeFile(root, fileName, serializePlaylist(entries, format));
+  return { ...playlist, id: getPlaylistFileId([fileName]), name, source: { path: [fileName], format, name, locations } };
+}
+
+export async function deletePlaylistFile(root: FileSystemDirectoryHandle, playlist: Playlist): Promise<void> {
+  if (!playlist.source) return;
+  const { path } = playlist.source;
+  const directory = await getDirectory(root, path.slice(0, -1));
+  await directory.removeEntry(path[path.length - 1]);
+}
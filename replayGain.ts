@@ -0,0 +1,69 @@
+import { Song, TrackLoudness, ReplayGainSettings } from './types';
+import { getAlbumId } from './db';
+
+// ReplayGain 2.0 brings everything to -18 LUFS
+export const REFERENCE_LOUDNESS = -18;
+
+type NormalizedSong = Pick<Song, 'album' | 'artist' | 'albumArtist' | 'duration' | 'replayGain'>;
+
+// Gain in dB and the peak it would be applied to, when known
+interface GainAdjustment {
+  gain: number;
+  peak?: number;
+}
+
+export const getSongAlbumId = (song: Pick<Song, 'album' | 'artist' | 'albumArtist'>) =>
+  getAlbumId(song.album, song.albumArtist || song.artist);
+
+// Tags win over the measured loudness
+function getTrackAdjustment(song: NormalizedSong, loudness: TrackLoudness | undefined): GainAdjustment | undefined {
+  const { trackGain, trackPeak } = song.replayGain ?? {};
+  if (trackGain !== undefined) return { gain: trackGain, peak: trackPeak };
+  return loudness ? { gain: REFERENCE_LOUDNESS - loudness.integrated, peak: loudness.peak } : undefined;
+}
+
+// Album gains for albums without album tags, once every one of their songs has a track gain.
+// The album's loudness is the energy average of its songs' weighted by their duration, which
+// is close to measuring the whole album in one go.
+export function getAlbumAdjustments<T extends NormalizedSong>(songs: T[], getLoudness: (song: T) => TrackLoudness | undefined): Map<string, GainAdjustment> {
+  const albums = new Map<string, { energy: number; duration: number; peak: number; complete: boolean }>();
+  for (const song of songs) {
+    const id = getSongAlbumId(song);
+    let album = albums.get(id);
+    if (!album) albums.set(id, (album = { energy: 0, duration: 0, peak: 0, complete: true }));
+    const adjustment = getTrackAdjustment(song, getLoudness(song));
+    const duration = song.duration || 1;
+    if (!adjustment) {
+      album.complete = false;
+      continue;
+    }
+    album.energy += duration * Math.pow(10, (REFERENCE_LOUDNESS - adjustment.gain) / 10);
+    album.duration += duration;
+    album.peak = Math.max(album.peak, adjustment.peak ?? 0);
+  }
+
+  const adjustments = new Map<string, GainAdjustment>();
+  albums.forEach(({ energy, duration, peak, complete }, id) => {
+    if (!complete || !(energy > 0)) return;
+    adjustments.set(id, { gain: REFERENCE_LOUDNESS - 10 * Math.log10(energy / duration), peak: peak || undefined });
+  });
+  return adjustments;
+}
+
+// The factor to multiply the song's samples by. Songs with neither tags nor a measurement
+// play as they are. In album mode, songs without an album gain fall back to their track gain.
+export function getReplayGain(
+  song: NormalizedSong,
+  settings: ReplayGainSettings,
+  loudness: TrackLoudness | undefined,
+  albumAdjustment: GainAdjustment | undefined,
+): number {
+  if (settings.mode === 'off') return 1;
+  const { albumGain, albumPeak } = song.replayGain ?? {};
+  const adjustment = settings.mode === 'album' && albumGain !== undefined
+    ? { gain: albumGain, peak: albumPeak }
+    : (settings.mode === 'album' && albumAdjustment) || getTrackAdjustment(song, loudness);
+  if (!adjustment) return 1;
+  const gain = Math.pow(10, (adjustment.gain + settings.preamp) / 20);
+  return settings.preventClipping && adjustment.peak ? Math.min(gain, 1 / adjustment.peak) : gain;
+}
@@ -0,0 +1,325 @@
+import { Song } from './types';
+
+// Search query language:
+//   daft punk            songs matching every word, typos allowed, best matches first
+//   "get lucky"          an exact phrase
+//   artist:"Daft Punk"   a field containing the text, artist="Daft Punk" for an exact match
+//   year:>2000  year:1990..1999  duration:<3m  duration:2:30..4m
+//   -live  -genre:jazz   excludes matching songs
+// Fields: title, artist, album, albumartist, genre, composer, path, year, duration, track, disc
+
+type TextField = 'name' | 'artist' | 'album' | 'albumArtist' | 'genre' | 'composer' | 'path';
+type NumberField = 'year' | 'duration' | 'trackNumber' | 'discNumber';
+
+const FIELD_ALIASES: Record<string, TextField | NumberField> = {
+  title: 'name', name: 'name', t: 'name',
+  artist: 'artist', a: 'artist',
+  album: 'album', al: 'album',
+  albumartist: 'albumArtist', aa: 'albumArtist',
+  genre: 'genre', g: 'genre',
+  composer: 'composer', c: 'composer',
+  path: 'path', folder: 'path', file: 'path',
+  year: 'year', y: 'year',
+  duration: 'duration', length: 'duration', len: 'duration', time: 'duration',
+  track: 'trackNumber', disc: 'discNumber',
+};
+
+const NUMBER_FIELDS = new Set<string>(['year', 'duration', 'trackNumber', 'discNumber']);
+
+// Free text words are looked up in these fields, a match in the title counts most
+const FIELD_WEIGHTS: [TextField, number][] = [
+  ['name', 3], ['artist', 2], ['albumArtist', 2], ['album', 1.5], ['composer', 1], ['genre', 1],
+];
+
+type Comparison = '>' | '>=' | '<' | '<=' | '=';
+
+export type SearchTerm =
+  | { kind: 'text'; text: string; isPhrase: boolean; negated: boolean }
+  | { kind: 'field'; field: TextField; text: string; exact: boolean; negated: boolean }
+  | { kind: 'number'; field: NumberField; min: number; max: number; negated: boolean };
+
+export const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const splitNormalized = (text: string) => text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+const splitWords = (text: string) => splitNormalized(normalizeText(text));
+
+// "3m", "3m30s", "2:30", "90s", "1h", or plain seconds
+function parseDuration(value: string): number {
+  const clock = value.match(/^(?:(\d+):)?(\d+):(\d{1,2})$/);
+  if (clock) return Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  const units = value.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s?)?$/);
+  if (!units || !value) return NaN;
+  return Number(units[1] ?? 0) * 3600 + Number(units[2] ?? 0) * 60 + Number(units[3] ?? 0);
+}
+
+// Matches values in [min, max). A value without seconds like "3m" stands for the whole
+// minute, so duration:3m matches 3:00 up to 3:59.
+function parseNumberTerm(field: NumberField, value: string, negated: boolean): SearchTerm | null {
+  const parse = (text: string) => (field === 'duration' ? parseDuration(text) : Number(text));
+  const width = (text: string) => (field === 'duration' && /^[\d.]+[mh]$/.test(text) ? 60 : 1);
+  // Just above the value, for "greater than" on fractional durations
+  const above = (number: number) => number + 1e-9;
+  let min = -Infinity;
+  let max = Infinity;
+  const range = value.match(/^(.*)\.\.(.*)$/);
+  if (range) {
+    if (range[1]) min = parse(range[1]);
+    if (range[2]) max = parse(range[2]) + width(range[2]);
+  } else {
+    const [, op = '=', text] = value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+    if (!text) return null;
+    const number = parse(text);
+    switch (op as Comparison) {
+      case '>': min = above(number); break;
+      case '>=': min = number; break;
+      case '<': max = number; break;
+      case '<=': max = above(number); break;
+      default: min = number; max = number + width(text);
+    }
+  }
+  if (isNaN(min) || isNaN(max)) return null;
+  return { kind: 'number', field, min, max, negated };
+}
+
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const tokenPattern = /([-!])?(?:([a-z]+)([:=]))?(?:"([^"]*)"?|(\S+))/gi;
+  for (const match of query.matchAll(tokenPattern)) {
+    const [token, negation, fieldName, separator, quoted, bare] = match;
+    const negated = !!negation;
+    const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined;
+    const value = quoted ?? bare ?? '';
+
+    if (fieldName && !field) {
+      // Not a field we know, e.g. "ac:dc", search for its words
+      for (const word of splitWords(token.slice(negated ? 1 : 0))) {
+        terms.push({ kind: 'text', text: word, isPhrase: false, negated });
+      }
+    } else if (field && NUMBER_FIELDS.has(field)) {
+      const term = parseNumberTerm(field as NumberField, value.replace(/\s/g, ''), negated);
+      if (term) terms.push(term);
+    } else if (field) {
+      const exact = separator === '=';
+      const text = normalizeText(value);
+      if (text) terms.push({ kind: 'field', field: field as TextField, text, exact, negated });
+    } else if (quoted !== undefined) {
+      const text = normalizeText(quoted);
+      if (text) terms.push({ kind: 'text', text, isPhrase: true, negated });
+    } else {
+      // A word like "don't" or "a-ha" becomes several words that must all match
+      for (const word of splitWords(value)) {
+        terms.push({ kind: 'text', text: word, isPhrase: false, negated });
+      }
+    }
+  }
+  return terms;
+}
+
+interface IndexedSong {
+  fields: Record<TextField, string>;
+  // All text fields joined, for phrases
+  allText: string;
+}
+
+// Built once per library so each search only looks at the word list, not every song
+export interface SearchIndex {
+  songs: Song[];
+  indexed: IndexedSong[];
+  // Every distinct word, sorted so words sharing a prefix are adjacent
+  words: string[];
+  // Songs containing each word, with the weight of the best field it is in
+  postings: Map<string, Map<number, number>>;
+  // Positions in `words` by what is left of them after a typo's worth of deleted characters,
+  // so a mistyped word only has to be compared with the few words sharing one
+  deletes: Map<string, number[]>;
+}
+
+// Typos allowed in a query word, by its length
+const getMaxEdits = (length: number) => (length >= 7 ? 2 : length >= 3 ? 1 : 0);
+// The most typos of a query word that an index word of this length can be in reach of:
+// 7 letters or more less 2, or 3 letters or more less 1
+const getIndexEdits = (length: number) => (length >= 5 ? 2 : length >= 2 ? 1 : 0);
+// Query words of 3 letters or more have at least 2 left after their deletes, shorter keys never match
+const MIN_DELETE_LENGTH = 2;
+// Deletes are only taken from the start of words, which keeps the index small while still
+// finding every word in reach. The candidates are then checked in full.
+const DELETE_PREFIX_LENGTH = 7;
+
+// `word` and what is left of it after deleting up to `count` characters
+function getDeletes(word: string, count: number, deletes = new Set<string>()): Set<string> {
+  deletes.add(word);
+  if (count === 0 || word.length <= MIN_DELETE_LENGTH) return deletes;
+  for (let i = 0; i < word.length; i++) {
+    const deleted = word.slice(0, i) + word.slice(i + 1);
+    if (!deletes.has(deleted)) getDeletes(deleted, count - 1, deletes);
+  }
+  return deletes;
+}
+
+// Two words within `n` typos share a string left after deleting at most `n` characters from each
+function createDeleteIndex(words: string[]): Map<string, number[]> {
+  const deletes = new Map<string, number[]>();
+  const wordDeletes = new Set<string>();
+  words.forEach((word, i) => {
+    wordDeletes.clear();
+    for (const deleted of getDeletes(word.slice(0, DELETE_PREFIX_LENGTH), getIndexEdits(word.length), wordDeletes)) {
+      const positions = deletes.get(deleted);
+      if (positions) positions.push(i);
+      else deletes.set(deleted, [i]);
+    }
+  });
+  return deletes;
+}
+
+export function createSearchIndex(songs: Song[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  const indexed = songs.map((song, index) => {
+    const fields: Record<TextField, string> = {
+      name: normalizeText(song.name),
+      artist: normalizeText(song.artist),
+      album: normalizeText(song.album),
+      albumArtist: normalizeText(song.albumArtist ?? ''),
+      genre: normalizeText(song.genre ?? ''),
+      composer: normalizeText(song.composer ?? ''),
+      path: normalizeText(song.path.join('/')),
+    };
+    for (const [field, weight] of FIELD_WEIGHTS) {
+      for (const word of splitNormalized(fields[field])) {
+        let songsWithWord = postings.get(word);
+        if (!songsWithWord) postings.set(word, (songsWithWord = new Map()));
+        songsWithWord.set(index, Math.max(songsWithWord.get(index) ?? 0, weight));
+      }
+    }
+    return { fields, allText: FIELD_WEIGHTS.map(([field]) => fields[field]).join(' \u0000 ') };
+  });
+  const words = [...postings.keys()].sort();
+  return { songs, indexed, words, postings, deletes: createDeleteIndex(words) };
+}
+
+// Rows of the edit distance table, reused across calls since it runs for every candidate word
+let distanceRows = [new Int32Array(32), new Int32Array(32), new Int32Array(32)];
+
+// Levenshtein distance with adjacent transpositions, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (distanceRows[0].length <= b.length) {
+    distanceRows = distanceRows.map(() => new Int32Array(b.length * 2));
+  }
+  let [beforePrevious, previous, row] = distanceRows;
+  for (let j = 0; j <= b.length; j++) row[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    [beforePrevious, previous, row] = [previous, row, beforePrevious];
+    row[0] = i;
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      let value = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a.charCodeAt(i - 1) === b.charCodeAt(j - 2) && a.charCodeAt(i - 2) === b.charCodeAt(j - 1)) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+// Index of the first word that is not less than `prefix`
+function lowerBound(words: string[], prefix: string): number {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (words[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Scores each song containing the word or something close to it. Exact words score
+// highest, then words it is the start of, then words within one or two typos.
+function matchWord(index: SearchIndex, word: string): Map<number, number> {
+  const scores = new Map<number, number>();
+  const add = (indexWord: string, quality: number) => {
+    index.postings.get(indexWord)!.forEach((weight, song) => {
+      scores.set(song, Math.max(scores.get(song) ?? 0, quality * weight));
+    });
+  };
+
+  for (let i = lowerBound(index.words, word); i < index.words.length && index.words[i].startsWith(word); i++) {
+    add(index.words[i], index.words[i] === word ? 3 : 2);
+  }
+  const maxEdits = getMaxEdits(word.length);
+  const candidates = new Set<number>();
+  for (const deleted of getDeletes(word.slice(0, DELETE_PREFIX_LENGTH), maxEdits)) {
+    index.deletes.get(deleted)?.forEach(i => candidates.add(i));
+  }
+  for (const i of candidates) {
+    const indexWord = index.words[i];
+    if (indexWord.startsWith(word)) continue;
+    const distance = editDistance(word, indexWord, maxEdits);
+    if (distance <= maxEdits) add(indexWord, 1 / distance);
+  }
+  return scores;
+}
+
+function matchesTerm(index: SearchIndex, songIndex: number, term: SearchTerm): boolean {
+  switch (term.kind) {
+    case 'text':
+      // Only reached for phrases and excluded words, other words are scored through matchWord
+      return term.isPhrase
+        ? index.indexed[songIndex].allText.includes(term.text)
+        : !!index.postings.get(term.text)?.has(songIndex);
+    case 'field': {
+      const value = index.indexed[songIndex].fields[term.field];
+      return term.exact ? value === term.text : value.includes(term.text);
+    }
+    case 'number': {
+      const value = index.songs[songIndex][term.field];
+      return value !== undefined && value >= term.min && value < term.max;
+    }
+  }
+}
+
+export interface SearchResult {
+  songIndices: number[];
+  // Whether songIndices is ordered by relevance, otherwise it is in library order
+  isRanked: boolean;
+}
+
+export function searchSongs(index: SearchIndex, query: string): SearchResult {
+  const terms = parseSearchQuery(query);
+  // Plain words are ranked, everything else only filters
+  const isWord = (term: SearchTerm) => term.kind === 'text' && !term.isPhrase && !term.negated;
+  const words = terms.flatMap(term => (term.kind === 'text' && isWord(term) ? [term.text] : []));
+  const filters = terms.filter(term => !isWord(term));
+
+  // Songs have to match every word, scores add up
+  let scores: Map<number, number> | null = null;
+  for (const word of words) {
+    const wordScores = matchWord(index, word);
+    if (scores === null) {
+      scores = wordScores;
+    } else {
+      const combined = new Map<number, number>();
+      scores.forEach((score, song) => {
+        const wordScore = wordScores.get(song);
+        if (wordScore !== undefined) combined.set(song, score + wordScore);
+      });
+      scores = combined;
+    }
+  }
+
+  const candidates = scores ? [...scores.keys()] : index.songs.map((_, i) => i);
+  const songIndices = candidates.filter(i =>
+    filters.every(term => matchesTerm(index, i, term) !== term.negated));
+  if (scores) {
+    const finalScores = scores;
+    songIndices.sort((a, b) => finalScores.get(b)! - finalScores.get(a)! || a - b);
+  } else {
+    songIndices.sort((a, b) => a - b);
+  }
+  return { songIndices, isRanked: scores !== null };
+}
@@ -0,0 +1,133 @@
+import { Song, ShuffleMode } from './types';
+import { getAlbumId } from './db';
+
+// A seedable random number generator (mulberry32) returning numbers in [0, 1). The same
+// seed gives the same sequence, so shuffles can be reproduced.
+export function createRandom(seed = Math.floor(Math.random() * 2 ** 32)): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+// Fisher–Yates shuffle, every order is equally likely
+export function shuffleArray<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export interface ShuffleOptions {
+  mode?: ShuffleMode;
+  // Song index to play first, if it is in the queue
+  first?: number;
+  random?: () => number;
+  // Used by the weighted mode, songs played less often come earlier
+  getPlayCount?: (song: Song) => number;
+}
+
+const getArtist = (song: Song | undefined) => (song?.artist ?? '').toLowerCase();
+const getSongAlbumId = (song: Song | undefined) => (song ? getAlbumId(song.album, song.albumArtist || song.artist) : '');
+
+// Albums in random order, each album's songs in disc and track order
+function shuffleAlbums(queue: number[], songs: Song[], random: () => number): number[] {
+  const albums = new Map<string, number[]>();
+  for (const index of queue) {
+    const albumId = getSongAlbumId(songs[index]);
+    const album = albums.get(albumId);
+    if (album) album.push(index);
+    else albums.set(albumId, [index]);
+  }
+  const byTrack = (a: number, b: number) =>
+    (songs[a]?.discNumber ?? 0) - (songs[b]?.discNumber ?? 0) ||
+    (songs[a]?.trackNumber ?? 0) - (songs[b]?.trackNumber ?? 0);
+  return shuffleArray([...albums.values()], random).flatMap(album => [...album].sort(byTrack));
+}
+
+// Picks artists at random, weighted by how many of their songs are left, never the
+// previous artist unless no other is left. An artist with more than half the remaining
+// songs is taken first, or they would end up back to back later on.
+function shuffleSpreadingArtists(queue: number[], songs: Song[], random: () => number, previousArtist?: string): number[] {
+  const artists = new Map<string, number[]>();
+  for (const index of shuffleArray(queue, random)) {
+    const artist = getArtist(songs[index]);
+    const artistSongs = artists.get(artist);
+    if (artistSongs) artistSongs.push(index);
+    else artists.set(artist, [index]);
+  }
+
+  // Kept in the order artists first came up and updated as they run out, so each pick
+  // only has to step over the previous artist
+  const candidates = [...artists.entries()].map(([artist, artistSongs]) => ({ artist, songs: artistSongs }));
+  const result: number[] = [];
+  let remaining = queue.length;
+  let last = candidates.find(candidate => candidate.artist === previousArtist);
+  while (remaining > 0) {
+    const weight = remaining - (last?.songs.length ?? 0);
+    let picked: { artist: string; songs: number[] } | undefined;
+    if (weight === 0) {
+      picked = last!;
+    } else {
+      picked = candidates.find(candidate => candidate !== last && candidate.songs.length * 2 > remaining);
+      if (!picked) {
+        let target = random() * weight;
+        picked = candidates.find(candidate => candidate !== last && (target -= candidate.songs.length) < 0)
+          ?? candidates[candidates.length - (candidates[candidates.length - 1] === last ? 2 : 1)];
+      }
+    }
+    result.push(picked.songs.pop()!);
+    if (picked.songs.length === 0) candidates.splice(candidates.indexOf(picked), 1);
+    last = picked;
+    remaining--;
+  }
+  return result;
+}
+
+// Weighted random order (Efraimidis–Spirakis): each song gets the key u^(1/w) with w
+// falling as its play count grows, and songs are played by descending key.
+function shuffleWeighted(queue: number[], songs: Song[], random: () => number, getPlayCount: (song: Song) => number): number[] {
+  return queue
+    .map(index => {
+      const weight = 1 / (1 + (songs[index] ? getPlayCount(songs[index]) : 0));
+      return { index, key: Math.pow(random(), 1 / weight) };
+    })
+    .sort((a, b) => b.key - a.key)
+    .map(({ index }) => index);
+}
+
+// Shuffles the queue, moving `first` (if it is in the queue) to the front
+export function shuffleQueue(queue: number[], songs: Song[], options: ShuffleOptions = {}): number[] {
+  const { mode = ShuffleMode.TRACKS, first, random = createRandom(), getPlayCount = () => 0 } = options;
+  const hasFirst = first !== undefined && queue.includes(first);
+  const rest = hasFirst ? queue.filter(index => index !== first) : queue;
+
+  switch (mode) {
+    case ShuffleMode.ALBUMS: {
+      // The album of the first song plays first, starting from that song
+      const shuffled = shuffleAlbums(queue, songs, random);
+      if (!hasFirst) return shuffled;
+      const album = getSongAlbumId(songs[first]);
+      const isInAlbum = (index: number) => getSongAlbumId(songs[index]) === album;
+      const albumSongs = shuffled.filter(isInAlbum);
+      const start = albumSongs.indexOf(first);
+      return [...albumSongs.slice(start), ...shuffled.filter(index => !isInAlbum(index)), ...albumSongs.slice(0, start)];
+    }
+    case ShuffleMode.ARTIST_SPREAD:
+      return hasFirst
+        ? [first, ...shuffleSpreadingArtists(rest, songs, random, getArtist(songs[first]))]
+        : shuffleSpreadingArtists(queue, songs, random);
+    case ShuffleMode.WEIGHTED:
+      return hasFirst
+        ? [first, ...shuffleWeighted(rest, songs, random, getPlayCount)]
+        : shuffleWeighted(queue, songs, random, getPlayCount);
+    default:
+      return hasFirst ? [first, ...shuffleArray(rest, random)] : shuffleArray(queue, random);
+  }
+}
@@ -0,0 +1,201 @@
+import { Playlist, Song, SongStats, SmartPlaylistRules, SmartPlaylistSort, SmartRule, SmartRuleField, SmartRuleOperator, SmartRuleTimeUnit } from './types';
+import { normalizeText } from './search';
+
+export type SmartRuleFieldType = 'text' | 'number' | 'date';
+
+export const SMART_RULE_FIELDS: { field: SmartRuleField; label: string; type: SmartRuleFieldType }[] = [
+  { field: 'name', label: 'Title', type: 'text' },
+  { field: 'artist', label: 'Artist', type: 'text' },
+  { field: 'album', label: 'Album', type: 'text' },
+  { field: 'albumArtist', label: 'Album artist', type: 'text' },
+  { field: 'genre', label: 'Genre', type: 'text' },
+  { field: 'composer', label: 'Composer', type: 'text' },
+  { field: 'path', label: 'File path', type: 'text' },
+  { field: 'year', label: 'Year', type: 'number' },
+  { field: 'duration', label: 'Length (minutes)', type: 'number' },
+  { field: 'rating', label: 'Rating (stars)', type: 'number' },
+  { field: 'playCount', label: 'Plays', type: 'number' },
+  { field: 'skipCount', label: 'Skips', type: 'number' },
+  { field: 'addedAt', label: 'Date added', type: 'date' },
+  { field: 'lastPlayed', label: 'Last played', type: 'date' },
+];
+
+export const SMART_RULE_OPERATORS: Record<SmartRuleFieldType, { operator: SmartRuleOperator; label: string }[]> = {
+  text: [
+    { operator: 'contains', label: 'contains' },
+    { operator: 'notContains', label: 'does not contain' },
+    { operator: 'is', label: 'is' },
+    { operator: 'isNot', label: 'is not' },
+    { operator: 'startsWith', label: 'starts with' },
+  ],
+  number: [
+    { operator: 'is', label: 'is' },
+    { operator: 'isNot', label: 'is not' },
+    { operator: 'atLeast', label: 'is at least' },
+    { operator: 'lessThan', label: 'is less than' },
+    { operator: 'between', label: 'is between' },
+  ],
+  date: [
+    { operator: 'inLast', label: 'is in the last' },
+    { operator: 'notInLast', label: 'is not in the last' },
+  ],
+};
+
+export const SMART_PLAYLIST_SORTS: { sortBy: SmartPlaylistSort; label: string }[] = [
+  { sortBy: 'random', label: 'Random' },
+  { sortBy: 'name', label: 'Title' },
+  { sortBy: 'artist', label: 'Artist' },
+  { sortBy: 'album', label: 'Album' },
+  { sortBy: 'year', label: 'Newest first' },
+  { sortBy: 'rating', label: 'Highest rated' },
+  { sortBy: 'playCount', label: 'Most played' },
+  { sortBy: 'addedAt', label: 'Recently added' },
+  { sortBy: 'lastPlayed', label: 'Recently played' },
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+const TIME_UNITS: Record<SmartRuleTimeUnit, number> = { days: DAY, weeks: 7 * DAY, months: 30 * DAY };
+
+export const getFieldType = (field: SmartRuleField): SmartRuleFieldType =>
+  SMART_RULE_FIELDS.find(item => item.field === field)!.type;
+
+// A rule with the field's first operator, for the editor
+export function createRule(field: SmartRuleField = 'artist'): SmartRule {
+  const type = getFieldType(field);
+  return {
+    field,
+    operator: SMART_RULE_OPERATORS[type][0].operator,
+    value: type === 'date' ? '30' : '',
+    unit: type === 'date' ? 'days' : undefined,
+  };
+}
+
+export const createRules = (): SmartPlaylistRules => ({ match: 'all', rules: [createRule()], sortBy: 'random' });
+
+// Smart playlists fill themselves, so songs can't be added, removed or reordered by hand
+export const isSmartPlaylist = (playlist: Playlist) => playlist.query !== undefined || playlist.rules !== undefined;
+
+type GetStats = (song: Song) => SongStats;
+
+function getTextValue(song: Song, field: SmartRuleField): string {
+  switch (field) {
+    case 'path': return song.path.join('/');
+    case 'name': case 'artist': case 'album': case 'albumArtist': case 'genre': case 'composer':
+      return song[field] ?? '';
+    default: return '';
+  }
+}
+
+function getNumberValue(song: Song, stats: SongStats, field: SmartRuleField): number | undefined {
+  switch (field) {
+    case 'year': return song.year;
+    case 'duration': return song.duration / 60;
+    case 'rating': return song.rating;
+    case 'playCount': return stats.playCount;
+    case 'skipCount': return stats.skipCount;
+    case 'addedAt': return song.addedAt;
+    case 'lastPlayed': return stats.lastPlayed;
+    default: return undefined;
+  }
+}
+
+function matchesRule(song: Song, stats: SongStats, rule: SmartRule, now: number): boolean {
+  const type = getFieldType(rule.field);
+  if (type === 'text') {
+    const value = normalizeText(getTextValue(song, rule.field));
+    const text = normalizeText(rule.value);
+    switch (rule.operator) {
+      case 'is': return value === text;
+      case 'isNot': return value !== text;
+      case 'notContains': return !value.includes(text);
+      case 'startsWith': return value.startsWith(text);
+      default: return value.includes(text);
+    }
+  }
+
+  const value = getNumberValue(song, stats, rule.field);
+  if (type === 'date') {
+    const since = now - Number(rule.value) * TIME_UNITS[rule.unit ?? 'days'];
+    // Songs never played count as not played recently
+    const isRecent = value !== undefined && value >= since;
+    return rule.operator === 'notInLast' ? !isRecent : isRecent;
+  }
+
+  const number = Number(rule.value);
+  // A rule still being typed in matches everything rather than nothing
+  if (rule.value.trim() === '' || isNaN(number)) return true;
+  if (value === undefined) return rule.operator === 'isNot';
+  switch (rule.operator) {
+    case 'isNot': return value !== number;
+    case 'atLeast': return value >= number;
+    case 'lessThan': return value < number;
+    case 'between': {
+      const upper = Number(rule.value2);
+      return value >= number && (rule.value2?.trim() === '' || isNaN(upper) || value <= upper);
+    }
+    // Lengths are rarely whole minutes, so "is 3" means 3:00 to 3:59
+    default: return rule.field === 'duration' ? Math.floor(value) === number : value === number;
+  }
+}
+
+// 32-bit FNV-1a, for a random order that stays put while the library changes
+function hashString(value: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+
+function getSortKey(song: Song, stats: SongStats, sortBy: SmartPlaylistSort): number {
+  switch (sortBy) {
+    case 'year': return song.year ?? 0;
+    case 'rating': return song.rating ?? 0;
+    case 'playCount': return stats.playCount;
+    case 'addedAt': return song.addedAt;
+    case 'lastPlayed': return stats.lastPlayed ?? 0;
+    default: return 0;
+  }
+}
+
+// Returns the indices of the songs matching the rules, in the playlist's order and cut
+// to its limit. `seed` keeps the random order the same each time the rules are evaluated.
+export function evaluateSmartPlaylist(rules: SmartPlaylistRules, songs: Song[], getStats: GetStats, seed: string, now = Date.now()): number[] {
+  const matches: number[] = [];
+  songs.forEach((song, index) => {
+    const stats = getStats(song);
+    const isMatch = rules.rules.length === 0 || (rules.match === 'any'
+      ? rules.rules.some(rule => matchesRule(song, stats, rule, now))
+      : rules.rules.every(rule => matchesRule(song, stats, rule, now)));
+    if (isMatch) matches.push(index);
+  });
+
+  const { sortBy } = rules;
+  if (sortBy === 'random') {
+    const keys = new Map(matches.map(index => [index, hashString(seed + songs[index].id)]));
+    matches.sort((a, b) => keys.get(a)! - keys.get(b)!);
+  } else if (sortBy === 'name' || sortBy === 'artist' || sortBy === 'album') {
+    matches.sort((a, b) => compareText(songs[a][sortBy], songs[b][sortBy]) || a - b);
+  } else {
+    // Largest first: newest, highest rated, most played, most recent
+    const keys = new Map(matches.map(index => [index, getSortKey(songs[index], getStats(songs[index]), sortBy)]));
+    matches.sort((a, b) => keys.get(b)! - keys.get(a)! || a - b);
+  }
+
+  const { limit } = rules;
+  if (!limit || !(limit.value > 0)) return matches;
+  if (limit.unit === 'songs') return matches.slice(0, limit.value);
+  // Songs in order for as long as they fit in the time
+  const maxSeconds = limit.value * (limit.unit === 'hours' ? 3600 : 60);
+  const result: number[] = [];
+  let total = 0;
+  for (const index of matches) {
+    if (total + songs[index].duration > maxSeconds) break;
+    total += songs[index].duration;
+    result.push(index);
+  }
+  return result;
+}
@@ -0,0 +1,48 @@
+import { readMetadata, getCoverPicture, Chapter, GaplessInfo, ReplayGainInfo } from './metadata/index';
+
+// The tag fields the library keeps for each song
+export interface SongTags {
+  name: string;
+  artist: string;
+  album: string;
+  albumArtist?: string;
+  composer?: string;
+  genre?: string;
+  year?: number;
+  trackNumber?: number;
+  discNumber?: number;
+  rating?: number;
+  duration: number;
+  gapless?: GaplessInfo;
+  replayGain?: ReplayGainInfo;
+  chapters?: Chapter[];
+  picture?: Blob;
+}
+
+export async function readSongTags(file: File): Promise<SongTags> {
+  const name = file.name.replace(/\.[^/.]+$/, "");
+  try {
+    const metadata = await readMetadata(file);
+    const cover = getCoverPicture(metadata);
+    return {
+      name: metadata.title || name,
+      artist: metadata.artist || 'Unknown Artist',
+      album: metadata.album || 'Unknown Album',
+      albumArtist: metadata.albumArtist,
+      composer: metadata.composer,
+      genre: metadata.genre,
+      year: metadata.year,
+      trackNumber: metadata.trackNumber,
+      discNumber: metadata.discNumber,
+      rating: metadata.rating,
+      duration: metadata.duration,
+      gapless: metadata.gapless,
+      replayGain: metadata.replayGain,
+      chapters: metadata.chapters,
+      picture: cover ? new Blob([cover.data], { type: cover.format }) : undefined,
+    };
+  } catch (e) {
+    console.warn(`Could not read tags of ${file.name}:`, e);
+    return { name, artist: 'Unknown Artist', album: 'Unknown Album', duration: 0 };
+  }
+}
@@ -0,0 +1,255 @@
+import { Chapter, GaplessInfo, ReplayGainInfo } from './metadata/index';
+
+export interface Song {
+  id: string;
+  name: string;
+  artist: string;
+  album: string;
+  albumArtist?: string;
+  composer?: string;
+  genre?: string;
+  year?: number;
+  trackNumber?: number;
+  discNumber?: number;
+  // 0.5 to 5 stars, from the file's tags
+  rating?: number;
+  duration: number;
+  // Encoder delay and padding to skip for gapless playback
+  gapless?: GaplessInfo;
+  // Volume normalization read from the tags
+  replayGain?: ReplayGainInfo;
+  // Measured by the loudness analysis for songs without ReplayGain tags
+  loudness?: TrackLoudness;
+  // Chapters of audiobooks and long mixes, from the tags
+  chapters?: Chapter[];
+  // When the file first showed up in the library
+  addedAt: number;
+  url: string;
+  coverArt?: string;
+  path: string[];
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  // Stable song IDs, kept even while a song is missing from the library
+  songIds: string[];
+  createdAt: number;
+  updatedAt: number;
+  // Set for smart playlists, whose songs are the results of this search
+  query?: string;
+  // Set for smart playlists whose songs are the ones matching these rules
+  rules?: SmartPlaylistRules;
+  // Set for playlists read from an M3U or PLS file in the music folder. Their changes
+  // are written back to that file instead of IndexedDB.
+  source?: PlaylistSource;
+}
+
+// One listen of a song, from when it started playing until it ended or something else played
+export interface PlayRecord {
+  id?: number;
+  songId: string;
+  // Copied from the song, so the history still reads right once it leaves the library
+  name: string;
+  artist: string;
+  album: string;
+  startedAt: number;
+  // Seconds of the song that were heard, not counting parts seeked over
+  listened: number;
+  duration: number;
+  // Played to the end
+  completed: boolean;
+  // Left for another song before the end. A play cut off by closing the app is neither.
+  skipped: boolean;
+}
+
+export type PlaylistFormat = 'm3u' | 'm3u8' | 'pls';
+
+export interface PlaylistSource {
+  // Path of the playlist file, relative to the music folder
+  path: string[];
+  format: PlaylistFormat;
+  // The playlist's name when the file was last read or written. The playlist is renamed
+  // only once its name differs from this, whatever the file itself is called.
+  name: string;
+  // Where the file pointed to each song, written back as it was while the song is missing
+  locations: Record<string, string>;
+}
+
+export type SmartRuleField =
+  | 'name' | 'artist' | 'album' | 'albumArtist' | 'genre' | 'composer' | 'path'
+  | 'year' | 'duration' | 'rating' | 'playCount' | 'skipCount'
+  | 'addedAt' | 'lastPlayed';
+
+export type SmartRuleOperator =
+  // Text fields
+  | 'is' | 'isNot' | 'contains' | 'notContains' | 'startsWith'
+  // Number fields, 'is' and 'isNot' apply too
+  | 'atLeast' | 'lessThan' | 'between'
+  // Date fields, relative to now
+  | 'inLast' | 'notInLast';
+
+export type SmartRuleTimeUnit = 'days' | 'weeks' | 'months';
+
+export interface SmartRule {
+  field: SmartRuleField;
+  operator: SmartRuleOperator;
+  value: string;
+  // Upper end for 'between'
+  value2?: string;
+  // For 'inLast' and 'notInLast'
+  unit?: SmartRuleTimeUnit;
+}
+
+export type SmartPlaylistSort = 'random' | 'name' | 'artist' | 'album' | 'year' | 'rating' | 'playCount' | 'addedAt' | 'lastPlayed';
+
+export interface SmartPlaylistRules {
+  match: 'all' | 'any';
+  rules: SmartRule[];
+  sortBy: SmartPlaylistSort;
+  // Only the first songs in sort order, up to this many songs or this much playing time
+  limit?: { value: number; unit: 'songs' | 'minutes' | 'hours' };
+}
+
+// How often and when a song was played
+export interface SongStats {
+  playCount: number;
+  skipCount: number;
+  lastPlayed?: number;
+}
+
+export enum RepeatMode {
+  NONE,
+  ALL,
+  ONE,
+  // Repeats the stretch between the A and B markers of the playing song
+  SEGMENT,
+}
+
+export enum ShuffleMode {
+  TRACKS,
+  // Albums in random order, tracks within each album in order
+  ALBUMS,
+  // Avoids playing the same artist twice in a row
+  ARTIST_SPREAD,
+  // Favors songs that have been played less
+  WEIGHTED,
+}
+
+// How the outgoing song fades out as the next one fades in. Equal power keeps the
+// loudness steady halfway through, linear dips there.
+export type CrossfadeCurve = 'linear' | 'equalPower';
+
+export interface CrossfadeSettings {
+  // Seconds the two songs overlap, 0 to play them back to back
+  duration: number;
+  curve: CrossfadeCurve;
+}
+
+// Integrated loudness in LUFS as measured per EBU R128, and the highest sample value
+export interface TrackLoudness {
+  integrated: number;
+  peak: number;
+}
+
+// Track mode evens out every song, album mode keeps the differences between songs of an album
+export type ReplayGainMode = 'off' | 'track' | 'album';
+
+export interface ReplayGainSettings {
+  mode: ReplayGainMode;
+  // dB added on top of the ReplayGain adjustment
+  preamp: number;
+  // Keeps the gain low enough that the track's peak doesn't go over full scale
+  preventClipping: boolean;
+}
+
+// Filter types a parametric band can be, as named by BiquadFilterNode
+export type ParametricFilterType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass' | 'notch';
+
+export interface ParametricBand {
+  id: string;
+  type: ParametricFilterType;
+  // Center or cutoff frequency in Hz
+  frequency: number;
+  // dB, only used by peaking and shelf filters
+  gain: number;
+  q: number;
+}
+
+// What the equalizer does to the sound: a gain in dB for each graphic band, then any parametric bands
+export interface EqualizerCurve {
+  gains: number[];
+  bands: ParametricBand[];
+}
+
+export interface EqualizerPreset extends EqualizerCurve {
+  id: string;
+  name: string;
+}
+
+export interface EqualizerSettings {
+  enabled: boolean;
+  // The curve in use when no automatic preset applies
+  curve: EqualizerCurve;
+  // The preset the curve came from, null once it's been changed
+  presetId: string | null;
+  userPresets: EqualizerPreset[];
+  // Preset IDs picked automatically by album ID and by lower case genre, albums first
+  albumPresets: Record<string, string>;
+  genrePresets: Record<string, string>;
+}
+
+// Impulse responses that come with the player for the reverb
+export type ReverbImpulse = 'room' | 'hall' | 'plate';
+
+// The effects rack, each effect kept with its settings while it's off
+export interface EffectsSettings {
+  bassBoost: { enabled: boolean; gain: number };
+  reverb: { enabled: boolean; impulse: ReverbImpulse; mix: number };
+  // 0 is mono, 1 leaves the stereo image as it is, 2 is twice as wide
+  width: { enabled: boolean; amount: number };
+  mono: { enabled: boolean };
+  // -1 is all left, 1 all right
+  balance: { enabled: boolean; pan: number };
+  compressor: { enabled: boolean; threshold: number; ratio: number; makeup: number };
+}
+
+export interface PitchSettings {
+  // Keeps voices sounding natural when the speed changes, off lets the pitch follow the speed like a tape
+  preservePitch: boolean;
+  // Transposes by this many semitones without changing the speed
+  semitones: number;
+}
+
+// A named stretch of a track, in seconds, saved for practicing it again later
+export interface LoopRegion {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+}
+
+// How an A-B segment is practiced
+export interface PracticeSettings {
+  // Times the segment plays before playback carries on, 0 repeats it until stopped
+  count: number;
+  // Each pass plays `speedStep` faster than the one before, starting at the current speed, up to `targetRate`
+  speedUp: boolean;
+  speedStep: number;
+  targetRate: number;
+}
+
+// A spot in a track the user wants to come back to
+export interface Bookmark {
+  id: string;
+  position: number;
+  note: string;
+  createdAt: number;
+}
+
+// Where long tracks such as audiobooks and podcasts pick up when played again
+export interface ResumeSettings {
+  enabled: boolean;
+  // Only tracks at least this many minutes long remember their position
+  minDuration: number;
+}
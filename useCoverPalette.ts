@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { Palette, DEFAULT_PALETTE, extractPalette } from './coverPalette';
+
+// The colors of `coverArt`, the default palette until they're worked out or for songs without a cover
+export function useCoverPalette(coverArt: string | undefined): Palette {
+  const [palette, setPalette] = useState<{ url: string; palette: Palette } | null>(null);
+
+  useEffect(() => {
+    if (!coverArt) return;
+    let cancelled = false;
+    extractPalette(coverArt)
+      .catch(() => DEFAULT_PALETTE)
+      .then(extracted => {
+        if (!cancelled) setPalette({ url: coverArt, palette: extracted });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [coverArt]);
+
+  return palette && palette.url === coverArt ? palette.palette : DEFAULT_PALETTE;
+}
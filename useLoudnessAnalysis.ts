@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Song, TrackLoudness } from './types';
+import { saveTrackLoudness } from './db';
+import { createLoudnessMeter, getContentHashFromId, getTrackKey, MAX_LOUDNESS_DURATION, measureAudioLoudness } from './library';
+
+// Give the library a moment to settle after loading before decoding anything
+const ANALYSIS_DELAY = 3000;
+
+export interface LoudnessProgress {
+  analyzed: number;
+  total: number;
+}
+
+// The scan measures the loudness of the files it reads. This catches up on songs that have
+// neither ReplayGain tags nor a measurement anyway, like those cached by a scan that didn't
+// measure, one at a time in the background, and caches the results in the catalog.
+// Measurements are kept by content hash, so songs that move keep theirs.
+export function useLoudnessAnalysis(songs: Song[]) {
+  const [measured, setMeasured] = useState<Map<string, TrackLoudness>>(() => new Map());
+  const [progress, setProgress] = useState<LoudnessProgress | null>(null);
+  const measuredRef = useRef(measured);
+  measuredRef.current = measured;
+  // Songs that couldn't be decoded aren't tried again until the next session
+  const skippedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const hashes = new Set<string>();
+    const pending = songs.filter(song => {
+      const hash = getContentHashFromId(song.id);
+      if (song.replayGain?.trackGain !== undefined || song.loudness || song.duration > MAX_LOUDNESS_DURATION) return false;
+      if (measuredRef.current.has(hash) || skippedRef.current.has(hash) || hashes.has(hash)) return false;
+      hashes.add(hash);
+      return true;
+    });
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    const meter = createLoudnessMeter();
+    const analyze = async () => {
+      for (let i = 0; i < pending.length && !cancelled; i++) {
+        const song = pending[i];
+        const hash = getContentHashFromId(song.id);
+        setProgress({ analyzed: i, total: pending.length });
+        try {
+          const data = await (await fetch(song.url)).arrayBuffer();
+          const loudness = await measureAudioLoudness(data, meter.run);
+          if (!loudness) {
+            skippedRef.current.add(hash);
+            continue;
+          }
+          setMeasured(prev => new Map(prev).set(hash, loudness));
+          saveTrackLoudness(getTrackKey(song.path), hash, loudness)
+            .catch(e => console.error("Failed to save loudness:", e));
+        } catch (e) {
+          if (cancelled) return;
+          console.warn(`Could not analyze the loudness of ${song.name}:`, e);
+          skippedRef.current.add(hash);
+        }
+      }
+      if (!cancelled) setProgress(null);
+    };
+    const timer = window.setTimeout(analyze, ANALYSIS_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      meter.terminate();
+      setProgress(null);
+    };
+  }, [songs]);
+
+  const getLoudness = useCallback((song: Pick<Song, 'id' | 'loudness'>) =>
+    song.loudness ?? measured.get(getContentHashFromId(song.id)), [measured]);
+
+  return { getLoudness, progress };
+}
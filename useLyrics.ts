@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Song } from './types';
+import { LyricLine } from './metadata/index';
+import { SongLyrics, loadLyrics, writeLrcFile } from './lyrics';
+
+// Lyrics of `song`, loaded only while `enabled` (the lyrics panel is open). `save` writes an
+// .lrc file beside the track, which needs the library folder and permission to write to it.
+export function useLyrics(song: Song, directoryHandle: FileSystemDirectoryHandle | null, enabled: boolean) {
+  const [lyrics, setLyrics] = useState<SongLyrics | null>(null);
+  const [loadedSongId, setLoadedSongId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || loadedSongId === song.id) return;
+    let cancelled = false;
+    setLyrics(null);
+    loadLyrics(song, directoryHandle).then(loaded => {
+      if (cancelled) return;
+      setLyrics(loaded);
+      setLoadedSongId(song.id);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [song, directoryHandle, enabled, loadedSongId]);
+
+  const save = useCallback(async (lines: LyricLine[]): Promise<boolean> => {
+    if (!directoryHandle) return false;
+    try {
+      const permission = await directoryHandle.requestPermission({ mode: 'readwrite' });
+      if (permission !== 'granted') {
+        alert("Permission to write was denied. Cannot save the lyrics.");
+        return false;
+      }
+      await writeLrcFile(directoryHandle, song, lines);
+      setLyrics({ lines, source: 'lrc' });
+      return true;
+    } catch (e) {
+      console.error("Failed to save lyrics:", e);
+      alert(`Could not save the lyrics of ${song.name}.`);
+      return false;
+    }
+  }, [directoryHandle, song]);
+
+  return {
+    lyrics: loadedSongId === song.id ? lyrics : null,
+    isLoading: enabled && loadedSongId !== song.id,
+    canSave: directoryHandle !== null,
+    save,
+  };
+}
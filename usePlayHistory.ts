@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback, useMemo, useRef, RefObject } from 'react';
+import { Song, PlayRecord } from './types';
+import { getPlays, addPlay, updatePlaySongIds, clearPlays } from './db';
+import { AudioEngine } from './audioEngine';
+import { computeSongStats } from './playHistory';
+
+// Gaps between time updates larger than this are seeks, not listening
+const MAX_LISTENING_STEP = 2;
+
+interface PlaySession {
+  song: Song;
+  startedAt: number;
+  listened: number;
+  lastTime: number;
+}
+
+// Records every play of `song` on the audio element into IndexedDB. A play ends as
+// completed when the song finishes (or loops with repeat one), and as skipped when
+// another song starts before then, whether through playNext or by picking one.
+export function usePlayHistory(audioRef: RefObject<AudioEngine>, song: Song | null) {
+  const [plays, setPlays] = useState<PlayRecord[]>([]);
+  const sessionRef = useRef<PlaySession | null>(null);
+  const songRef = useRef(song);
+  songRef.current = song;
+
+  useEffect(() => {
+    getPlays()
+      .then(stored => setPlays(prev => [...stored, ...prev]))
+      .catch(e => console.error("Failed to load play history:", e));
+  }, []);
+
+  const finishSession = useCallback((outcome: 'completed' | 'skipped' | 'interrupted') => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (!session) return;
+    const { song: playedSong, startedAt, listened } = session;
+    const play: PlayRecord = {
+      songId: playedSong.id,
+      name: playedSong.name,
+      artist: playedSong.artist,
+      album: playedSong.album,
+      startedAt,
+      listened: Math.round(listened * 10) / 10,
+      duration: playedSong.duration,
+      completed: outcome === 'completed',
+      skipped: outcome === 'skipped',
+    };
+    setPlays(prev => [...prev, play]);
+    addPlay(play)
+      .then(id => setPlays(prev => prev.map(p => (p === play ? { ...p, id } : p))))
+      .catch(e => console.error("Failed to save play:", e));
+  }, []);
+
+  // A new song ends the previous song's play before it finished
+  useEffect(() => {
+    return () => finishSession('skipped');
+  }, [song?.id, finishSession]);
+
+  const hasSong = song !== null;
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handleTimeUpdate = () => {
+      const current = songRef.current;
+      // After a gapless handoff the next song plays a moment before `song` catches up
+      if (!current || audio.paused || audio.src !== current.url) return;
+      const time = audio.currentTime;
+      const session = sessionRef.current;
+      if (!session) {
+        sessionRef.current = { song: current, startedAt: Date.now(), listened: 0, lastTime: time };
+        return;
+      }
+      // With repeat one the audio loops instead of ending, each time round is a play
+      if (audio.loop && time < session.lastTime && session.lastTime > audio.duration - MAX_LISTENING_STEP) {
+        session.listened += audio.duration - session.lastTime;
+        finishSession('completed');
+        sessionRef.current = { song: current, startedAt: Date.now(), listened: time, lastTime: time };
+        return;
+      }
+      const step = time - session.lastTime;
+      if (step > 0 && step <= MAX_LISTENING_STEP * audio.playbackRate) session.listened += step;
+      session.lastTime = time;
+    };
+
+    const handleEnded = () => {
+      const session = sessionRef.current;
+      if (session) session.listened += Math.max(0, audio.duration - session.lastTime);
+      finishSession('completed');
+    };
+
+    // Keep what was heard so far when the app is closed mid-song
+    const handlePageHide = () => finishSession('interrupted');
+
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('ended', handleEnded);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('ended', handleEnded);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [audioRef, hasSong, finishSession]);
+
+  const songStats = useMemo(() => computeSongStats(plays), [plays]);
+
+  // Moved files get new song IDs, their plays follow them
+  const renameSongs = useCallback((newIds: Map<string, string>) => {
+    if (newIds.size === 0) return;
+    setPlays(prev => prev.map(play => (newIds.has(play.songId) ? { ...play, songId: newIds.get(play.songId)! } : play)));
+    updatePlaySongIds(newIds).catch(e => console.error("Failed to update play history:", e));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    sessionRef.current = null;
+    setPlays([]);
+    clearPlays().catch(e => console.error("Failed to clear play history:", e));
+  }, []);
+
+  return { plays, songStats, renameSongs, clearHistory };
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Playlist, PlaylistFormat, SmartPlaylistRules } from './types';
+import { getPlaylists, savePlaylist, deletePlaylist as deleteStoredPlaylist } from './db';
+
+// Reads and writes playlists that live as files in the music folder
+export interface PlaylistFileStore {
+  // Resolves with the playlist as written, its name, source and ID updated if the file was renamed
+  write: (playlist: Playlist) => Promise<Playlist>;
+  // Writes the playlist to a new file, resolving with it as a file playlist
+  create: (playlist: Playlist, format: PlaylistFormat) => Promise<Playlist>;
+  remove: (playlist: Playlist) => Promise<void>;
+}
+
+// Keeps the user's playlists in state and mirrors every change to IndexedDB, or to the
+// playlist file for playlists read from the music folder. `onIdChange` is told when a file
+// playlist gets a new ID, because its file was renamed or it was exported.
+export function usePlaylists(fileStore?: PlaylistFileStore, onIdChange?: (oldId: string, newId: string) => void) {
+  const [playlists, setPlaylistsState] = useState<Playlist[]>([]);
+  const playlistsRef = useRef<Playlist[]>([]);
+  const fileStoreRef = useRef(fileStore);
+  fileStoreRef.current = fileStore;
+  const onIdChangeRef = useRef(onIdChange);
+  onIdChangeRef.current = onIdChange;
+
+  const setPlaylists = (update: (prev: Playlist[]) => Playlist[]) => {
+    playlistsRef.current = update(playlistsRef.current);
+    setPlaylistsState(playlistsRef.current);
+  };
+
+  useEffect(() => {
+    getPlaylists()
+      .then(stored => setPlaylists(prev => [...stored, ...prev.filter(playlist => playlist.source)]))
+      .catch(e => console.error("Failed to load playlists:", e));
+  }, []);
+
+  const persist = (playlist: Playlist) => {
+    if (!playlist.source) {
+      savePlaylist(playlist).catch(e => console.error("Failed to save playlist:", e));
+      return;
+    }
+    if (!fileStoreRef.current) return;
+    fileStoreRef.current.write(playlist)
+      .then(written => {
+        setPlaylists(prev => prev.map(p => (p.id === playlist.id ? { ...p, id: written.id, name: written.name, source: written.source } : p)));
+        if (written.id !== playlist.id) onIdChangeRef.current?.(playlist.id, written.id);
+      })
+      .catch(e => {
+        console.error("Failed to write playlist file:", e);
+        alert(`Could not save "${playlist.name}" to its playlist file.`);
+      });
+  };
+
+  const updatePlaylist = useCallback((id: string, update: (playlist: Playlist) => Partial<Playlist>) => {
+    const playlist = playlistsRef.current.find(p => p.id === id);
+    if (!playlist) return;
+    const updated = { ...playlist, ...update(playlist), updatedAt: Date.now() };
+    setPlaylists(prev => prev.map(p => (p.id === id ? updated : p)));
+    persist(updated);
+  }, []);
+
+  // Replaces the playlists read from files, e.g. after the music folder was scanned
+  const setFilePlaylists = useCallback((filePlaylists: Playlist[]) => {
+    setPlaylists(prev => [...prev.filter(playlist => !playlist.source), ...filePlaylists]);
+  }, []);
+
+  const createPlaylist = useCallback((name: string, songIds: string[] = []): Playlist => {
+    const now = Date.now();
+    const playlist: Playlist = { id: crypto.randomUUID(), name, songIds, createdAt: now, updatedAt: now };
+    setPlaylists(prev => [...prev, playlist]);
+    persist(playlist);
+    return playlist;
+  }, []);
+
+  // A saved search or a set of rules, its songs are found again whenever the library changes
+  const createSmartPlaylist = useCallback((name: string, definition: Pick<Playlist, 'query' | 'rules'>): Playlist => {
+    const now = Date.now();
+    const playlist: Playlist = { id: crypto.randomUUID(), name, songIds: [], ...definition, createdAt: now, updatedAt: now };
+    setPlaylists(prev => [...prev, playlist]);
+    persist(playlist);
+    return playlist;
+  }, []);
+
+  const renamePlaylist = useCallback((id: string, name: string) => {
+    updatePlaylist(id, () => ({ name }));
+  }, [updatePlaylist]);
+
+  const updatePlaylistRules = useCallback((id: string, name: string, rules: SmartPlaylistRules) => {
+    updatePlaylist(id, () => ({ name, rules }));
+  }, [updatePlaylist]);
+
+  const deletePlaylist = useCallback((id: string) => {
+    const playlist = playlistsRef.current.find(p => p.id === id);
+    if (!playlist) return;
+    setPlaylists(prev => prev.filter(p => p.id !== id));
+    if (playlist.source) {
+      fileStoreRef.current?.remove(playlist).catch(e => console.error("Failed to delete playlist file:", e));
+    } else {
+      deleteStoredPlaylist(id).catch(e => console.error("Failed to delete playlist:", e));
+    }
+  }, []);
+
+  // Writes a playlist to a file at the top of the music folder. From then on the file is
+  // where the playlist lives, so it is removed from IndexedDB.
+  const exportPlaylist = useCallback(async (id: string, format: PlaylistFormat) => {
+    const playlist = playlistsRef.current.find(p => p.id === id);
+    if (!playlist || playlist.source || !fileStoreRef.current) return;
+    try {
+      const exported = await fileStoreRef.current.create(playlist, format);
+      setPlaylists(prev => prev.map(p => (p.id === id ? exported : p)));
+      onIdChangeRef.current?.(id, exported.id);
+      await deleteStoredPlaylist(id);
+    } catch (e) {
+      console.error("Failed to export playlist:", e);
+      alert(`Could not export "${playlist.name}".`);
+    }
+  }, []);
+
+  const addToPlaylist = useCallback((id: string, songIds: string[]) => {
+    updatePlaylist(id, playlist => ({ songIds: [...playlist.songIds, ...songIds] }));
+  }, [updatePlaylist]);
+
+  const removeFromPlaylist = useCallback((id: string, position: number) => {
+    updatePlaylist(id, playlist => ({ songIds: playlist.songIds.filter((_, i) => i !== position) }));
+  }, [updatePlaylist]);
+
+  const movePlaylistItem = useCallback((id: string, from: number, to: number) => {
+    updatePlaylist(id, playlist => {
+      const songIds = [...playlist.songIds];
+      const [moved] = songIds.splice(from, 1);
+      songIds.splice(to, 0, moved);
+      return { songIds };
+    });
+  }, [updatePlaylist]);
+
+  // Moved files get new song IDs, playlists follow them. Playlist files are left alone, they
+  // are read again with the rest of the folder.
+  const renamePlaylistSongs = useCallback((newIds: Map<string, string>) => {
+    if (newIds.size === 0) return;
+    const renamed = playlistsRef.current
+      .filter(playlist => !playlist.source && playlist.songIds.some(id => newIds.has(id)))
+      .map(playlist => ({ ...playlist, songIds: playlist.songIds.map(id => newIds.get(id) ?? id) }));
+    if (renamed.length === 0) return;
+    const byId = new Map(renamed.map(playlist => [playlist.id, playlist]));
+    setPlaylists(prev => prev.map(p => byId.get(p.id) ?? p));
+    renamed.forEach(persist);
+  }, []);
+
+  return { playlists, setFilePlaylists, renamePlaylistSongs, createPlaylist, createSmartPlaylist, renamePlaylist, updatePlaylistRules, deletePlaylist, exportPlaylist, addToPlaylist, removeFromPlaylist, movePlaylistItem };
+}
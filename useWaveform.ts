@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { Song } from './types';
+import { getWaveform, saveWaveform } from './db';
+import { getContentHashFromId } from './library';
+import { computePeaks } from './waveform';
+import { createWorkerRunner } from './workerRunner';
+
+// Peaks only need a rough outline, so tracks are decoded at a low rate to keep memory down.
+// Even so longer tracks, like whole audiobooks, keep the plain bar.
+const WAVEFORM_SAMPLE_RATE = 8000;
+const MAX_WAVEFORM_DURATION = 30 * 60;
+// Let playback start before decoding anything
+const WAVEFORM_DELAY = 1000;
+
+// Works out peaks in a worker, or on the main thread if the worker can't be started. If the
+// worker fails the samples are already gone, so the song keeps the plain bar.
+const createPeaksCalculator = () => createWorkerRunner<Float32Array[], Float32Array>({
+  name: 'Waveform',
+  createWorker: () => new Worker(new URL('./waveformWorker.ts', import.meta.url), { type: 'module' }),
+  runOnMainThread: computePeaks,
+  getTransfer: channels => channels.map(samples => samples.buffer),
+});
+
+async function decodeSong(song: Song): Promise<Float32Array[]> {
+  const data = await (await fetch(song.url)).arrayBuffer();
+  const buffer = await new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE).decodeAudioData(data);
+  return Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+}
+
+// The waveform peaks of `song`, decoded once and then kept in the catalog by content hash.
+// Null until they're ready, or for songs too long to decode.
+export function useWaveform(song: Song | null): Float32Array | null {
+  const [waveform, setWaveform] = useState<{ hash: string; peaks: Float32Array } | null>(null);
+  const hash = song ? getContentHashFromId(song.id) : null;
+
+  useEffect(() => {
+    if (!song || !hash || waveform?.hash === hash) return;
+    let cancelled = false;
+    let terminate = () => {};
+    let timer: number | undefined;
+
+    const load = async () => {
+      const cached = await getWaveform(hash);
+      if (cancelled) return;
+      if (cached) {
+        setWaveform({ hash, peaks: cached });
+        return;
+      }
+      if (song.duration > MAX_WAVEFORM_DURATION) return;
+      timer = window.setTimeout(async () => {
+        try {
+          const channels = await decodeSong(song);
+          if (cancelled) return;
+          const calculator = createPeaksCalculator();
+          terminate = calculator.terminate;
+          const peaks = await calculator.run(channels).finally(calculator.terminate);
+          if (cancelled) return;
+          setWaveform({ hash, peaks });
+          saveWaveform(hash, peaks).catch(e => console.error("Failed to save waveform:", e));
+        } catch (e) {
+          if (!cancelled) console.warn(`Could not draw the waveform of ${song.name}:`, e);
+        }
+      }, WAVEFORM_DELAY);
+    };
+    load().catch(e => console.error("Failed to load waveform:", e));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      terminate();
+    };
+  }, [song, hash, waveform]);
+
+  return waveform?.hash === hash ? waveform.peaks : null;
+}
@@ -0,0 +1,176 @@
+import { Palette, Rgb, toRgba, mixColors } from './coverPalette';
+
+// What a visualizer gets every animation frame
+export interface VisualizerFrame {
+  // Byte frequency data from the analyser, one value from 0 to 255 per bin up to the Nyquist frequency
+  frequency: Uint8Array;
+  // Byte time-domain data from the analyser, 128 is silence
+  waveform: Uint8Array;
+  sampleRate: number;
+  palette: Palette;
+}
+
+export interface VisualizerRenderer {
+  // Draws one frame over the whole canvas, which is already sized to its element in device pixels
+  draw: (frame: VisualizerFrame) => void;
+}
+
+// A visualizer asks its canvas for whichever context it draws with, '2d' or 'webgl'. A canvas
+// only ever gives out one kind, so every visualizer gets a fresh one when it's picked.
+export interface Visualizer {
+  id: string;
+  name: string;
+  // Null if the canvas can't provide the context, the visualizer is then left blank
+  create: (canvas: HTMLCanvasElement) => VisualizerRenderer | null;
+}
+
+const VISUALIZER_KEY = 'musicPlayerVisualizer';
+
+// The frequencies shown, log-scaled as we hear them
+const MIN_FREQUENCY = 30;
+const MAX_FREQUENCY = 16000;
+
+// The loudest bin in each of `count` bands spaced evenly on a log scale, from 0 to 1
+export function getLogBands(frequency: Uint8Array, sampleRate: number, count: number): number[] {
+  const nyquist = sampleRate / 2;
+  const maxFrequency = Math.min(MAX_FREQUENCY, nyquist);
+  const toBin = (hz: number) => Math.min(frequency.length - 1, Math.floor((hz / nyquist) * frequency.length));
+  return Array.from({ length: count }, (_, i) => {
+    const low = toBin(MIN_FREQUENCY * Math.pow(maxFrequency / MIN_FREQUENCY, i / count));
+    const high = toBin(MIN_FREQUENCY * Math.pow(maxFrequency / MIN_FREQUENCY, (i + 1) / count));
+    let value = 0;
+    for (let bin = low; bin <= Math.max(low, high - 1); bin++) value = Math.max(value, frequency[bin]);
+    return value / 255;
+  });
+}
+
+// Adapts a drawing function for a 2D canvas into a visualizer
+const create2d = (draw: (ctx: CanvasRenderingContext2D, frame: VisualizerFrame) => void) => (canvas: HTMLCanvasElement): VisualizerRenderer | null => {
+  const ctx = canvas.getContext('2d');
+  return ctx ? { draw: frame => draw(ctx, frame) } : null;
+};
+
+const spectrum: Visualizer = {
+  id: 'spectrum',
+  name: 'Spectrum',
+  create: create2d((ctx, { frequency, sampleRate, palette }) => {
+    const { width, height } = ctx.canvas;
+    const count = Math.max(16, Math.min(96, Math.floor(width / (8 * (window.devicePixelRatio || 1)))));
+    const bands = getLogBands(frequency, sampleRate, count);
+    const barWidth = width / count;
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, toRgba(palette.primary, 0.9));
+    gradient.addColorStop(1, toRgba(palette.secondary, 0.3));
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = gradient;
+    bands.forEach((value, i) => {
+      const barHeight = value * height;
+      ctx.fillRect(i * barWidth + barWidth * 0.1, height - barHeight, barWidth * 0.8, barHeight);
+    });
+  }),
+};
+
+const oscilloscope: Visualizer = {
+  id: 'oscilloscope',
+  name: 'Oscilloscope',
+  create: create2d((ctx, { waveform, palette }) => {
+    const { width, height } = ctx.canvas;
+    const scale = window.devicePixelRatio || 1;
+    ctx.clearRect(0, 0, width, height);
+    ctx.beginPath();
+    waveform.forEach((value, i) => {
+      const x = (i / (waveform.length - 1)) * width;
+      const y = (value / 255) * height;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.lineWidth = 2 * scale;
+    ctx.strokeStyle = toRgba(palette.primary);
+    ctx.shadowColor = toRgba(palette.secondary);
+    ctx.shadowBlur = 8 * scale;
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  }),
+};
+
+const radial: Visualizer = {
+  id: 'radial',
+  name: 'Radial',
+  create: create2d((ctx, { frequency, sampleRate, palette }) => {
+    const { width, height } = ctx.canvas;
+    const size = Math.min(width, height);
+    const inner = size * 0.22;
+    const reach = size * 0.26;
+    const count = 64;
+    // Mirrored, so low notes meet at the top and the circle has no seam
+    const bands = getLogBands(frequency, sampleRate, count / 2);
+    const values = [...bands, ...[...bands].reverse()];
+    ctx.clearRect(0, 0, width, height);
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.lineCap = 'round';
+    ctx.lineWidth = Math.max(2, (2 * Math.PI * inner) / count * 0.6);
+    values.forEach((value, i) => {
+      const angle = (i / count) * 2 * Math.PI - Math.PI / 2;
+      const length = Math.max(2, value * reach);
+      ctx.strokeStyle = toRgba(mixColors(palette.primary, palette.secondary, value), 0.5 + value / 2);
+      ctx.beginPath();
+      ctx.moveTo(Math.cos(angle) * inner, Math.sin(angle) * inner);
+      ctx.lineTo(Math.cos(angle) * (inner + length), Math.sin(angle) * (inner + length));
+      ctx.stroke();
+    });
+    ctx.restore();
+  }),
+};
+
+// Scrolls to the left, newest column on the right, low frequencies at the bottom
+const spectrogram: Visualizer = {
+  id: 'spectrogram',
+  name: 'Spectrogram',
+  create: canvas => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    const background: Rgb = [17, 24, 39];
+    return {
+      draw: ({ frequency, sampleRate, palette }) => {
+        const { width, height } = canvas;
+        const step = Math.max(1, Math.round(window.devicePixelRatio || 1));
+        ctx.drawImage(canvas, -step, 0);
+        const column = ctx.createImageData(step, height);
+        const rows = getLogBands(frequency, sampleRate, height);
+        for (let y = 0; y < height; y++) {
+          const value = rows[height - 1 - y];
+          const color = value < 0.5
+            ? mixColors(background, palette.secondary, value * 2)
+            : mixColors(palette.secondary, palette.primary, (value - 0.5) * 2);
+          for (let x = 0; x < step; x++) {
+            const offset = (y * step + x) * 4;
+            column.data.set([...color, 255], offset);
+          }
+        }
+        ctx.putImageData(column, width - step, 0);
+      },
+    };
+  },
+};
+
+const visualizers: Visualizer[] = [spectrum, oscilloscope, radial, spectrogram];
+
+export const getVisualizers = () => visualizers;
+
+// Adds a visualizer to the ones to choose from, replacing any with the same ID
+export function registerVisualizer(visualizer: Visualizer) {
+  const index = visualizers.findIndex(v => v.id === visualizer.id);
+  if (index === -1) visualizers.push(visualizer);
+  else visualizers[index] = visualizer;
+}
+
+export const findVisualizer = (id: string) => visualizers.find(v => v.id === id) ?? visualizers[0];
+
+export function loadVisualizerId(): string {
+  return localStorage.getItem(VISUALIZER_KEY) ?? spectrum.id;
+}
+
+export function saveVisualizerId(id: string) {
+  localStorage.setItem(VISUALIZER_KEY, id);
+}
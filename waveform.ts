@@ -0,0 +1,38 @@
+// Peaks for the waveform seek bar: the loudest sample of each of PEAK_COUNT equal slices of a
+// track, across all channels, scaled so the loudest slice is 1. Bars are drawn from these at
+// whatever width the bar has, so the count only needs to cover the widest one.
+
+export const PEAK_COUNT = 1000;
+
+export function computePeaks(channels: Float32Array[], count = PEAK_COUNT): Float32Array {
+  const peaks = new Float32Array(count);
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return peaks;
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor((i * length) / count);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * length) / count));
+    let peak = 0;
+    for (const samples of channels) {
+      for (let j = start; j < end && j < length; j++) {
+        const value = Math.abs(samples[j]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks[i] = peak;
+  }
+  let max = 0;
+  for (const peak of peaks) if (peak > max) max = peak;
+  if (max > 0) for (let i = 0; i < count; i++) peaks[i] /= max;
+  return peaks;
+}
+
+// Picks the loudest peak for each of `bars` bars
+export function resamplePeaks(peaks: Float32Array, bars: number): number[] {
+  return Array.from({ length: bars }, (_, i) => {
+    const start = Math.floor((i * peaks.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * peaks.length) / bars));
+    let peak = 0;
+    for (let j = start; j < end && j < peaks.length; j++) peak = Math.max(peak, peaks[j]);
+    return peak;
+  });
+}
@@ -0,0 +1,11 @@
+// Web Worker that works out waveform peaks off the main thread. Like the loudness analysis,
+// decoding happens on the main thread, as workers have no OfflineAudioContext.
+
+import { computePeaks } from './waveform';
+import { WorkerRequest, WorkerResponse } from './workerRunner';
+
+self.onmessage = (event: MessageEvent<WorkerRequest<Float32Array[]>>) => {
+  const { id, input } = event.data;
+  const response: WorkerResponse<Float32Array> = { id, output: computePeaks(input) };
+  self.postMessage(response, { transfer: [response.output.buffer] });
+};
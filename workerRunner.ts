@@ -0,0 +1,76 @@
+export interface WorkerRequest<Input> {
+  id: number;
+  input: Input;
+}
+
+export interface WorkerResponse<Output> {
+  id: number;
+  output: Output;
+}
+
+interface WorkerRunnerOptions<Input, Output> {
+  // Used in warnings, e.g. "Metadata"
+  name: string;
+  createWorker: () => Worker;
+  // Does the job on the main thread when there's no worker
+  runOnMainThread: (input: Input) => Output | Promise<Output>;
+  // Buffers handed over to the worker instead of copied
+  getTransfer?: (input: Input) => Transferable[];
+}
+
+// Runs jobs in a dedicated worker, or on the main thread if the worker can't be started or
+// fails. Jobs in flight when it fails are run again on the main thread, except those whose
+// buffers went to the worker: there's nothing left to run them with, so they're rejected.
+export function createWorkerRunner<Input, Output>({ name, createWorker, runOnMainThread, getTransfer }: WorkerRunnerOptions<Input, Output>) {
+  const pending = new Map<number, { input: Input; resolve: (output: Output) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+  let worker: Worker | null = null;
+
+  const runHere = async (input: Input) => runOnMainThread(input);
+
+  const fallBack = (message: string) => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach(({ input, resolve, reject }) => {
+      if (getTransfer) reject(new Error(message));
+      else runHere(input).then(resolve, reject);
+    });
+    pending.clear();
+  };
+
+  try {
+    worker = createWorker();
+    worker.onmessage = (event: MessageEvent<WorkerResponse<Output>>) => {
+      const { id, output } = event.data;
+      const job = pending.get(id);
+      if (!job) return;
+      pending.delete(id);
+      job.resolve(output);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      console.warn(`${name} worker failed, falling back to the main thread:`, event.message);
+      fallBack(event.message);
+    };
+  } catch (e) {
+    console.warn(`Could not start ${name.toLowerCase()} worker:`, e);
+  }
+
+  return {
+    run: (input: Input): Promise<Output> => {
+      if (!worker) return runHere(input);
+      return new Promise((resolve, reject) => {
+        const request: WorkerRequest<Input> = { id: nextId++, input };
+        pending.set(request.id, { input, resolve, reject });
+        worker!.postMessage(request, getTransfer?.(input) ?? []);
+      });
+    },
+    // Jobs still in flight reject with an AbortError
+    terminate: () => {
+      worker?.terminate();
+      worker = null;
+      pending.forEach(({ reject }) => reject(new DOMException(`${name} worker stopped`, 'AbortError')));
+      pending.clear();
+    },
+  };
+}